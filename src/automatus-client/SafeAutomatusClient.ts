@@ -6,13 +6,16 @@ import {
   CodeContext,
   SafeAutomatusRequest,
   AnalysisResult,
+  CodeIssue,
   CodePreview,
   Explanation,
   WritePermission,
   ApplyResult,
   CodeChange,
-  AutomatusConfig
+  AutomatusConfig,
+  AutomatusRequestOptions
 } from '../types';
+import { createStreamParser, detectStreamFormat, StreamEvent, StreamFormat } from './streamParser';
 
 export class SafeAutomatusClient {
   private config: AutomatusConfig;
@@ -62,7 +65,7 @@ export class SafeAutomatusClient {
   }
 
   // Phase 1: Read-only operations
-  async analyzeCode(context: CodeContext): Promise<AnalysisResult> {
+  async analyzeCode(context: CodeContext, options: AutomatusRequestOptions = {}): Promise<AnalysisResult> {
     if (this.config.safetyPhase < 1) {
       throw new Error('Analysis not available in current safety phase');
     }
@@ -75,10 +78,10 @@ export class SafeAutomatusClient {
       capability: 'coding_agent'
     };
 
-    return this.sendRequest(request);
+    return this.sendRequest(request, options);
   }
 
-  async generateCodePreview(prompt: string, context: CodeContext): Promise<CodePreview> {
+  async generateCodePreview(prompt: string, context: CodeContext, options: AutomatusRequestOptions = {}): Promise<CodePreview> {
     if (this.config.safetyPhase < 1) {
       throw new Error('Code preview not available in current safety phase');
     }
@@ -91,10 +94,10 @@ export class SafeAutomatusClient {
       capability: 'coding_agent'
     };
 
-    return this.sendRequest(request);
+    return this.sendRequest(request, options);
   }
 
-  async explainCode(selection: string, context: CodeContext): Promise<Explanation> {
+  async explainCode(selection: string, context: CodeContext, options: AutomatusRequestOptions = {}): Promise<Explanation> {
     if (this.config.safetyPhase < 1) {
       throw new Error('Code explanation not available in current safety phase');
     }
@@ -107,7 +110,7 @@ export class SafeAutomatusClient {
       capability: 'coding_agent'
     };
 
-    return this.sendRequest(request);
+    return this.sendRequest(request, options);
   }
 
   // Phase 2: Controlled write operations (user approval required)
@@ -225,12 +228,16 @@ export class SafeAutomatusClient {
     return this.sendRequest(request);
   }
 
-  private async sendRequest(request: SafeAutomatusRequest): Promise<any> {
+  private async sendRequest(request: SafeAutomatusRequest, options: AutomatusRequestOptions = {}): Promise<any> {
+    const streaming = !!options.onChunk;
+    let streamedChars = 0;
+
     try {
       // Convert request to chat message format
       const chatRequest = {
         message: this.formatRequestAsMessage(request),
         session_id: this.sessionId,
+        stream: streaming || undefined,
         context: {
           type: request.type,
           safetyLevel: request.safetyLevel,
@@ -241,24 +248,94 @@ export class SafeAutomatusClient {
 
       const response = await fetch(`${this.getRestUrl()}/chat`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(chatRequest)
+        headers: {
+          'Content-Type': 'application/json',
+          ...(streaming ? { 'Accept': 'text/event-stream, application/x-ndjson, application/json' } : {})
+        },
+        body: JSON.stringify(chatRequest),
+        signal: options.signal
       });
 
       if (!response.ok) {
         throw new Error(`Server error: ${response.status} ${response.statusText}`);
       }
 
-      const data = await response.json() as { response: string };
-      return this.parseResponseForType(data.response, request.type);
+      // Servers without streaming support answer with a single JSON body
+      const format = streaming ? detectStreamFormat(response.headers.get('content-type')) : null;
+      let text: string;
+      if (format && response.body) {
+        text = await this.readStream(response.body, format, chunk => {
+          streamedChars += chunk.length;
+          options.onChunk!(chunk);
+        });
+      } else {
+        const data = await response.json() as { response: string };
+        text = data.response;
+        options.onChunk?.(text);
+      }
+
+      return this.parseResponseForType(text, request.type);
 
     } catch (error) {
+      if (options.signal?.aborted) {
+        this.log(`Request cancelled: ${request.type}`);
+        throw new Error('Request cancelled');
+      }
+
       this.log(`Request failed: ${error}`);
+
+      // The caller already shows part of the server's answer; an offline answer would silently replace it
+      if (streamedChars > 0) {
+        throw new Error(`Response stream interrupted after ${streamedChars} characters: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
       // Provide offline fallback for Phase 1 operations
       return this.handleOfflineRequest(request);
     }
   }
 
+  // Reads a streamed body, forwarding tokens as they arrive; returns the complete response text
+  private async readStream(body: NonNullable<Response['body']>, format: StreamFormat, onChunk: (text: string) => void): Promise<string> {
+    const parser = createStreamParser(format);
+    const decoder = new TextDecoder();
+    const reader = body.getReader();
+    let accumulated = '';
+    let finalResponse: string | undefined;
+
+    const handleEvents = (events: StreamEvent[]) => {
+      for (const event of events) {
+        switch (event.type) {
+          case 'token':
+            accumulated += event.text;
+            onChunk(event.text);
+            break;
+          case 'done':
+            finalResponse = event.response ?? finalResponse;
+            break;
+          case 'error':
+            throw new Error(`Stream error: ${event.message}`);
+        }
+      }
+    };
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        handleEvents(parser.push(decoder.decode(value, { stream: true })));
+      }
+      handleEvents(parser.push(decoder.decode()));
+      handleEvents(parser.flush());
+    } finally {
+      reader.releaseLock();
+    }
+
+    this.log(`Streamed ${accumulated.length} characters (${format})`);
+    return finalResponse ?? accumulated;
+  }
+
   private getRestUrl(): string {
     // Convert WebSocket URL to HTTP URL if needed
     let url = this.config.serverUrl;
@@ -358,14 +435,18 @@ export class SafeAutomatusClient {
           safetyWarnings: ['Generated offline - limited functionality']
         };
 
-      case 'analysis':
-        return {
-          summary: 'Offline analysis available. Connect to server for detailed AI analysis.',
-          issues: this.performBasicAnalysis(request.context),
+      case 'analysis': {
+        const issues = this.performBasicAnalysis(request.context);
+        const analysis: AnalysisResult = {
+          summary: `Offline analysis found ${issues.length} issue(s). Connect to server for detailed AI analysis.`,
+          issues,
           suggestions: ['Connect to Automatus server for AI-powered suggestions'],
-          complexity: 3,
-          quality: 7
+          complexity: this.estimateComplexity(request.context.selectedText || ''),
+          quality: this.estimateQuality(issues),
+          source: 'offline'
         };
+        return analysis;
+      }
 
       case 'explanation':
         return {
@@ -435,30 +516,41 @@ class ${className} {
 console.log("Hello from offline mode!");`;
   }
 
-  private performBasicAnalysis(context: CodeContext): any[] {
-    const issues = [];
+  private performBasicAnalysis(context: CodeContext): CodeIssue[] {
+    const issues: CodeIssue[] = [];
     const code = context.selectedText || '';
+    const lines = code.split('\n');
 
-    // Basic static analysis
-    if (code.includes('console.log')) {
-      issues.push({
-        line: 1,
-        severity: 'info',
-        message: 'Console logging detected',
-        type: 'style'
-      });
-    }
+    // Basic static analysis, reported on the line where the pattern occurs
+    lines.forEach((text, index) => {
+      const line = index + 1;
 
-    if (code.includes('var ')) {
-      issues.push({
-        line: 1,
-        severity: 'warning',
-        message: 'Consider using let or const instead of var',
-        type: 'modernization'
-      });
-    }
+      if (text.includes('console.log')) {
+        issues.push({ line, severity: 'info', message: 'Console logging detected', type: 'style' });
+      }
 
-    if (code.length > 1000) {
+      if (/\bvar\s/.test(text)) {
+        issues.push({ line, severity: 'warning', message: 'Consider using let or const instead of var', type: 'modernization' });
+      }
+
+      if (/[^=!]==[^=]/.test(text)) {
+        issues.push({ line, severity: 'warning', message: 'Loose equality comparison; prefer === or !==', type: 'correctness' });
+      }
+
+      if (/\b(TODO|FIXME)\b/.test(text)) {
+        issues.push({ line, severity: 'info', message: 'Unresolved TODO/FIXME comment', type: 'maintenance' });
+      }
+
+      if (/\beval\s*\(/.test(text)) {
+        issues.push({ line, severity: 'error', message: 'Use of eval() is a security risk', type: 'security' });
+      }
+
+      if (text.length > 120) {
+        issues.push({ line, severity: 'info', message: `Line is ${text.length} characters long`, type: 'style' });
+      }
+    });
+
+    if (code.length > 1000 || lines.length > 50) {
       issues.push({
         line: 1,
         severity: 'warning',
@@ -470,6 +562,20 @@ console.log("Hello from offline mode!");`;
     return issues;
   }
 
+  // Cyclomatic-style estimate: one plus the number of branch points, capped at 10
+  private estimateComplexity(code: string): number {
+    const branches = code.match(/\b(if|for|while|case|catch)\b|&&|\|\||\?(?![.?])/g) || [];
+    return Math.min(10, 1 + branches.length);
+  }
+
+  // Starts at 10 and loses points per issue according to its severity
+  private estimateQuality(issues: CodeIssue[]): number {
+    const penalty = issues.reduce((total, issue) => {
+      return total + (issue.severity === 'error' ? 3 : issue.severity === 'warning' ? 1 : 0.25);
+    }, 0);
+    return Math.max(1, Math.round(10 - penalty));
+  }
+
   private inferCodeType(selectedText: string): string {
     if (selectedText.includes('function')) {return 'function definition';}
     if (selectedText.includes('class')) {return 'class definition';}
@@ -538,7 +644,8 @@ console.log("Hello from offline mode!");`;
       })),
       suggestions: suggestionMatches.map(s => s.replace(/^(?:suggestion|recommendation|improvement)[s]?[:\s]+/i, '')),
       complexity: this.extractComplexity(response),
-      quality: this.extractQuality(response)
+      quality: this.extractQuality(response),
+      source: 'server'
     };
   }
 
@@ -0,0 +1,157 @@
+/**
+ * Incremental parsers for streamed Automatus server responses.
+ * Supports Server-Sent Events (`text/event-stream`) and newline-delimited JSON
+ * (`application/x-ndjson`). Input may be split at any byte boundary.
+ */
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+export type StreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'done'; response?: string }
+  | { type: 'error'; message: string };
+
+export interface StreamParser {
+  push(text: string): StreamEvent[];
+  flush(): StreamEvent[];
+}
+
+export function detectStreamFormat(contentType: string | null): StreamFormat | null {
+  const type = (contentType || '').toLowerCase();
+  if (type.includes('text/event-stream')) {
+    return 'sse';
+  }
+  if (type.includes('ndjson') || type.includes('jsonl') || type.includes('json-seq')) {
+    return 'ndjson';
+  }
+  return null;
+}
+
+export function createStreamParser(format: StreamFormat): StreamParser {
+  return format === 'sse' ? new SSEParser() : new NDJSONParser();
+}
+
+// Interprets one streamed payload: a JSON object or string from the server, or a bare text token.
+// Anything else is text, so tokens such as `42` or `true` are not lost to JSON parsing.
+function parsePayload(payload: string): StreamEvent | null {
+  if (payload === '[DONE]') {
+    return { type: 'done' };
+  }
+
+  let data: any;
+  try {
+    data = /^\s*[{"]/.test(payload) ? JSON.parse(payload) : payload;
+  } catch {
+    data = payload;
+  }
+
+  if (typeof data === 'string') {
+    return data.length > 0 ? { type: 'token', text: data } : null;
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return null;
+  }
+  if (data.error) {
+    return { type: 'error', message: typeof data.error === 'string' ? data.error : JSON.stringify(data.error) };
+  }
+  if (data.done) {
+    return { type: 'done', response: typeof data.response === 'string' ? data.response : undefined };
+  }
+
+  const text = data.token ?? data.delta ?? data.content ?? data.response;
+  return typeof text === 'string' && text.length > 0 ? { type: 'token', text } : null;
+}
+
+class NDJSONParser implements StreamParser {
+  private buffer = '';
+
+  push(text: string): StreamEvent[] {
+    this.buffer += text;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return this.parseLines(lines);
+  }
+
+  flush(): StreamEvent[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.parseLines([rest]);
+  }
+
+  private parseLines(lines: string[]): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        continue;
+      }
+      const event = parsePayload(trimmed);
+      if (event) {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+}
+
+class SSEParser implements StreamParser {
+  private buffer = '';
+
+  push(text: string): StreamEvent[] {
+    this.buffer += text.replace(/\r\n/g, '\n');
+    const blocks = this.buffer.split('\n\n');
+    this.buffer = blocks.pop() ?? '';
+    return this.parseBlocks(blocks);
+  }
+
+  flush(): StreamEvent[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.parseBlocks([rest]);
+  }
+
+  private parseBlocks(blocks: string[]): StreamEvent[] {
+    const events: StreamEvent[] = [];
+
+    for (const block of blocks) {
+      let eventName = 'message';
+      const data: string[] = [];
+
+      for (const line of block.split('\n')) {
+        if (line.startsWith(':')) {
+          continue; // Comment / keep-alive
+        }
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+        if (field === 'event') {
+          eventName = value;
+        } else if (field === 'data') {
+          data.push(value);
+        }
+      }
+
+      if (data.length === 0) {
+        continue;
+      }
+
+      const payload = data.join('\n');
+      if (eventName === 'error') {
+        events.push({ type: 'error', message: payload });
+        continue;
+      }
+      if (eventName === 'done') {
+        events.push({ type: 'done', response: payload && payload !== '[DONE]' ? payload : undefined });
+        continue;
+      }
+
+      const event = parsePayload(payload);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+}
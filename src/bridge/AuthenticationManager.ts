@@ -5,6 +5,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { ConfigurationManager } from '../config/ConfigurationManager';
 import { SafetyGuard } from '../safety/SafetyGuard';
+import { BridgeCertificate, loadOrCreateBridgeCertificate } from './tlsCertificate';
 
 export interface TokenPayload {
   userId: string;
@@ -44,6 +45,8 @@ export class AuthenticationManager {
   private revokedTokens: Set<string> = new Set();
   private activeTokens: Map<string, TokenInfo> = new Map();
   private tokenStorePath: string;
+  private storageDirectory: string;
+  private tlsCertificate: BridgeCertificate | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   // IP-based blocking
@@ -60,6 +63,7 @@ export class AuthenticationManager {
     this.configManager = configManager;
     this.safetyGuard = safetyGuard;
     this.tokenStorePath = path.join(context.globalStoragePath, 'bridge-tokens.json');
+    this.storageDirectory = context.globalStoragePath;
 
     this.initializeSecretKey(context);
     this.loadPersistedData();
@@ -187,7 +191,12 @@ export class AuthenticationManager {
     return token;
   }
 
-  async validateToken(token: string, clientIP: string): Promise<AuthResult> {
+  /**
+   * Validates a token for a client. Callers that present the token on every request
+   * (HTTP commands) pass `countAttempt: false` to skip the per-IP attempt limit;
+   * failures are still recorded and lead to IP blocking.
+   */
+  async validateToken(token: string, clientIP: string, options: { countAttempt?: boolean } = {}): Promise<AuthResult> {
     // Check IP blocking first
     if (this.isIPBlocked(clientIP)) {
       const blockInfo = this.blockedIPs.get(clientIP);
@@ -198,7 +207,7 @@ export class AuthenticationManager {
     }
 
     // Check IP rate limiting
-    if (!this.checkIPRateLimit(clientIP)) {
+    if (options.countAttempt !== false && !this.checkIPRateLimit(clientIP)) {
       this.recordAuthFailure(clientIP, 'Rate limit exceeded');
       return {
         success: false,
@@ -457,17 +466,38 @@ export class AuthenticationManager {
     this.savePersistedData();
   }
 
+  /**
+   * Self-signed certificate for the wss:// bridge, kept in global storage next to the
+   * signing secret. Generated on first use and renewed shortly before it expires.
+   */
+  getTlsCertificate(): BridgeCertificate {
+    if (!this.tlsCertificate || Date.parse(this.tlsCertificate.validTo) <= Date.now()) {
+      const { created, ...certificate } = loadOrCreateBridgeCertificate(this.storageDirectory);
+      this.tlsCertificate = certificate;
+
+      if (created) {
+        this.safetyGuard.logOperation('bridge_tls_certificate_created', {
+          fingerprint: certificate.fingerprint,
+          validTo: certificate.validTo
+        });
+      }
+    }
+    return this.tlsCertificate;
+  }
+
   getAuthenticationStatus(): {
     activeTokens: number;
     revokedTokens: number;
     blockedIPs: number;
     authFailures: number;
+    tlsFingerprint?: string; // Set while TLS is enabled; TUIs pin the bridge certificate by it
   } {
     return {
       activeTokens: this.activeTokens.size,
       revokedTokens: this.revokedTokens.size,
       blockedIPs: this.blockedIPs.size,
-      authFailures: this.authFailures.size
+      authFailures: this.authFailures.size,
+      tlsFingerprint: this.configManager.getConfiguration().bridgeTls ? this.getTlsCertificate().fingerprint : undefined
     };
   }
 
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { BridgeServer } from './BridgeServer';
+import { CircuitBreakerSnapshot } from './CircuitBreaker';
 import { BridgeConfig } from './types';
+import { describeBridgeEndpoint } from './ipcTransport';
 import { ConfigurationManager } from '../config/ConfigurationManager';
 import { SafetyGuard } from '../safety/SafetyGuard';
 import { safeRegisterDisposable } from '../utils/ExtensionLifecycle';
@@ -51,8 +53,9 @@ export class BridgeClient {
 
     if (this.reconnectAttempts === 0) {
       const config = configManager.getConfiguration();
+      const endpoint = this.server.getBridge().getEndpoint() ?? { transport: 'websocket', port: config.bridgePort || 19888 };
       vscode.window.showInformationMessage(
-        `Automatus bridge server started on port ${config.bridgePort || 19888}`
+        `Automatus bridge server started on ${describeBridgeEndpoint(endpoint)}`
       );
     } else {
       vscode.window.showInformationMessage(
@@ -284,7 +287,7 @@ export class BridgeClient {
 
     const rawConfig = {
       port: config.get('port', 19888),
-      protocol: 'websocket' as const,
+      protocol: config.get<'websocket' | 'ipc'>('transport', 'websocket'),
       timeout: config.get('timeout', 30000),
       retryAttempts: config.get('retryAttempts', 3),
       enableHeartbeat: config.get('enableHeartbeat', true),
@@ -681,9 +684,9 @@ ${memoryInfo}
         ${metrics.performance.circuitBreakers.length > 0 ? `
           <div class="metric-card">
             <div class="metric-title">⚠️ Circuit Breakers (Open)</div>
-            ${metrics.performance.circuitBreakers.map(([cmd, breaker]: [string, any]) => `
+            ${metrics.performance.circuitBreakers.map((breaker: CircuitBreakerSnapshot) => `
               <div class="metric-item">
-                <span>${cmd}</span>
+                <span>${breaker.key} (${breaker.state})</span>
                 <span class="metric-value">${breaker.failures} failures</span>
               </div>
             `).join('')}
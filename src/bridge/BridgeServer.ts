@@ -4,7 +4,9 @@ import { TUICommand, VSCodeResponse } from './types';
 import { ConfigurationManager } from '../config/ConfigurationManager';
 import { SafetyGuard } from '../safety/SafetyGuard';
 import { AuthenticationManager } from './AuthenticationManager';
+import { CircuitBreakerSnapshot } from './CircuitBreaker';
 import { safeRegisterDisposable } from '../utils/ExtensionLifecycle';
+import { BridgeTransport, describeBridgeEndpoint } from './ipcTransport';
 
 export interface BridgeMetrics {
   connectionsTotal: number;
@@ -17,7 +19,7 @@ export interface BridgeMetrics {
     peakMemoryUsage: number;
     currentMemoryUsage: number;
     messageQueueSize: number;
-    circuitBreakers?: object[];
+    circuitBreakers?: CircuitBreakerSnapshot[]; // Open and half-open breakers only
   };
 }
 
@@ -28,6 +30,9 @@ export interface BridgeHealth {
   uptime?: number;
   configuration: {
     port: number;
+    transport: BridgeTransport;
+    socketPath?: string; // Set when the ipc transport is configured
+    tls: boolean;
     safetyPhase: number;
     requireApproval: boolean;
   };
@@ -84,7 +89,7 @@ export class BridgeServer {
       this.updateStatusBar();
 
       this.safetyGuard.logOperation('bridge_server_start', {
-        port: this.configManager.getConfiguration().bridgePort,
+        ...this.bridge.getEndpoint(),
         safetyPhase: this.configManager.getConfiguration().safetyPhase,
         success: true
       });
@@ -164,6 +169,12 @@ export class BridgeServer {
       status = 'unhealthy';
     }
 
+    const trippedBreakers = this.bridge.getCircuitBreakers();
+    if (trippedBreakers.length > 0) {
+      issues.push(`Circuit breakers open: ${trippedBreakers.map(breaker => breaker.key).join(', ')}`);
+      status = status === 'healthy' ? 'degraded' : status;
+    }
+
     const timeSinceActivity = Date.now() - this.metrics.lastActivity;
     if (this.isRunning && this.metrics.connectionsActive === 0 && timeSinceActivity > 300000) { // 5 minutes
       issues.push('No activity for extended period');
@@ -173,10 +184,16 @@ export class BridgeServer {
     return {
       status,
       issues,
-      metrics: { ...this.metrics },
+      metrics: {
+        ...this.metrics,
+        performance: this.getPerformanceSnapshot()
+      },
       uptime: this.metrics.uptime,
       configuration: {
         port: config.bridgePort || 19888,
+        transport: config.bridgeTransport || 'websocket',
+        socketPath: config.bridgeTransport === 'ipc' ? this.configManager.getBridgeSocketPath() : undefined,
+        tls: config.bridgeTransport !== 'ipc' && config.bridgeTls === true,
         safetyPhase: config.safetyPhase,
         requireApproval: config.requireApproval
       }
@@ -187,12 +204,16 @@ export class BridgeServer {
     this.updateMetrics();
     return {
       ...this.metrics,
-      performance: {
-        peakMemoryUsage: process.memoryUsage().heapUsed,
-        currentMemoryUsage: process.memoryUsage().heapUsed,
-        messageQueueSize: 0,
-        circuitBreakers: []
-      }
+      performance: this.getPerformanceSnapshot()
+    };
+  }
+
+  private getPerformanceSnapshot(): NonNullable<BridgeMetrics['performance']> {
+    return {
+      peakMemoryUsage: process.memoryUsage().heapUsed,
+      currentMemoryUsage: process.memoryUsage().heapUsed,
+      messageQueueSize: 0,
+      circuitBreakers: this.bridge.getCircuitBreakers()
     };
   }
 
@@ -303,9 +324,10 @@ export class BridgeServer {
 
     if (this.isRunning) {
       const connections = this.bridge.getConnectionCount();
+      const endpoint = this.bridge.getEndpoint();
       this.statusBarItem.text = `$(radio-tower) TUI Bridge: ${connections} conn`;
       this.statusBarItem.tooltip = `Automatus TUI Bridge
-Running on port: ${config.bridgePort || 19888}
+Running on ${endpoint ? describeBridgeEndpoint(endpoint) : `port ${config.bridgePort || 19888}`}
 Active connections: ${connections}
 Safety Phase: ${config.safetyPhase}
 Commands executed: ${this.metrics.commandsExecuted}`;
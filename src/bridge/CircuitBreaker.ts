@@ -0,0 +1,223 @@
+/**
+ * Circuit breakers for bridge command handlers
+ * A breaker opens after a run of consecutive failures, rejects calls while open, and
+ * lets a single trial call through (half-open) once its cooldown has elapsed.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type CircuitScope = 'command' | 'connection';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before the breaker opens
+  cooldownMs: number; // Time spent open before a half-open trial is allowed
+}
+
+export interface CircuitBreakerSnapshot {
+  key: string;
+  scope: CircuitScope;
+  connectionId?: string; // Connection breakers only; command breakers are shared by all connections
+  command?: string;
+  state: CircuitState;
+  failures: number;
+  lastError?: string;
+  openedAt?: number;
+  retryAt?: number;
+}
+
+export type CircuitCheck =
+  | { allowed: true }
+  | { allowed: false; breaker: CircuitBreakerSnapshot };
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private lastError?: string;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(
+    readonly key: string,
+    readonly scope: CircuitScope,
+    readonly connectionId: string | undefined,
+    readonly command: string | undefined,
+    private options: CircuitBreakerOptions,
+    private now: () => number = Date.now
+  ) {}
+
+  canExecute(): boolean {
+    if (this.state === 'open' && this.now() - (this.openedAt ?? 0) >= this.options.cooldownMs) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half_open':
+        if (this.trialInFlight) {
+          return false;
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  // Releases a half-open trial slot claimed by canExecute() when the call never ran
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.lastError = undefined;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: string): void {
+    this.failures++;
+    this.lastError = error;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      key: this.key,
+      scope: this.scope,
+      connectionId: this.connectionId,
+      command: this.command,
+      state: this.state,
+      failures: this.failures,
+      lastError: this.lastError,
+      openedAt: this.openedAt,
+      retryAt: this.openedAt !== undefined ? this.openedAt + this.options.cooldownMs : undefined
+    };
+  }
+}
+
+// Command names come from clients, so only this many breakers with failures are remembered
+const MAX_COMMAND_BREAKERS = 500;
+
+/**
+ * Tracks one breaker per command, shared by every connection so that reconnecting or sending
+ * one-shot HTTP requests does not reset it, and one breaker per connection.
+ * A call is only allowed when both of its breakers allow it.
+ */
+export class CircuitBreakerRegistry {
+  // Only commands that have failed since their last success have a breaker
+  private commandBreakers = new Map<string, CircuitBreaker>();
+  private connectionBreakers = new Map<string, CircuitBreaker>();
+
+  constructor(
+    private commandOptions: CircuitBreakerOptions,
+    private connectionOptions: CircuitBreakerOptions,
+    private now: () => number = Date.now
+  ) {}
+
+  check(connectionId: string, command: string): CircuitCheck {
+    const connectionBreaker = this.getConnectionBreaker(connectionId);
+    if (!connectionBreaker.canExecute()) {
+      return { allowed: false, breaker: connectionBreaker.snapshot() };
+    }
+
+    const commandBreaker = this.commandBreakers.get(command);
+    if (commandBreaker && !commandBreaker.canExecute()) {
+      connectionBreaker.release();
+      return { allowed: false, breaker: commandBreaker.snapshot() };
+    }
+
+    return { allowed: true };
+  }
+
+  recordSuccess(connectionId: string, command: string): void {
+    this.getConnectionBreaker(connectionId).recordSuccess();
+    // A closed breaker without failures is the same as none
+    this.commandBreakers.delete(command);
+  }
+
+  // Frees half-open trial slots for a call whose outcome says nothing about the command's health
+  release(connectionId: string, command: string): void {
+    this.getConnectionBreaker(connectionId).release();
+    this.commandBreakers.get(command)?.release();
+  }
+
+  /**
+   * Records a failed call. Returns the breakers that opened because of it.
+   */
+  recordFailure(connectionId: string, command: string, error: string): CircuitBreakerSnapshot[] {
+    const opened: CircuitBreakerSnapshot[] = [];
+
+    for (const breaker of [this.getConnectionBreaker(connectionId), this.getCommandBreaker(command)]) {
+      const wasOpen = breaker.getState() === 'open';
+      breaker.recordFailure(error);
+      if (!wasOpen && breaker.getState() === 'open') {
+        opened.push(breaker.snapshot());
+      }
+    }
+
+    return opened;
+  }
+
+  // Command breakers outlive the connection; they describe the command, not the client
+  removeConnection(connectionId: string): void {
+    this.connectionBreakers.delete(connectionId);
+  }
+
+  clear(): void {
+    this.commandBreakers.clear();
+    this.connectionBreakers.clear();
+  }
+
+  // Breakers that are currently open or half-open
+  getTrippedBreakers(): CircuitBreakerSnapshot[] {
+    return this.getSnapshots().filter(breaker => breaker.state !== 'closed');
+  }
+
+  getSnapshots(): CircuitBreakerSnapshot[] {
+    return [...this.connectionBreakers.values(), ...this.commandBreakers.values()].map(breaker => breaker.snapshot());
+  }
+
+  private getConnectionBreaker(connectionId: string): CircuitBreaker {
+    let breaker = this.connectionBreakers.get(connectionId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(`connection:${connectionId}`, 'connection', connectionId, undefined, this.connectionOptions, this.now);
+      this.connectionBreakers.set(connectionId, breaker);
+    }
+    return breaker;
+  }
+
+  private getCommandBreaker(command: string): CircuitBreaker {
+    let breaker = this.commandBreakers.get(command);
+    if (!breaker) {
+      this.pruneCommandBreakers();
+      breaker = new CircuitBreaker(`command:${command}`, 'command', undefined, command, this.commandOptions, this.now);
+      this.commandBreakers.set(command, breaker);
+    }
+    return breaker;
+  }
+
+  // Forgets the oldest closed breakers once the limit is reached; open ones are kept
+  private pruneCommandBreakers(): void {
+    for (const [command, breaker] of this.commandBreakers) {
+      if (this.commandBreakers.size < MAX_COMMAND_BREAKERS) {
+        return;
+      }
+      if (breaker.getState() === 'closed') {
+        this.commandBreakers.delete(command);
+      }
+    }
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Chunked file transfers for the bridge
+ * File contents larger than a single message are moved as numbered base64 chunks with
+ * byte offsets and SHA-256 checksums. Transfers belong to the token's session rather than
+ * the socket, so a client that reconnects with the same token can resume where it stopped.
+ */
+
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+export const DEFAULT_CHUNK_SIZE = 256 * 1024;
+export const MAX_CHUNK_SIZE = 512 * 1024; // Base64 keeps a chunk message under the 1 MiB message limit
+
+export type FileTransferPayload =
+  | { action: 'start_read'; path: string; chunkSize?: number }
+  | { action: 'start_write'; path: string; operation: 'create' | 'modify'; totalBytes: number; checksum: string; chunkSize?: number }
+  | { action: 'read_chunk'; transferId: string; index: number }
+  | { action: 'write_chunk'; transferId: string; index: number; offset: number; data: string; checksum: string }
+  | { action: 'status'; transferId: string }
+  | { action: 'commit'; transferId: string }
+  | { action: 'abort'; transferId: string };
+
+export interface FileTransferInfo {
+  transferId: string;
+  direction: 'read' | 'write';
+  path: string;
+  operation?: 'create' | 'modify'; // Writes only
+  totalBytes: number;
+  chunkSize: number;
+  totalChunks: number;
+  checksum: string; // SHA-256 hex of the whole content
+  receivedChunks: number; // Writes: chunks received so far; reads: always totalChunks
+  missingChunks?: number[]; // Writes only, for resuming
+  expiresAt: number;
+}
+
+export interface FileChunk {
+  transferId: string;
+  index: number;
+  offset: number;
+  data: string; // base64
+  checksum: string; // SHA-256 hex of the decoded bytes
+}
+
+export interface FileTransferOptions {
+  ttlMs: number; // Idle time before an unfinished transfer is dropped
+  maxTransferSize: number;
+  maxTotalBytes: number; // Content held by all transfers together
+}
+
+interface FileTransfer {
+  id: string;
+  owner: string;
+  direction: 'read' | 'write';
+  path: string;
+  operation?: 'create' | 'modify';
+  content: Buffer;
+  chunkSize: number;
+  totalChunks: number;
+  checksum: string;
+  received: boolean[];
+  lastActivity: number;
+}
+
+const DEFAULT_OPTIONS: FileTransferOptions = {
+  ttlMs: 10 * 60 * 1000,
+  maxTransferSize: 100 * 1024 * 1024,
+  maxTotalBytes: 256 * 1024 * 1024
+};
+
+export function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+export function getChunkCount(totalBytes: number, chunkSize: number): number {
+  return Math.ceil(totalBytes / chunkSize);
+}
+
+// Builds chunk `index` of content split into chunkSize-byte pieces
+export function createChunk(transferId: string, content: Buffer, index: number, chunkSize: number): FileChunk {
+  const offset = index * chunkSize;
+  const bytes = content.subarray(offset, offset + chunkSize);
+  return {
+    transferId,
+    index,
+    offset,
+    data: bytes.toString('base64'),
+    checksum: sha256(bytes)
+  };
+}
+
+// Decodes a chunk, throwing when it does not sit where expected or fails its checksum
+export function decodeChunk(chunk: Pick<FileChunk, 'index' | 'offset' | 'data' | 'checksum'>, chunkSize: number, totalBytes: number): Buffer {
+  const expectedOffset = chunk.index * chunkSize;
+  if (chunk.offset !== expectedOffset) {
+    throw new Error(`Chunk ${chunk.index} must start at offset ${expectedOffset}, not ${chunk.offset}`);
+  }
+  if (typeof chunk.data !== 'string' || typeof chunk.checksum !== 'string') {
+    throw new Error('Chunk data and checksum must be strings');
+  }
+
+  const bytes = Buffer.from(chunk.data, 'base64');
+  const expectedLength = Math.min(chunkSize, totalBytes - expectedOffset);
+  if (bytes.length !== expectedLength) {
+    throw new Error(`Chunk ${chunk.index} must be ${expectedLength} bytes, got ${bytes.length}`);
+  }
+  if (sha256(bytes) !== chunk.checksum.toLowerCase()) {
+    throw new Error(`Checksum mismatch for chunk ${chunk.index}`);
+  }
+  return bytes;
+}
+
+export class FileTransferRegistry {
+  private transfers = new Map<string, FileTransfer>();
+  private options: FileTransferOptions;
+
+  constructor(options: Partial<FileTransferOptions> = {}, private now: () => number = Date.now) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Snapshots content for a chunked read; the client pulls chunks by index
+  startRead(owner: string, path: string, content: Buffer, chunkSize?: number): FileTransferInfo {
+    const transfer = this.create(owner, 'read', path, content.length, this.resolveChunkSize(chunkSize));
+    transfer.content = content;
+    transfer.checksum = sha256(content);
+    transfer.received.fill(true);
+    return this.describe(transfer);
+  }
+
+  startWrite(
+    owner: string,
+    path: string,
+    operation: 'create' | 'modify',
+    totalBytes: number,
+    checksum: string,
+    chunkSize?: number
+  ): FileTransferInfo {
+    if (operation !== 'create' && operation !== 'modify') {
+      throw new Error(`Chunked writes support 'create' and 'modify', not '${operation}'`);
+    }
+    if (!Number.isSafeInteger(totalBytes) || totalBytes < 0) {
+      throw new Error('totalBytes must be a non-negative integer');
+    }
+    if (typeof checksum !== 'string' || !/^[0-9a-f]{64}$/i.test(checksum)) {
+      throw new Error('checksum must be a SHA-256 hex digest');
+    }
+
+    const transfer = this.create(owner, 'write', path, totalBytes, this.resolveChunkSize(chunkSize));
+    transfer.operation = operation;
+    transfer.content = Buffer.alloc(totalBytes);
+    transfer.checksum = checksum.toLowerCase();
+    return this.describe(transfer);
+  }
+
+  readChunk(owner: string, transferId: string, index: number): FileChunk {
+    const transfer = this.get(owner, transferId, 'read');
+    this.checkIndex(transfer, index);
+    return createChunk(transfer.id, transfer.content, index, transfer.chunkSize);
+  }
+
+  // Stores a chunk; resending one that already arrived is harmless
+  writeChunk(owner: string, chunk: FileChunk): FileTransferInfo {
+    const transfer = this.get(owner, chunk.transferId, 'write');
+    this.checkIndex(transfer, chunk.index);
+
+    const bytes = decodeChunk(chunk, transfer.chunkSize, transfer.content.length);
+    bytes.copy(transfer.content, chunk.offset);
+    transfer.received[chunk.index] = true;
+    return this.describe(transfer, false);
+  }
+
+  status(owner: string, transferId: string): FileTransferInfo {
+    return this.describe(this.get(owner, transferId));
+  }
+
+  // Reassembles a finished write; the transfer stays until removed so a failed commit can be retried
+  assemble(owner: string, transferId: string): { path: string; operation: 'create' | 'modify'; content: Buffer } {
+    const transfer = this.get(owner, transferId, 'write');
+    const missing = this.getMissingChunks(transfer);
+    if (missing.length > 0) {
+      throw new Error(`Transfer incomplete: ${missing.length} of ${transfer.totalChunks} chunks missing`);
+    }
+    if (sha256(transfer.content) !== transfer.checksum) {
+      throw new Error('Checksum mismatch for the reassembled content');
+    }
+    return { path: transfer.path, operation: transfer.operation!, content: transfer.content };
+  }
+
+  remove(owner: string, transferId: string): boolean {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer || transfer.owner !== owner) {
+      return false;
+    }
+    return this.transfers.delete(transferId);
+  }
+
+  clear(): void {
+    this.transfers.clear();
+  }
+
+  private create(owner: string, direction: 'read' | 'write', path: string, totalBytes: number, chunkSize: number): FileTransfer {
+    if (typeof path !== 'string' || path.length === 0) {
+      throw new Error('path is required');
+    }
+    if (totalBytes > this.options.maxTransferSize) {
+      throw new Error(`File of ${totalBytes} bytes exceeds the transfer limit of ${this.options.maxTransferSize} bytes`);
+    }
+
+    this.prune();
+    const heldBytes = Array.from(this.transfers.values()).reduce((sum, transfer) => sum + transfer.content.length, 0);
+    if (heldBytes + totalBytes > this.options.maxTotalBytes) {
+      throw new Error('Too much data in unfinished transfers; finish or abort some first');
+    }
+
+    const totalChunks = getChunkCount(totalBytes, chunkSize);
+    const transfer: FileTransfer = {
+      id: uuidv4(),
+      owner,
+      direction,
+      path,
+      content: Buffer.alloc(0),
+      chunkSize,
+      totalChunks,
+      checksum: '',
+      received: new Array<boolean>(totalChunks).fill(false),
+      lastActivity: this.now()
+    };
+    this.transfers.set(transfer.id, transfer);
+    return transfer;
+  }
+
+  private get(owner: string, transferId: string, direction?: 'read' | 'write'): FileTransfer {
+    this.prune();
+    const transfer = this.transfers.get(transferId);
+    // Other sessions' transfers are reported as unknown rather than forbidden
+    if (!transfer || transfer.owner !== owner) {
+      throw new Error(`Unknown or expired transfer: ${transferId}`);
+    }
+    if (direction && transfer.direction !== direction) {
+      throw new Error(`Transfer ${transferId} is a ${transfer.direction} transfer`);
+    }
+    transfer.lastActivity = this.now();
+    return transfer;
+  }
+
+  private checkIndex(transfer: FileTransfer, index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= transfer.totalChunks) {
+      throw new Error(`Chunk index must be between 0 and ${transfer.totalChunks - 1}`);
+    }
+  }
+
+  private resolveChunkSize(chunkSize: number | undefined): number {
+    if (chunkSize === undefined) {
+      return DEFAULT_CHUNK_SIZE;
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+      throw new Error(`chunkSize must be between 1 and ${MAX_CHUNK_SIZE} bytes`);
+    }
+    return chunkSize;
+  }
+
+  private getMissingChunks(transfer: FileTransfer): number[] {
+    const missing: number[] = [];
+    transfer.received.forEach((received, index) => {
+      if (!received) {
+        missing.push(index);
+      }
+    });
+    return missing;
+  }
+
+  private describe(transfer: FileTransfer, includeMissing = true): FileTransferInfo {
+    const missing = this.getMissingChunks(transfer);
+    return {
+      transferId: transfer.id,
+      direction: transfer.direction,
+      path: transfer.path,
+      operation: transfer.operation,
+      totalBytes: transfer.content.length,
+      chunkSize: transfer.chunkSize,
+      totalChunks: transfer.totalChunks,
+      checksum: transfer.checksum,
+      receivedChunks: transfer.totalChunks - missing.length,
+      missingChunks: transfer.direction === 'write' && includeMissing ? missing : undefined,
+      expiresAt: transfer.lastActivity + this.options.ttlMs
+    };
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [id, transfer] of this.transfers) {
+      if (now - transfer.lastActivity > this.options.ttlMs) {
+        this.transfers.delete(id);
+      }
+    }
+  }
+}
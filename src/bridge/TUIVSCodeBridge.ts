@@ -1,11 +1,111 @@
 import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import { isAbsolute as isAbsolutePath, normalize as normalizePath } from 'path';
 import WebSocket from 'ws';
 import { v4 as uuidv4 } from 'uuid';
 import { ConfigurationManager } from '../config/ConfigurationManager';
 import { SafetyGuard } from '../safety/SafetyGuard';
 import { AuthenticationManager, TokenPayload } from './AuthenticationManager';
-import { TUICommand, VSCodeResponse } from './types';
+import {
+  BridgeMessage,
+  BridgeErrorCode,
+  BridgeFeature,
+  CommandProgressMessage,
+  DiagnosticInfo,
+  FileInfo,
+  FileOperation,
+  HandshakeMessage,
+  ProjectNode,
+  UIEventMessage,
+  WorkspaceRequest,
+  WorkspaceResponse,
+  WorkspaceEventMessage,
+  WorkspaceState
+} from './types';
+import {
+  ProtocolFormat,
+  InboundMessage,
+  NegotiatedProtocol,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  INBOUND_MESSAGE_TYPES,
+  normalizeInboundMessage,
+  negotiateProtocolVersion,
+  negotiateFeatures,
+  getRequiredFeature,
+  getInboundMessageId,
+  createEnvelope,
+  toCommandResponse,
+  createBridgeError
+} from './protocolAdapter';
+import {
+  WorkspaceSubscriptionRegistry,
+  WorkspaceEventTarget,
+  SubscribePayload,
+  UnsubscribePayload
+} from './WorkspaceSubscriptionRegistry';
+import { CircuitBreakerRegistry, CircuitBreakerSnapshot } from './CircuitBreaker';
+import { FileChunk, FileTransferInfo, FileTransferPayload, FileTransferRegistry } from './FileTransferRegistry';
+import { FileTransactionPayload, describeFileTransaction, validateFileTransaction } from './fileTransaction';
+import { PatchRequest, PatchResult, RangeEdit, applyReplacements, planPatch } from './textPatch';
+import { DiagnosticsQueryResult, queryDiagnostics, toDiagnosticInfo } from './diagnostics';
+import {
+  CodeQueryPayload,
+  CodeQueryResult,
+  DEFAULT_CODE_QUERY_LIMIT,
+  toCodeHover,
+  toCodeLocation,
+  toCodeSymbolMatch,
+  toCodeSymbols,
+  toCallHierarchyNode,
+  toIncomingCalls,
+  toOutgoingCalls,
+  toRange,
+  uniqueLocations,
+  validateCodeQuery
+} from './codeIntelligence';
+import {
+  DEFAULT_HIGHLIGHT_DURATION_MS,
+  EditorControlPayload,
+  EditorControlResult,
+  getEditorControlRanges,
+  validateEditorControl
+} from './editorControl';
+import {
+  DEFAULT_TASK_TIMEOUT_MS,
+  RunTaskPayload,
+  TaskOutputStream,
+  TaskProcessSpec,
+  TaskRunResult,
+  resolveTaskVariables,
+  runTaskProcess,
+  validateRunTask
+} from './taskRunner';
+import { BackupManager } from '../utils/backupManager';
+import { FileApprovalDiff, FileApprovalResult } from '../ui/FileApprovalDiff';
+import { BridgePanelEvent, BridgePanelManager, UISpawnPayload } from '../ui/BridgePanelManager';
+import { EditorHighlighter } from '../ui/EditorHighlighter';
+import { TestRunReport, TestRunService } from '../workspace/TestRunService';
+import { TestRunRequest, validateTestRunRequest } from './testRunners';
+import { SafeAutomatusClient } from '../automatus-client/SafeAutomatusClient';
+import {
+  AnalysisResult,
+  AutomatusRequestOptions,
+  CodeContext as AutomatusCodeContext,
+  CodePreview,
+  Explanation
+} from '../types';
 import { safeRegisterDisposable } from '../utils/ExtensionLifecycle';
+import { BridgeEndpoint, BridgeTransport, describeBridgeEndpoint, listenOnIpcPath } from './ipcTransport';
+import {
+  HTTP_COMMANDS_PATH,
+  HTTP_UNSUPPORTED_COMMANDS,
+  HttpRequestError,
+  getHttpStatus,
+  parseBearerToken,
+  readJsonBody,
+  toInboundHttpMessage
+} from './httpTransport';
 
 // Interface for WorkspaceContextManager to ensure type safety
 export interface IWorkspaceContextManager {
@@ -68,24 +168,84 @@ export interface DependencyInfo {
   source: string; // package.json, requirements.txt, etc.
 }
 
-// Bridge-specific command interfaces (different from formal protocol in types.ts)
-// Note: These are legacy interfaces that should eventually be migrated to the formal protocol
+// Workspace change events pushed to subscribed TUI connections
+export type WorkspaceUpdateType = 'file_change' | 'active_editor_change' | 'workspace_change' | 'git_change' | 'diagnostics_change';
+
+export type WorkspaceUpdate =
+  | { type: 'file_change'; timestamp: number; data: FileChangeData }
+  | { type: 'active_editor_change'; timestamp: number; data: EditorChangeData }
+  | { type: 'workspace_change'; timestamp: number; data: WorkspaceChangeData }
+  | { type: 'git_change'; timestamp: number; data: GitChangeData }
+  | { type: 'diagnostics_change'; timestamp: number; data: DiagnosticsChangeData };
+
+export interface FileChangeData {
+  action: 'create' | 'modify' | 'delete' | 'edit';
+  path: string;
+  fileName: string;
+  languageId?: string;
+  changes?: number;
+  isDirty?: boolean;
+}
+
+export interface EditorChangeData {
+  fileName: string | null;
+  languageId: string | null;
+  selection: {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+  } | null;
+}
+
+export interface WorkspaceChangeData {
+  added: string[];
+  removed: string[];
+}
+
+export interface GitChangeData extends GitStatus {
+  // Git-specific change data
+}
+
+// Diagnostics of one file that appeared or went away since its previous update
+export interface DiagnosticsChangeData {
+  path: string;
+  fileName: string;
+  languageId?: string;
+  added: DiagnosticInfo[];
+  removed: DiagnosticInfo[];
+  total: number; // Diagnostics the file has after the change
+}
+
+// Bridge-internal command interfaces. The formal protocol in types.ts is translated
+// into these shapes by protocolAdapter; legacy clients may still send them directly.
 
 // Specific payload types for each command
 export interface WorkspaceQueryPayload {
-  queryType?: 'basic' | 'context' | 'files' | 'project';
+  queryType?: 'basic' | 'context' | 'files' | 'project' | 'diagnostics';
   path?: string;
   pattern?: string;
   limit?: number;
   includeConfigDetails?: boolean;
   includeBuildCommands?: boolean;
+  paths?: string[]; // diagnostics: glob patterns for the files to include
+  severities?: DiagnosticInfo['severity'][]; // diagnostics
+  sources?: string[]; // diagnostics: e.g. 'ts', 'eslint'
 }
 
 export interface FileOperationPayload {
-  operation: 'read' | 'create' | 'modify' | 'delete';
+  operation: 'read' | 'create' | 'modify' | 'delete' | 'patch' | 'rename';
   path: string;
   content?: string;
   encoding?: string;
+  newPath?: string; // rename: destination, which may be in another directory
+  diff?: string; // patch: unified diff against the current document
+  edits?: RangeEdit[]; // patch: range edits, as an alternative to diff
+}
+
+export interface FilePatchResponseData {
+  success: boolean;
+  path: string;
+  operation: 'patch';
+  results: PatchResult[];
 }
 
 interface CodeContext {
@@ -115,24 +275,17 @@ export interface AuthRequestPayload {
 }
 
 // Return type interfaces for helper methods
-interface CodePreviewResult {
-  preview: string;
-  language: string;
+interface CodePreviewResult extends CodePreview {
   context: CodeContext;
 }
 
-interface CodeAnalysisResult {
-  analysis: string;
+interface CodeAnalysisResult extends AnalysisResult {
   language: string;
-  complexity: number;
-  issues: string[];
   context: CodeContext;
 }
 
-interface CodeExplanationResult {
-  explanation: string;
+interface CodeExplanationResult extends Explanation {
   language: string;
-  concepts: string[];
   context: CodeContext;
 }
 
@@ -172,8 +325,82 @@ export type BridgeInternalCommand =
       payload: AuthRequestPayload;
       timestamp: number;
       requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'subscribe';
+      payload: SubscribePayload;
+      timestamp: number;
+      requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'unsubscribe';
+      payload: UnsubscribePayload;
+      timestamp: number;
+      requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'cancel';
+      payload: CancelPayload;
+      timestamp: number;
+      requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'file_transfer';
+      payload: FileTransferPayload;
+      timestamp: number;
+      requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'file_transaction';
+      payload: FileTransactionPayload;
+      timestamp: number;
+      requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'ui_spawn';
+      payload: UISpawnPayload;
+      timestamp: number;
+      requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'code_query';
+      payload: CodeQueryPayload;
+      timestamp: number;
+      requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'editor_control';
+      payload: EditorControlPayload;
+      timestamp: number;
+      requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'run_task';
+      payload: RunTaskPayload;
+      timestamp: number;
+      requiresApproval?: boolean;
+    }
+  | {
+      id: string;
+      type: 'run_tests';
+      payload: TestRunRequest;
+      timestamp: number;
+      requiresApproval?: boolean;
     };
 
+interface CancelPayload {
+  commandId: string; // id of the in-flight command to cancel
+}
+
 // Specific response data types
 interface WorkspaceResponseData extends WorkspaceContext {}
 
@@ -186,6 +413,33 @@ interface FileOperationResponseData {
   lineCount?: number;
 }
 
+interface FileTransactionResponseData {
+  transactionId: string;
+  backupId: string;
+  operations: Array<{ type: FileOperation['type']; path: string; newPath?: string }>;
+}
+
+interface RunTaskResponseData extends TaskRunResult {
+  source: RunTaskPayload['source'];
+  name: string; // The build command or task label that was run
+  commandLine: string;
+  cwd: string;
+}
+
+interface UISpawnResponseData {
+  panelId: string;
+  panelType: UISpawnPayload['panelType'];
+  reused: boolean;
+}
+
+// State of a file before a transaction touched it, used to undo the transaction
+interface TransactionSnapshot {
+  operation: FileOperation;
+  uri: vscode.Uri;
+  originalText?: string; // modify
+  originalBytes?: Uint8Array; // delete
+}
+
 interface CommandExecutionResponseData {
   result: string | number | boolean | object | null;
   metadata: {
@@ -204,33 +458,86 @@ interface AuthResponseData {
   capabilities: string[];
   serverInfo: {
     version: string;
+    protocolVersions: string[];
     supportedProtocols: string[];
     maxMessageSize: number;
     securityFeatures: string[];
   };
 }
 
+interface SubscriptionResponseData {
+  subscriptionId: string;
+  eventTypes: WorkspaceUpdateType[];
+  paths: string[];
+  languages: string[];
+}
+
+interface UnsubscribeResponseData {
+  removed: string[];
+}
+
+interface CancelResponseData {
+  commandId: string;
+  cancelled: boolean;
+}
+
 // Union type for all possible response data
 type BridgeResponseData =
   | WorkspaceResponseData
   | FileOperationResponseData
   | CommandExecutionResponseData
   | AuthResponseData
+  | SubscriptionResponseData
+  | UnsubscribeResponseData
+  | CancelResponseData
+  | FileTransferInfo
+  | FileChunk
+  | FileTransactionResponseData
+  | UISpawnResponseData
+  | DiagnosticsQueryResult
+  | CodeQueryResult
+  | EditorControlResult
+  | RunTaskResponseData
+  | TestRunReport
   | RecentFile[]
   | ProjectInfo
   | WorkspaceInfo
   | { error: string; details?: string };
 
-interface BridgeInternalResponse {
+export interface BridgeInternalResponse {
   id: string;
   success: boolean;
   data?: BridgeResponseData;
   error?: string;
+  errorCode?: BridgeErrorCode; // Set when the bridge refused the command rather than failed to run it
   timestamp: number;
 }
 
 // Union type for all possible WebSocket messages
-type BridgeMessage = BridgeInternalResponse | {
+type OutboundMessage = BridgeMessage | BridgeInternalResponse | {
+  type: 'workspace_update';
+  data: {
+    updateType: WorkspaceUpdateType;
+    updates: WorkspaceUpdate[];
+    timestamp: number;
+  };
+} | {
+  type: 'command_progress';
+  data: {
+    commandId: string;
+    sequence: number;
+    chunk: string;
+    stream?: TaskOutputStream;
+    timestamp: number;
+  };
+} | {
+  type: 'ui_event';
+  data: UIEventMessage['payload'] & { timestamp: number };
+} | {
+  type: 'initial_workspace_context';
+  data: WorkspaceContext;
+  timestamp: number;
+} | {
   type: 'auth_challenge';
   data: {
     connectionId: string;
@@ -287,37 +594,145 @@ export interface VSCodeOperation {
 
 export interface BridgeConnection {
   id: string;
-  socket: WebSocket;
+  socket: WebSocket | null; // null for one-shot HTTP requests
+  deliver?: (message: OutboundMessage) => void; // Collects the replies of an HTTP request
   lastHeartbeat: number;
   authenticated: boolean;
   tokenPayload?: TokenPayload;
+  token?: string; // Kept so the session's token can be revoked from the sessions view
+  clientIP: string;
+  connectedAt: number;
+  protocol: ProtocolFormat;
+  clientInfo?: HandshakeMessage['payload']['clientInfo'];
+  negotiated?: NegotiatedProtocol;
+  messagesReceived: number;
+  messagesSent: number;
+}
+
+// Snapshot of a connected TUI session, as shown in the Automatus Bridge Sessions view
+export interface BridgeSessionInfo {
+  connectionId: string;
+  sessionId?: string;
+  authenticated: boolean;
+  clientName?: string;
+  clientVersion?: string;
+  platform?: string;
   clientIP: string;
+  transport: BridgeTransport;
   connectedAt: number;
+  lastHeartbeat: number;
+  messagesReceived: number;
+  messagesSent: number;
+  protocolVersion?: string;
+  safetyPhase?: number;
+}
+
+const BRIDGE_SERVER_VERSION = '0.1.0';
+
+// Client address recorded for ipc connections, which have no IP of their own
+const IPC_CLIENT_ADDRESS = 'local-ipc';
+
+// SafetyGuard permission every file of a transaction is checked against
+const TRANSACTION_PERMISSION = 'write_approved';
+
+// SafetyGuard permission both ends of a rename are checked against, so neither may be restricted or outside allowed directories
+const RENAME_PERMISSION = 'write_safe';
+
+// File operations that write content, and the SafetyGuard permission they are checked against
+const CONTENT_WRITE_OPERATIONS = ['create', 'modify', 'patch'];
+const CONTENT_WRITE_PERMISSION = 'write_safe';
+
+// Features available to one-shot HTTP commands; streaming and session state need a socket
+const HTTP_FEATURES: BridgeFeature[] = ['workspace_request', 'file_change', 'chunked_transfer'];
+const MAX_MESSAGE_SIZE = 1024 * 1024;
+// The TCP transports only accept connections from this machine
+const LOOPBACK_HOST = '127.0.0.1';
+
+// Refusals are the client's or the user's doing; they neither open nor close circuit breakers
+const CIRCUIT_NEUTRAL_ERRORS: BridgeErrorCode[] = ['PERMISSION_DENIED', 'VALIDATION_ERROR', 'APPROVAL_DENIED'];
+
+// Thrown inside command handlers when the command is refused rather than failed
+class CommandRefusedError extends Error {
+  constructor(
+    public readonly code: 'PERMISSION_DENIED' | 'VALIDATION_ERROR' | 'APPROVAL_DENIED',
+    message: string
+  ) {
+    super(message);
+    this.name = 'CommandRefusedError';
+  }
+}
+
+// Chunks are bounded by the transfer registry; counting them as messages would cap transfers at the rate limit
+function isTransferChunk(inbound: InboundMessage): boolean {
+  return inbound.kind === 'command'
+    && inbound.command.type === 'file_transfer'
+    && (inbound.command.payload?.action === 'read_chunk' || inbound.command.payload?.action === 'write_chunk');
+}
+
+function getRefusalCode(error: unknown): BridgeErrorCode | undefined {
+  return error instanceof CommandRefusedError ? error.code : undefined;
+}
+
+// Reports what a payload validator or the transfer registry throws as the client's error
+function asValidationError<T>(run: () => T): T {
+  try {
+    return run();
+  } catch (error) {
+    throw new CommandRefusedError('VALIDATION_ERROR', error instanceof Error ? error.message : String(error));
+  }
 }
 
 export class TUIVSCodeBridge {
   private server: WebSocket.Server | null = null;
+  private httpServer: http.Server | https.Server | null = null; // Carries the WebSocket server and HTTP commands
+  private httpConnections: Map<string, BridgeConnection> = new Map();
+  private endpoint: BridgeEndpoint | null = null;
   private connections: Map<string, BridgeConnection> = new Map();
   private configManager: ConfigurationManager;
   private safetyGuard: SafetyGuard;
   private authManager: AuthenticationManager;
   private workspaceContextManager: IWorkspaceContextManager | null = null;
+  private automatusClient: SafeAutomatusClient | null = null;
+  private testRunService: TestRunService | null = null;
+  private subscriptions = new WorkspaceSubscriptionRegistry();
+  private circuitBreakers: CircuitBreakerRegistry;
+  // Keyed by session rather than connection so transfers survive a reconnect
+  private fileTransfers = new FileTransferRegistry();
+  private backupManager = BackupManager.getInstance();
+  private approvalDiff?: FileApprovalDiff; // Created on first use so the content provider is only registered when needed
+  private panels?: BridgePanelManager;
+  private highlighter?: EditorHighlighter;
+  // In-flight command executions per connection, keyed by command id, for `cancel`
+  private inFlightCommands: Map<string, Map<string, AbortController>> = new Map();
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private isActive = false;
   private messageRateLimiter = new Map<string, { count: number; resetTime: number }>();
+  private sessionsChangeEmitter = new vscode.EventEmitter<void>();
   private rateLimitWindow = 60000; // 1 minute window
   private maxMessagesPerWindow = 100; // Max 100 messages per minute per connection
 
+  // Fires when TUI sessions connect, authenticate or disconnect
+  public readonly onDidChangeSessions = this.sessionsChangeEmitter.event;
+
   constructor(configManager: ConfigurationManager, safetyGuard: SafetyGuard, authManager: AuthenticationManager) {
     this.configManager = configManager;
     this.safetyGuard = safetyGuard;
     this.authManager = authManager;
+    this.circuitBreakers = this.createCircuitBreakers();
   }
 
   setWorkspaceContextManager(manager: IWorkspaceContextManager): void {
     this.workspaceContextManager = manager;
   }
 
+  setAutomatusClient(client: SafeAutomatusClient): void {
+    this.automatusClient = client;
+  }
+
+  setTestRunService(service: TestRunService): void {
+    this.testRunService = service;
+  }
+
   async start(): Promise<void> {
     if (this.isActive) {
       throw new Error('Bridge is already active');
@@ -326,13 +741,18 @@ export class TUIVSCodeBridge {
     const config = this.configManager.getConfiguration();
     const port = config.bridgePort || 19888;
     const timeout = config.bridgeTimeout || 30000;
+    const endpoint: BridgeEndpoint = config.bridgeTransport === 'ipc'
+      ? { transport: 'ipc', socketPath: this.configManager.getBridgeSocketPath() }
+      : { transport: 'websocket', port, tls: config.bridgeTls === true };
+
+    // Pick up threshold and cooldown changes made while the bridge was stopped
+    this.circuitBreakers = this.createCircuitBreakers();
 
     try {
-      this.server = new WebSocket.Server({
-        port,
+      const serverOptions: WebSocket.ServerOptions = {
         clientTracking: true,
         perMessageDeflate: false,
-        maxPayload: 1024 * 1024, // 1MB max payload
+        maxPayload: MAX_MESSAGE_SIZE,
         verifyClient: (info: { origin?: string; req: any }) => {
           // Validate origin for security
           const origin = info.origin || info.req.headers.origin;
@@ -345,29 +765,67 @@ export class TUIVSCodeBridge {
           }
           return true;
         }
-      });
+      };
+
+      // Upgrade requests become WebSocket sessions; plain requests are one-shot HTTP commands
+      const onRequest = (request: http.IncomingMessage, response: http.ServerResponse) => {
+        this.handleHttpRequest(request, response).catch(error => {
+          console.error('Error handling HTTP command:', error);
+        });
+      };
+      let tlsFingerprint: string | undefined;
+      let httpServer: http.Server | https.Server;
+      if (endpoint.tls) {
+        const certificate = this.authManager.getTlsCertificate();
+        tlsFingerprint = certificate.fingerprint;
+        httpServer = https.createServer({ cert: certificate.cert, key: certificate.key }, onRequest);
+      } else {
+        httpServer = http.createServer(onRequest);
+      }
+      this.httpServer = httpServer;
+      this.server = new WebSocket.Server({ ...serverOptions, server: httpServer });
 
       this.server.on('connection', this.handleConnection.bind(this));
       this.server.on('error', this.handleServerError.bind(this));
+      this.endpoint = endpoint;
+
+      if (endpoint.transport === 'ipc') {
+        // Same WebSocket framing, carried over a socket only the current user can open
+        await listenOnIpcPath(httpServer, endpoint.socketPath!);
+      } else {
+        await new Promise<void>((resolve, reject) => {
+          httpServer.once('error', reject);
+          httpServer.listen(port, LOOPBACK_HOST, () => {
+            httpServer.off('error', reject);
+            resolve();
+          });
+        });
+      }
 
       this.setupHeartbeat();
       this.registerTUIEndpoint();
       this.isActive = true;
 
       this.safetyGuard.logOperation('bridge_start', {
-        port,
+        ...endpoint,
+        tlsFingerprint,
         timeout,
         success: true
       });
 
       vscode.window.showInformationMessage(
-        `Automatus TUI Bridge started on port ${port}`
+        `Automatus TUI Bridge started on ${describeBridgeEndpoint(endpoint)}`
       );
 
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
+      this.server?.close();
+      this.httpServer?.close();
+      this.server = null;
+      this.httpServer = null;
+      this.endpoint = null;
       this.safetyGuard.logOperation('bridge_start', {
-        port,
+        ...endpoint,
         success: false,
         error: errorMsg
       });
@@ -390,7 +848,7 @@ export class TUIVSCodeBridge {
       // Close all connections gracefully
       const closePromises = Array.from(this.connections.values()).map(conn => {
         return new Promise<void>((resolve) => {
-          if (conn.socket.readyState === WebSocket.OPEN) {
+          if (conn.socket?.readyState === WebSocket.OPEN) {
             conn.socket.close(1000, 'Bridge shutting down');
           }
           resolve();
@@ -399,6 +857,15 @@ export class TUIVSCodeBridge {
 
       await Promise.allSettled(closePromises);
       this.connections.clear();
+      this.sessionsChangeEmitter.fire();
+      this.subscriptions.clear();
+      this.circuitBreakers.clear();
+      this.fileTransfers.clear();
+      this.panels?.dispose();
+      this.highlighter?.clear();
+      for (const connectionId of Array.from(this.inFlightCommands.keys())) {
+        this.abortInFlightCommands(connectionId);
+      }
 
       // Close server
       if (this.server) {
@@ -414,6 +881,16 @@ export class TUIVSCodeBridge {
         this.server = null;
       }
 
+      // Closing the HTTP server also removes the ipc socket file
+      if (this.httpServer) {
+        const httpServer = this.httpServer;
+        httpServer.closeAllConnections();
+        await new Promise<void>(resolve => httpServer.close(() => resolve()));
+        this.httpServer = null;
+      }
+      this.httpConnections.clear();
+
+      this.endpoint = null;
       this.isActive = false;
 
       this.safetyGuard.logOperation('bridge_stop', {
@@ -446,7 +923,7 @@ export class TUIVSCodeBridge {
 
   private handleConnection(socket: WebSocket): void {
     const connectionId = uuidv4();
-    const clientIP = this.getSocketRemoteAddress(socket);
+    const clientIP = this.endpoint?.transport === 'ipc' ? IPC_CLIENT_ADDRESS : this.getSocketRemoteAddress(socket);
 
     const connection: BridgeConnection = {
       id: connectionId,
@@ -454,20 +931,24 @@ export class TUIVSCodeBridge {
       lastHeartbeat: Date.now(),
       authenticated: false,
       clientIP,
-      connectedAt: Date.now()
+      connectedAt: Date.now(),
+      protocol: 'formal',
+      messagesReceived: 0,
+      messagesSent: 0
     };
 
     this.connections.set(connectionId, connection);
+    this.sessionsChangeEmitter.fire();
 
     socket.on('message', (data: WebSocket.Data) => {
       this.handleTUICommand(connectionId, data).catch(error => {
         console.error('Error handling TUI command:', error);
-        this.sendErrorResponse(connectionId, 'unknown', `Command handling failed: ${error}`);
+        this.sendErrorResponse(connectionId, 'unknown', `Command handling failed: ${error}`, 'COMMAND_FAILED');
       });
     });
 
     socket.on('close', (code: number, reason: string) => {
-      this.connections.delete(connectionId);
+      this.removeConnection(connectionId);
       this.safetyGuard.logOperation('bridge_connection_closed', {
         connectionId,
         code,
@@ -477,7 +958,7 @@ export class TUIVSCodeBridge {
 
     socket.on('error', (error: Error) => {
       console.error('WebSocket connection error:', error);
-      this.connections.delete(connectionId);
+      this.removeConnection(connectionId);
       this.safetyGuard.logOperation('bridge_connection_error', {
         connectionId,
         error: error.message
@@ -489,7 +970,7 @@ export class TUIVSCodeBridge {
       type: 'auth_challenge',
       data: {
         connectionId,
-        serverVersion: '0.1.0',
+        serverVersion: BRIDGE_SERVER_VERSION,
         authMethods: ['JWT'],
         message: 'Please provide a valid JWT token to authenticate'
       }
@@ -497,140 +978,600 @@ export class TUIVSCodeBridge {
 
     this.safetyGuard.logOperation('bridge_connection_established', {
       connectionId,
-      remoteAddress: (socket as any)._socket?.remoteAddress || 'unknown'
+      transport: this.endpoint?.transport,
+      remoteAddress: clientIP === IPC_CLIENT_ADDRESS ? clientIP : (socket as any)._socket?.remoteAddress || 'unknown'
     });
   }
 
-  private async handleTUICommand(connectionId: string, data: WebSocket.Data): Promise<void> {
-    const connection = this.connections.get(connectionId);
-    if (!connection) {
-      return;
-    }
-
-    // Check rate limiting first
-    if (!this.checkRateLimit(connectionId)) {
-      this.sendErrorResponse(connectionId, 'unknown', 'Rate limit exceeded. Please slow down.');
-      return;
-    }
+  /**
+   * Serves `POST /v1/commands`: authenticates the bearer token, runs one message through
+   * the same dispatch as WebSocket sessions and answers with the reply that a socket would get.
+   */
+  private async handleHttpRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const requestId = uuidv4();
+    const clientIP = this.endpoint?.transport === 'ipc'
+      ? IPC_CLIENT_ADDRESS
+      : (request.socket.remoteAddress || '127.0.0.1').replace(/^::ffff:/, '');
+    const path = (request.url || '').split('?')[0];
 
     try {
-      // Try to parse as formal TUICommand first, fallback to legacy format
-      let command: BridgeInternalCommand;
-      const rawCommand = JSON.parse(data.toString());
-
-      // Handle formal protocol (from TUIClient)
-      if (rawCommand.type === 'COMMAND_EXECUTE' && rawCommand.payload) {
-        // Convert formal TUICommand to internal format for legacy compatibility
-        command = {
-          id: rawCommand.id,
-          type: rawCommand.payload.command, // Extract command from payload
-          payload: rawCommand.payload.args,
-          timestamp: new Date(rawCommand.timestamp).getTime(),
-          requiresApproval: rawCommand.payload.requireApproval
-        } as BridgeInternalCommand;
-      } else {
-        // Legacy format
-        command = rawCommand as BridgeInternalCommand;
+      if (this.configManager.getConfiguration().bridgeEnableHttp === false) {
+        throw new HttpRequestError(404, 'UNSUPPORTED_MESSAGE_TYPE', 'HTTP commands are disabled (automatus.bridge.enableHttp)');
+      }
+      if (path !== HTTP_COMMANDS_PATH) {
+        throw new HttpRequestError(404, 'UNKNOWN_COMMAND', `Unknown endpoint: ${path}`);
+      }
+      if (request.method !== 'POST') {
+        response.setHeader('Allow', 'POST');
+        throw new HttpRequestError(405, 'INVALID_MESSAGE', `Method ${request.method} not allowed`);
       }
 
-      // Update heartbeat
-      connection.lastHeartbeat = Date.now();
+      // Browsers cannot send JSON cross-origin without a preflight, which is never answered
+      const origin = request.headers.origin;
+      if (origin && !this.isAllowedOrigin(origin)) {
+        this.safetyGuard.logOperation('bridge_connection_rejected', {
+          origin,
+          transport: 'http',
+          reason: 'Invalid origin'
+        });
+        throw new HttpRequestError(403, 'PERMISSION_DENIED', 'Origin not allowed');
+      }
+      if (!/^application\/json\b/i.test(request.headers['content-type'] || '')) {
+        throw new HttpRequestError(415, 'INVALID_MESSAGE', 'Content-Type must be application/json');
+      }
 
-      // Handle authentication first
-      if (!connection.authenticated && command.type !== 'auth_request') {
-        this.sendErrorResponse(connectionId, command.id, 'Authentication required');
-        return;
+      const token = parseBearerToken(request.headers.authorization);
+      if (!token) {
+        throw new HttpRequestError(401, 'AUTH_REQUIRED', 'Bearer token required');
       }
 
-      let response: BridgeInternalResponse;
+      // Every request carries the token, so skip the attempt limit; failures still lead to IP blocking
+      const authResult = await this.authManager.validateToken(token, clientIP, { countAttempt: false });
+      if (!authResult.success || !authResult.payload) {
+        this.safetyGuard.logOperation('bridge_auth_failure', {
+          requestId,
+          transport: 'http',
+          reason: authResult.error || 'Unknown authentication error',
+          remoteAddress: clientIP
+        });
+        throw new HttpRequestError(401, 'AUTH_REQUIRED', authResult.error || 'Authentication failed');
+      }
 
-      switch (command.type) {
-        case 'auth_request':
-          response = await this.handleAuthRequest(connectionId, command);
-          break;
-        case 'workspace_query':
-          response = await this.handleWorkspaceQuery(command);
-          break;
-        case 'file_operation':
-          response = await this.handleFileOperation(command);
-          break;
-        case 'command_execution':
-          response = await this.handleCommandExecution(command);
-          break;
-        case 'context_request':
-          response = await this.handleContextRequest(command);
-          break;
+      const body = await readJsonBody(request, MAX_MESSAGE_SIZE);
+      let inbound: InboundMessage;
+      try {
+        inbound = normalizeInboundMessage(toInboundHttpMessage(body, requestId));
+      } catch (error) {
+        if (error instanceof HttpRequestError) {
+          throw error;
+        }
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        throw new HttpRequestError(400, 'INVALID_MESSAGE', `Invalid command format: ${errorMsg}`);
+      }
+
+      if (inbound.kind !== 'command' && inbound.kind !== 'workspace_request') {
+        throw new HttpRequestError(400, 'UNSUPPORTED_MESSAGE_TYPE', 'Only commands and workspace requests can be sent over HTTP');
+      }
+      if (inbound.kind === 'command' && HTTP_UNSUPPORTED_COMMANDS.includes(inbound.command.type)) {
+        throw new HttpRequestError(400, 'UNSUPPORTED_MESSAGE_TYPE', `'${inbound.command.type}' requires a WebSocket session`);
+      }
+
+      // Each request is a new connection, so requests share one window per token
+      const rateLimitKey = `http:${authResult.payload.sessionId}`;
+      if (!isTransferChunk(inbound) && !this.checkRateLimit(rateLimitKey, clientIP)) {
+        response.setHeader('Retry-After', Math.ceil(this.getRateLimitRetryAfter(rateLimitKey) / 1000));
+        throw new HttpRequestError(429, 'RATE_LIMITED', 'Rate limit exceeded. Please slow down.');
       }
 
-      this.sendMessage(connectionId, response);
+      const replies: OutboundMessage[] = [];
+      const connection: BridgeConnection = {
+        id: `http_${requestId}`,
+        socket: null,
+        deliver: message => replies.push(message),
+        lastHeartbeat: Date.now(),
+        authenticated: true,
+        tokenPayload: authResult.payload,
+        token,
+        clientIP,
+        connectedAt: Date.now(),
+        protocol: 'formal',
+        messagesReceived: 1,
+        messagesSent: 0,
+        negotiated: {
+          version: SUPPORTED_PROTOCOL_VERSIONS[SUPPORTED_PROTOCOL_VERSIONS.length - 1],
+          features: HTTP_FEATURES
+        }
+      };
+
+      this.httpConnections.set(connection.id, connection);
+      try {
+        await this.handleInboundMessage(connection, inbound);
+      } finally {
+        this.httpConnections.delete(connection.id);
+        this.circuitBreakers.removeConnection(connection.id);
+      }
+
+      const reply = replies[replies.length - 1];
+      if (!reply) {
+        throw new HttpRequestError(500, 'COMMAND_FAILED', 'Command produced no response');
+      }
+
+      this.safetyGuard.logOperation('bridge_http_command', {
+        connectionId: connection.id,
+        sessionId: authResult.payload.sessionId,
+        messageId: getInboundMessageId(inbound),
+        command: inbound.kind === 'command' ? inbound.command.type : 'workspace_request',
+        status: getHttpStatus(reply),
+        remoteAddress: clientIP
+      });
 
+      this.writeHttpResponse(response, getHttpStatus(reply), reply);
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.error('Failed to parse TUI command:', errorMsg);
-      this.sendErrorResponse(connectionId, 'unknown', `Invalid command format: ${errorMsg}`);
+      const httpError = error instanceof HttpRequestError
+        ? error
+        : new HttpRequestError(500, 'COMMAND_FAILED', error instanceof Error ? error.message : String(error));
+      if (httpError.status === 401) {
+        response.setHeader('WWW-Authenticate', 'Bearer');
+      }
+      this.writeHttpResponse(
+        response,
+        httpError.status,
+        createBridgeError(requestId, 'http', httpError.code, httpError.message, httpError.status !== 401)
+      );
     }
   }
 
-  private async handleAuthRequest(connectionId: string, command: Extract<BridgeInternalCommand, { type: 'auth_request' }>): Promise<BridgeInternalResponse> {
+  private writeHttpResponse(response: http.ServerResponse, status: number, body: OutboundMessage): void {
+    if (response.headersSent) {
+      return;
+    }
+    response.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store'
+    });
+    response.end(JSON.stringify(body));
+  }
+
+  private async handleTUICommand(connectionId: string, data: WebSocket.Data): Promise<void> {
     const connection = this.connections.get(connectionId);
     if (!connection) {
-      return {
-        id: command.id,
-        success: false,
-        error: 'Connection not found',
-        timestamp: Date.now()
-      };
+      return;
     }
+    connection.messagesReceived++;
 
-    // Enhanced validation for auth request payload
-    if (!command.payload || typeof command.payload !== 'object') {
-      return {
-        id: command.id,
-        success: false,
-        error: 'Invalid auth request: missing payload',
-        timestamp: Date.now()
-      };
+    let inbound: InboundMessage;
+    try {
+      inbound = normalizeInboundMessage(JSON.parse(data.toString()));
+    } catch (error) {
+      if (!this.checkRateLimit(connectionId)) {
+        this.sendErrorResponse(connectionId, 'unknown', 'Rate limit exceeded. Please slow down.', 'RATE_LIMITED');
+        return;
+      }
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error('Failed to parse TUI command:', errorMsg);
+      this.sendErrorResponse(connectionId, 'unknown', `Invalid command format: ${errorMsg}`, 'INVALID_MESSAGE');
+      return;
     }
 
-    const token = command.payload.token;
-    if (!token || typeof token !== 'string') {
-      return {
-        id: command.id,
-        success: false,
-        error: 'Invalid auth request: token is required and must be a string',
-        timestamp: Date.now()
-      };
+    if (!isTransferChunk(inbound) && !this.checkRateLimit(connectionId)) {
+      this.sendErrorResponse(connectionId, getInboundMessageId(inbound), 'Rate limit exceeded. Please slow down.', 'RATE_LIMITED', {
+        retryAfterMs: this.getRateLimitRetryAfter(connectionId)
+      });
+      return;
     }
 
-    // Use the real authentication manager
-    const authResult = await this.authManager.validateToken(token, connection.clientIP);
+    await this.handleInboundMessage(connection, inbound);
+  }
 
-    if (authResult.success && authResult.payload) {
-      connection.authenticated = true;
-      connection.tokenPayload = authResult.payload;
+  // Dispatch shared by WebSocket sessions and one-shot HTTP requests
+  private async handleInboundMessage(connection: BridgeConnection, inbound: InboundMessage): Promise<void> {
+    const connectionId = connection.id;
 
-      this.safetyGuard.logOperation('bridge_auth_success', {
+    // Update heartbeat
+    connection.lastHeartbeat = Date.now();
+
+    // Sessions that negotiated a feature set only get the features they asked for
+    const requiredFeature = getRequiredFeature(inbound);
+    if (requiredFeature && connection.negotiated && !connection.negotiated.features.includes(requiredFeature)) {
+      this.sendErrorResponse(
         connectionId,
-        sessionId: authResult.payload.sessionId,
-        safetyPhase: authResult.payload.safetyPhase,
-        clientInfo: authResult.payload.clientInfo,
-        remoteAddress: connection.clientIP
-      });
+        getInboundMessageId(inbound),
+        `Feature '${requiredFeature}' was not negotiated for this session`,
+        'UNSUPPORTED_MESSAGE_TYPE',
+        { negotiatedFeatures: connection.negotiated.features }
+      );
+      return;
+    }
 
-      return {
-        id: command.id,
-        success: true,
-        data: {
-          authenticated: true,
-          sessionId: authResult.payload.sessionId,
-          safetyPhase: authResult.payload.safetyPhase,
-          permissions: authResult.payload.permissions,
-          capabilities: this.getAvailableCapabilities(authResult.payload.safetyPhase),
-          serverInfo: {
-            version: '0.1.0',
-            supportedProtocols: ['websocket'],
-            maxMessageSize: 1024 * 1024,
-            securityFeatures: ['JWT', 'IP_BLOCKING', 'RATE_LIMITING', 'TOKEN_REVOCATION']
+    switch (inbound.kind) {
+      case 'heartbeat':
+        connection.protocol = 'formal';
+        this.sendMessage(connectionId, createEnvelope('HEARTBEAT', inbound.message.id, this.getSessionId(connection)));
+        return;
+
+      case 'handshake':
+        connection.protocol = 'formal';
+        this.handleHandshake(connection, inbound.message);
+        return;
+
+      case 'unsupported':
+        this.sendErrorResponse(
+          connectionId,
+          inbound.id,
+          `Unsupported message type: ${inbound.type}`,
+          'UNSUPPORTED_MESSAGE_TYPE',
+          { supportedTypes: INBOUND_MESSAGE_TYPES }
+        );
+        return;
+
+      case 'workspace_request':
+        connection.protocol = 'formal';
+        if (!connection.authenticated) {
+          this.sendErrorResponse(connectionId, inbound.message.id, 'Authentication required', 'AUTH_REQUIRED');
+          return;
+        }
+        await this.handleWorkspaceRequest(connection, inbound.message);
+        return;
+    }
+
+    const { command, format } = inbound;
+    connection.protocol = format;
+
+    // Handle authentication first
+    if (!connection.authenticated && command.type !== 'auth_request') {
+      this.sendErrorResponse(connectionId, command.id, 'Authentication required', 'AUTH_REQUIRED');
+      return;
+    }
+
+    // auth_request is left to the authentication manager's own blocking; cancel must always get through
+    const circuitKey = command.type === 'auth_request' || command.type === 'cancel' ? null : this.getCircuitKey(command);
+    let cancelled = false;
+    if (circuitKey) {
+      const check = this.circuitBreakers.check(connectionId, circuitKey);
+      if (!check.allowed) {
+        this.sendErrorResponse(
+          connectionId,
+          command.id,
+          `Circuit breaker open for ${check.breaker.scope === 'connection' ? 'this connection' : circuitKey} after ${check.breaker.failures} consecutive failures`,
+          'CIRCUIT_BREAKER_OPEN',
+          {
+            scope: check.breaker.scope,
+            command: circuitKey,
+            lastError: check.breaker.lastError,
+            retryAfterMs: Math.max(0, (check.breaker.retryAt ?? Date.now()) - Date.now())
+          }
+        );
+        return;
+      }
+    }
+
+    let response: BridgeInternalResponse;
+
+    switch (command.type) {
+      case 'auth_request':
+        response = await this.handleAuthRequest(connectionId, command);
+        break;
+      case 'workspace_query':
+        response = await this.handleWorkspaceQuery(command);
+        break;
+      case 'file_operation':
+        response = await this.handleFileOperation(command);
+        break;
+      case 'command_execution':
+      case 'run_task':
+      case 'run_tests': {
+        const controller = this.trackInFlightCommand(connectionId, command.id);
+        try {
+          if (command.type === 'run_task') {
+            response = await this.handleRunTask(connectionId, command, controller.signal);
+          } else if (command.type === 'run_tests') {
+            response = await this.handleRunTests(connectionId, command, controller.signal);
+          } else {
+            response = await this.handleCommandExecution(connectionId, command, controller.signal);
+          }
+        } finally {
+          this.untrackInFlightCommand(connectionId, command.id, controller);
+        }
+
+        // VS Code commands cannot be interrupted, so their late results are discarded too
+        if (controller.signal.aborted) {
+          cancelled = true;
+          response = {
+            id: command.id,
+            success: false,
+            error: 'Command cancelled',
+            timestamp: Date.now()
+          };
+        }
+        break;
+      }
+      case 'context_request':
+        response = await this.handleContextRequest(command);
+        break;
+      case 'subscribe':
+        response = this.handleSubscribe(connectionId, command);
+        break;
+      case 'unsubscribe':
+        response = this.handleUnsubscribe(connectionId, command);
+        break;
+      case 'cancel':
+        response = this.handleCancel(connectionId, command);
+        break;
+      case 'file_transfer':
+        response = await this.handleFileTransfer(connection, command);
+        break;
+      case 'file_transaction':
+        response = await this.handleFileTransaction(command);
+        break;
+      case 'ui_spawn':
+        response = this.handleUISpawn(connectionId, command);
+        break;
+      case 'code_query':
+        response = await this.handleCodeQuery(command);
+        break;
+      case 'editor_control':
+        response = await this.handleEditorControl(command);
+        break;
+    }
+
+    if (circuitKey) {
+      this.recordCircuitResult(connectionId, circuitKey, response, cancelled);
+    }
+
+    this.sendResponse(connectionId, response);
+  }
+
+  private handleHandshake(connection: BridgeConnection, message: HandshakeMessage): void {
+    const payload = message.payload;
+    if (!payload || typeof payload.version !== 'string' || !Array.isArray(payload.capabilities)) {
+      this.sendErrorResponse(connection.id, message.id, 'Invalid handshake: version and capabilities are required', 'INVALID_MESSAGE');
+      return;
+    }
+
+    const clientVersions = Array.isArray(payload.supportedVersions) && payload.supportedVersions.length > 0
+      ? payload.supportedVersions
+      : [payload.version];
+    const version = negotiateProtocolVersion(clientVersions);
+
+    if (!version) {
+      this.safetyGuard.logOperation('bridge_handshake', {
+        connectionId: connection.id,
+        clientVersions,
+        clientInfo: payload.clientInfo,
+        error: 'No common protocol version'
+      });
+
+      this.sendMessage(connection.id, createBridgeError(
+        message.id,
+        this.getSessionId(connection),
+        'UNSUPPORTED_VERSION',
+        `No common protocol version (client: ${clientVersions.join(', ')}; server: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`,
+        false,
+        { clientVersions, supportedVersions: SUPPORTED_PROTOCOL_VERSIONS }
+      ));
+      connection.socket?.close(1002, 'Unsupported protocol version');
+      return;
+    }
+
+    connection.clientInfo = payload.clientInfo;
+    this.sessionsChangeEmitter.fire();
+    connection.negotiated = {
+      version,
+      features: negotiateFeatures(payload.features)
+    };
+    const safetyPhase = connection.tokenPayload?.safetyPhase || this.configManager.getConfiguration().safetyPhase;
+
+    this.safetyGuard.logOperation('bridge_handshake', {
+      connectionId: connection.id,
+      clientVersions,
+      negotiatedVersion: version,
+      features: connection.negotiated.features,
+      clientInfo: payload.clientInfo,
+      capabilities: payload.capabilities
+    });
+
+    const reply: HandshakeMessage = {
+      ...createEnvelope('HANDSHAKE', message.id, this.getSessionId(connection)),
+      payload: {
+        version,
+        supportedVersions: [...SUPPORTED_PROTOCOL_VERSIONS],
+        features: connection.negotiated.features,
+        capabilities: this.getAvailableCapabilities(safetyPhase),
+        safetyPhase,
+        clientInfo: {
+          name: 'automatus-vscode',
+          version: BRIDGE_SERVER_VERSION,
+          platform: process.platform
+        }
+      }
+    };
+
+    this.sendMessage(connection.id, reply);
+  }
+
+  private async handleWorkspaceRequest(connection: BridgeConnection, message: WorkspaceRequest): Promise<void> {
+    const requestedData = Array.isArray(message.payload?.requestedData) ? message.payload.requestedData : [];
+
+    try {
+      const state = await this.buildWorkspaceState(requestedData);
+
+      this.safetyGuard.logOperation('bridge_workspace_request', {
+        connectionId: connection.id,
+        requestId: message.id,
+        requestedData
+      });
+
+      const response: WorkspaceResponse = {
+        ...createEnvelope('WORKSPACE_RESPONSE', message.id, this.getSessionId(connection)),
+        payload: state
+      };
+
+      this.sendMessage(connection.id, response);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.sendErrorResponse(connection.id, message.id, `Workspace request failed: ${errorMsg}`, 'COMMAND_FAILED');
+    }
+  }
+
+  private async buildWorkspaceState(requestedData: WorkspaceRequest['payload']['requestedData']): Promise<WorkspaceState> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const activeEditor = vscode.window.activeTextEditor;
+    const state: WorkspaceState = {
+      rootPath: workspaceFolders ? workspaceFolders[0].uri.fsPath : undefined,
+      openFiles: [],
+      projectStructure: [],
+      diagnostics: []
+    };
+
+    if (requestedData.includes('activeFile') && activeEditor) {
+      state.activeFile = this.toFileInfo(activeEditor.document);
+    }
+
+    if (requestedData.includes('files')) {
+      state.openFiles = vscode.workspace.textDocuments
+        .filter(doc => doc.uri.scheme === 'file')
+        .map(doc => this.toFileInfo(doc));
+    }
+
+    if (requestedData.includes('selection') && activeEditor && !activeEditor.selection.isEmpty) {
+      const selection = activeEditor.selection;
+      state.selection = {
+        file: activeEditor.document.fileName,
+        range: {
+          start: { line: selection.start.line, character: selection.start.character },
+          end: { line: selection.end.line, character: selection.end.character }
+        },
+        text: activeEditor.document.getText(selection)
+      };
+    }
+
+    if (requestedData.includes('diagnostics')) {
+      state.diagnostics = this.getDiagnostics().diagnostics;
+    }
+
+    if (requestedData.includes('structure')) {
+      // Same restriction as the project_structure context request
+      if (this.configManager.getConfiguration().safetyPhase < 2) {
+        throw new Error('Project structure access requires Safety Phase 2 or higher');
+      }
+      state.projectStructure = await this.getProjectTree();
+    }
+
+    return state;
+  }
+
+  // Diagnostics VS Code currently knows for files on disk, from every language service and linter
+  private getDiagnostics(filter: Pick<WorkspaceQueryPayload, 'path' | 'paths' | 'severities' | 'sources' | 'limit'> = {}): DiagnosticsQueryResult {
+    const all = vscode.languages.getDiagnostics()
+      .filter(([uri]) => uri.scheme === 'file')
+      .flatMap(([uri, diagnostics]) => diagnostics.map(diagnostic => toDiagnosticInfo(uri.fsPath, diagnostic)));
+    return queryDiagnostics(all, filter);
+  }
+
+  private toFileInfo(document: vscode.TextDocument): FileInfo {
+    return {
+      path: document.fileName,
+      relativePath: vscode.workspace.asRelativePath(document.uri),
+      isModified: document.isDirty,
+      language: document.languageId
+    };
+  }
+
+  private async getProjectTree(): Promise<ProjectNode[]> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders) {
+      return [];
+    }
+
+    const rootPath = workspaceFolders[0].uri.fsPath;
+    const files = await vscode.workspace.findFiles('**/*', '**/node_modules/**', 100);
+    const roots: ProjectNode[] = [];
+
+    for (const file of files) {
+      const segments = vscode.workspace.asRelativePath(file, false).split('/');
+      let level = roots;
+      let currentPath = rootPath;
+
+      segments.forEach((segment, index) => {
+        currentPath = `${currentPath}/${segment}`;
+        const isFile = index === segments.length - 1;
+        let node = level.find(existing => existing.name === segment);
+        if (!node) {
+          node = isFile
+            ? { name: segment, path: currentPath, type: 'file' }
+            : { name: segment, path: currentPath, type: 'directory', children: [] };
+          level.push(node);
+        }
+        level = node.children || [];
+      });
+    }
+
+    return roots;
+  }
+
+  private async handleAuthRequest(connectionId: string, command: Extract<BridgeInternalCommand, { type: 'auth_request' }>): Promise<BridgeInternalResponse> {
+    const connection = this.connections.get(connectionId);
+    if (!connection) {
+      return {
+        id: command.id,
+        success: false,
+        error: 'Connection not found',
+        timestamp: Date.now()
+      };
+    }
+
+    // Enhanced validation for auth request payload
+    if (!command.payload || typeof command.payload !== 'object') {
+      return {
+        id: command.id,
+        success: false,
+        error: 'Invalid auth request: missing payload',
+        timestamp: Date.now()
+      };
+    }
+
+    const token = command.payload.token;
+    if (!token || typeof token !== 'string') {
+      return {
+        id: command.id,
+        success: false,
+        error: 'Invalid auth request: token is required and must be a string',
+        timestamp: Date.now()
+      };
+    }
+
+    // Use the real authentication manager
+    const authResult = await this.authManager.validateToken(token, connection.clientIP);
+
+    if (authResult.success && authResult.payload) {
+      connection.authenticated = true;
+      connection.tokenPayload = authResult.payload;
+      connection.token = token;
+      this.sessionsChangeEmitter.fire();
+
+      this.safetyGuard.logOperation('bridge_auth_success', {
+        connectionId,
+        sessionId: authResult.payload.sessionId,
+        safetyPhase: authResult.payload.safetyPhase,
+        clientInfo: authResult.payload.clientInfo,
+        remoteAddress: connection.clientIP
+      });
+
+      return {
+        id: command.id,
+        success: true,
+        data: {
+          authenticated: true,
+          sessionId: authResult.payload.sessionId,
+          safetyPhase: authResult.payload.safetyPhase,
+          permissions: authResult.payload.permissions,
+          capabilities: this.getAvailableCapabilities(authResult.payload.safetyPhase),
+          serverInfo: {
+            version: BRIDGE_SERVER_VERSION,
+            protocolVersions: [...SUPPORTED_PROTOCOL_VERSIONS],
+            supportedProtocols: this.configManager.getConfiguration().bridgeEnableHttp === false ? ['websocket'] : ['websocket', 'http'],
+            maxMessageSize: MAX_MESSAGE_SIZE,
+            securityFeatures: ['JWT', 'IP_BLOCKING', 'RATE_LIMITING', 'TOKEN_REVOCATION']
           }
         },
         timestamp: Date.now()
@@ -700,27 +1641,28 @@ export class TUIVSCodeBridge {
   }
 
   private getConnectionRemoteAddress(connectionId: string): string {
-    const connection = this.connections.get(connectionId);
+    const connection = this.getConnection(connectionId);
     return connection?.clientIP || 'unknown';
   }
 
-  private checkRateLimit(connectionId: string): boolean {
+  // Keyed by connection id for WebSocket sessions and by token session for HTTP requests
+  private checkRateLimit(key: string, remoteAddress = this.getConnectionRemoteAddress(key)): boolean {
     const now = Date.now();
-    let limiter = this.messageRateLimiter.get(connectionId);
+    let limiter = this.messageRateLimiter.get(key);
 
     if (!limiter || now > limiter.resetTime) {
       // Reset or create new rate limit window
       limiter = { count: 1, resetTime: now + this.rateLimitWindow };
-      this.messageRateLimiter.set(connectionId, limiter);
+      this.messageRateLimiter.set(key, limiter);
       return true;
     }
 
     if (limiter.count >= this.maxMessagesPerWindow) {
       // Rate limit exceeded
       this.safetyGuard.logOperation('bridge_rate_limit_exceeded', {
-        connectionId,
+        connectionId: key,
         count: limiter.count,
-        remoteAddress: this.getConnectionRemoteAddress(connectionId)
+        remoteAddress
       });
       return false;
     }
@@ -729,6 +1671,12 @@ export class TUIVSCodeBridge {
     return true;
   }
 
+  // Time until the key's rate limit window starts over
+  private getRateLimitRetryAfter(key: string): number {
+    const limiter = this.messageRateLimiter.get(key);
+    return limiter ? Math.max(0, limiter.resetTime - Date.now()) : 0;
+  }
+
   private cleanupRateLimiter(): void {
     const now = Date.now();
     for (const [connectionId, limiter] of this.messageRateLimiter) {
@@ -748,6 +1696,9 @@ export class TUIVSCodeBridge {
         const queryType = command.payload.queryType || 'basic';
 
         switch (queryType) {
+          case 'diagnostics':
+            workspaceData = this.getDiagnostics(command.payload);
+            break;
           case 'context':
             workspaceData = await this.workspaceContextManager.getCurrentWorkspaceContext();
             break;
@@ -762,6 +1713,8 @@ export class TUIVSCodeBridge {
             workspaceData = await this.workspaceContextManager.getCurrentWorkspaceContext();
             break;
         }
+      } else if (command.payload.queryType === 'diagnostics') {
+        workspaceData = this.getDiagnostics(command.payload);
       } else {
         // Fallback to basic workspace info
         workspaceData = this.getCurrentWorkspace();
@@ -791,6 +1744,406 @@ export class TUIVSCodeBridge {
     }
   }
 
+  private async handleCodeQuery(command: Extract<BridgeInternalCommand, { type: 'code_query' }>): Promise<BridgeInternalResponse> {
+    try {
+      const payload = command.payload;
+      asValidationError(() => validateCodeQuery(payload));
+
+      if (payload.path !== undefined && !await this.safetyGuard.checkPermission('read', payload.path)) {
+        throw new CommandRefusedError('PERMISSION_DENIED', 'Operation not permitted by safety guard');
+      }
+
+      const result = await this.runCodeQuery(payload);
+
+      this.safetyGuard.logOperation('bridge_code_query', {
+        commandId: command.id,
+        queryType: payload.queryType,
+        path: payload.path,
+        query: payload.query
+      });
+
+      return {
+        id: command.id,
+        success: true,
+        data: result,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        id: command.id,
+        success: false,
+        error: `Code query failed: ${errorMsg}`,
+        errorCode: getRefusalCode(error),
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  // Runs VS Code's provider commands, which ask every registered language extension
+  private async runCodeQuery(payload: CodeQueryPayload): Promise<CodeQueryResult> {
+    const limit = payload.limit ?? DEFAULT_CODE_QUERY_LIMIT;
+
+    if (payload.queryType === 'workspace_symbols') {
+      const query = payload.query ?? '';
+      const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', query) ?? [];
+      return {
+        queryType: 'workspace_symbols',
+        query,
+        symbols: symbols.slice(0, limit).map(toCodeSymbolMatch),
+        total: symbols.length,
+        truncated: symbols.length > limit
+      };
+    }
+
+    const path = payload.path ?? '';
+    const uri = vscode.Uri.file(path);
+    const position = new vscode.Position(payload.position?.line ?? 0, payload.position?.character ?? 0);
+
+    switch (payload.queryType) {
+      case 'document_symbols': {
+        const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>('vscode.executeDocumentSymbolProvider', uri) ?? [];
+        return { queryType: 'document_symbols', path, symbols: toCodeSymbols(symbols) };
+      }
+      case 'definition':
+      case 'references': {
+        const command = payload.queryType === 'definition' ? 'vscode.executeDefinitionProvider' : 'vscode.executeReferenceProvider';
+        const found = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(command, uri, position) ?? [];
+        const locations = uniqueLocations(found.map(toCodeLocation));
+        return {
+          queryType: payload.queryType,
+          path,
+          position: payload.position,
+          locations: locations.slice(0, limit),
+          total: locations.length,
+          truncated: locations.length > limit
+        };
+      }
+      case 'hover': {
+        const hovers = await vscode.commands.executeCommand<vscode.Hover[]>('vscode.executeHoverProvider', uri, position) ?? [];
+        return {
+          queryType: 'hover',
+          path,
+          position: payload.position,
+          hovers: hovers.map(toCodeHover).filter(hover => hover.contents.length > 0)
+        };
+      }
+      case 'call_hierarchy': {
+        const direction = payload.direction ?? 'incoming';
+        const prepared = await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>('vscode.prepareCallHierarchy', uri, position) ?? [];
+        const items = await Promise.all(prepared.map(async item => ({
+          item: toCallHierarchyNode(item),
+          incoming: direction === 'outgoing'
+            ? undefined
+            : toIncomingCalls(await vscode.commands.executeCommand<vscode.CallHierarchyIncomingCall[]>('vscode.provideIncomingCalls', item) ?? []),
+          outgoing: direction === 'incoming'
+            ? undefined
+            : toOutgoingCalls(await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>('vscode.provideOutgoingCalls', item) ?? [])
+        })));
+        return { queryType: 'call_hierarchy', path, position: payload.position, items };
+      }
+      default:
+        throw new Error(`Unknown code query type: ${payload.queryType}`);
+    }
+  }
+
+  /**
+   * Runs a detected build command or a VS Code task and streams its output as progress. Requires
+   * Safety Phase 3, the resolved command line in automatus.bridge.tasks.allowlist and, unless
+   * approvals are turned off, the user's consent. A task's label is not checked: a workspace's
+   * tasks.json may give any command an allowed name. A non-zero exit is still a successful
+   * response carrying the exit code.
+   */
+  private async handleRunTask(
+    connectionId: string,
+    command: Extract<BridgeInternalCommand, { type: 'run_task' }>,
+    signal: AbortSignal
+  ): Promise<BridgeInternalResponse> {
+    const payload = command.payload;
+    const name = payload?.source === 'task' ? payload.taskName : payload?.command;
+    let commandLine: string | undefined;
+
+    try {
+      asValidationError(() => validateRunTask(payload));
+
+      const config = this.configManager.getConfiguration();
+      if (config.safetyPhase < 3) {
+        throw new CommandRefusedError('PERMISSION_DENIED', 'Running tasks requires Safety Phase 3 or higher');
+      }
+
+      const spec = await this.resolveTaskProcess(payload);
+      commandLine = [spec.command, ...spec.args].join(' ');
+      if (!(config.bridgeTaskAllowlist ?? []).includes(commandLine)) {
+        throw new CommandRefusedError('PERMISSION_DENIED', `'${commandLine}' is not in automatus.bridge.tasks.allowlist`);
+      }
+
+      if (config.requireApproval) {
+        const approved = await this.requestUserApproval(
+          `TUI wants to run ${payload.source === 'task' ? `the task '${name}'` : `'${name}'`}`,
+          `${commandLine}\n\nin ${spec.cwd}`
+        );
+        if (!approved) {
+          throw new CommandRefusedError('APPROVAL_DENIED', 'Task cancelled by user');
+        }
+      }
+
+      this.safetyGuard.logOperation('bridge_run_task_start', {
+        commandId: command.id,
+        connectionId,
+        source: payload.source,
+        name,
+        commandLine,
+        cwd: spec.cwd
+      });
+
+      const onChunk = this.createProgressReporter(connectionId, command.id);
+      const result = await runTaskProcess(spec, {
+        onOutput: onChunk ? (stream, chunk) => onChunk(chunk, stream) : undefined,
+        signal,
+        timeoutMs: payload.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS
+      });
+
+      this.safetyGuard.logOperation('bridge_run_task', {
+        commandId: command.id,
+        source: payload.source,
+        name,
+        exitCode: result.exitCode,
+        signal: result.signal,
+        durationMs: result.durationMs,
+        timedOut: result.timedOut,
+        cancelled: signal.aborted
+      });
+
+      return {
+        id: command.id,
+        success: true,
+        data: { ...result, source: payload.source, name: name!, commandLine, cwd: spec.cwd },
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+
+      this.safetyGuard.logOperation('bridge_run_task', {
+        commandId: command.id,
+        source: payload?.source,
+        name,
+        commandLine,
+        success: false,
+        error: errorMsg
+      });
+
+      return {
+        id: command.id,
+        success: false,
+        error: `Run task failed: ${errorMsg}`,
+        errorCode: getRefusalCode(error),
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  // Same gates as run_task, except that the runner's command line is built by the bridge, not chosen from the allowlist
+  private async handleRunTests(
+    connectionId: string,
+    command: Extract<BridgeInternalCommand, { type: 'run_tests' }>,
+    signal: AbortSignal
+  ): Promise<BridgeInternalResponse> {
+    try {
+      const config = this.configManager.getConfiguration();
+      if (config.safetyPhase < 3) {
+        throw new CommandRefusedError('PERMISSION_DENIED', 'Running tests requires Safety Phase 3 or higher');
+      }
+      if (!this.testRunService) {
+        throw new Error('Test runs are not available');
+      }
+      asValidationError(() => validateTestRunRequest(command.payload));
+
+      for (const file of command.payload.files ?? []) {
+        if (!await this.safetyGuard.checkPermission('read', file)) {
+          throw new CommandRefusedError('PERMISSION_DENIED', `Operation not permitted by safety guard: ${file}`);
+        }
+      }
+
+      const onChunk = this.createProgressReporter(connectionId, command.id);
+      const report = await this.testRunService.run(command.payload, {
+        initiator: 'tui',
+        signal,
+        onOutput: onChunk ? (stream, chunk) => onChunk(chunk, stream) : undefined,
+        approve: config.requireApproval
+          ? async plan => {
+            const approved = await this.requestUserApproval(
+              `TUI wants to run the ${plan.runner} tests`,
+              `${[plan.spec.command, ...plan.spec.args].join(' ')}\n\nin ${plan.spec.cwd}`
+            );
+            if (!approved) {
+              throw new CommandRefusedError('APPROVAL_DENIED', 'Test run cancelled by user');
+            }
+            return true;
+          }
+          : undefined
+      });
+
+      return {
+        id: command.id,
+        success: true,
+        data: report,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+
+      this.safetyGuard.logOperation('bridge_run_tests', {
+        commandId: command.id,
+        runner: command.payload?.runner,
+        success: false,
+        error: errorMsg
+      });
+
+      return {
+        id: command.id,
+        success: false,
+        error: `Test run failed: ${errorMsg}`,
+        errorCode: getRefusalCode(error),
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  // Build commands must be among those detected for the project; tasks must run a process or shell command
+  private async resolveTaskProcess(payload: RunTaskPayload): Promise<TaskProcessSpec> {
+    if (payload.source === 'build_command') {
+      const project = await this.workspaceContextManager?.handleProjectQuery({ includeBuildCommands: true });
+      if (!project) {
+        throw new Error('No project detected in the workspace');
+      }
+      if (!project.buildCommands.includes(payload.command!)) {
+        throw new Error(`'${payload.command}' is not a build command of this project. Available: ${project.buildCommands.join(', ') || 'none'}`);
+      }
+      return { command: payload.command!, args: [], shell: true, cwd: project.rootPath };
+    }
+
+    const tasks = (await vscode.tasks.fetchTasks())
+      .filter(task => task.name === payload.taskName && (!payload.taskSource || task.source === payload.taskSource));
+    if (tasks.length === 0) {
+      throw new Error(`Task '${payload.taskName}' not found`);
+    }
+    if (tasks.length > 1) {
+      throw new Error(`Several tasks are named '${payload.taskName}'; set taskSource to one of: ${tasks.map(task => task.source).join(', ')}`);
+    }
+
+    const task = tasks[0];
+    const folder = typeof task.scope === 'object' ? task.scope.uri.fsPath : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!folder) {
+      throw new Error('Tasks can only be run in a workspace folder');
+    }
+    const resolve = (value: string) => resolveTaskVariables(value, folder);
+    const execution = task.execution;
+
+    if (execution instanceof vscode.ShellExecution) {
+      const text = (value: string | vscode.ShellQuotedString) =>
+        resolve(typeof value === 'string' || value.quoting === vscode.ShellQuoting.Escape
+          ? (typeof value === 'string' ? value : value.value)
+          : JSON.stringify(value.value));
+      return {
+        command: execution.commandLine !== undefined ? resolve(execution.commandLine) : text(execution.command ?? ''),
+        args: execution.commandLine !== undefined ? [] : (execution.args ?? []).map(text),
+        shell: true,
+        cwd: execution.options?.cwd ? resolve(execution.options.cwd) : folder,
+        env: execution.options?.env
+      };
+    }
+    if (execution instanceof vscode.ProcessExecution) {
+      return {
+        command: resolve(execution.process),
+        args: execution.args.map(resolve),
+        shell: false,
+        cwd: execution.options?.cwd ? resolve(execution.options.cwd) : folder,
+        env: execution.options?.env
+      };
+    }
+    throw new Error(`Task '${payload.taskName}' uses a custom execution and cannot be run by the bridge`);
+  }
+
+  // Editor control only moves the view and cursor and never edits, so it is allowed in every phase
+  private async handleEditorControl(command: Extract<BridgeInternalCommand, { type: 'editor_control' }>): Promise<BridgeInternalResponse> {
+    try {
+      const payload = command.payload;
+      asValidationError(() => validateEditorControl(payload));
+
+      let result: EditorControlResult;
+      if (payload.action === 'clear_highlights') {
+        result = { action: 'clear_highlights', cleared: this.highlighter?.clear(payload.highlightId) ?? 0 };
+      } else {
+        if (!await this.safetyGuard.checkPermission('read', payload.path!)) {
+          throw new CommandRefusedError('PERMISSION_DENIED', 'Operation not permitted by safety guard');
+        }
+        result = await this.controlEditor(payload);
+      }
+
+      this.safetyGuard.logOperation('bridge_editor_control', {
+        commandId: command.id,
+        action: payload.action,
+        path: payload.path,
+        highlightId: result.highlightId ?? payload.highlightId
+      });
+
+      return {
+        id: command.id,
+        success: true,
+        data: result,
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        id: command.id,
+        success: false,
+        error: `Editor control failed: ${errorMsg}`,
+        errorCode: getRefusalCode(error),
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  private async controlEditor(payload: EditorControlPayload): Promise<EditorControlResult> {
+    const path = payload.path!;
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(path));
+    const ranges = getEditorControlRanges(payload).map(range => document.validateRange(new vscode.Range(
+      range.start.line, range.start.character, range.end.line, range.end.character
+    )));
+
+    const editor = await vscode.window.showTextDocument(document, {
+      preserveFocus: payload.preserveFocus ?? false,
+      preview: false
+    });
+
+    // open places the cursor only when given a location; select sets every range as a selection
+    if (payload.action === 'select' || (payload.action === 'open' && ranges.length > 0)) {
+      const selections = payload.action === 'select' ? ranges : ranges.slice(0, 1);
+      editor.selections = selections.map(range => new vscode.Selection(range.start, range.end));
+    }
+    if (ranges.length > 0) {
+      editor.revealRange(ranges[0], vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    let highlightId: string | undefined;
+    if (payload.action === 'highlight') {
+      highlightId = payload.highlightId ?? uuidv4();
+      if (!this.highlighter) {
+        this.highlighter = new EditorHighlighter();
+      }
+      this.highlighter.add(highlightId, document.uri, ranges, payload.hoverMessage, payload.durationMs ?? DEFAULT_HIGHLIGHT_DURATION_MS);
+    }
+
+    return {
+      action: payload.action,
+      path,
+      selections: editor.selections.map(toRange),
+      visibleRanges: editor.visibleRanges.map(toRange),
+      highlightId
+    };
+  }
+
   private async handleFileOperation(command: Extract<BridgeInternalCommand, { type: 'file_operation' }>): Promise<BridgeInternalResponse> {
     const config = this.configManager.getConfiguration();
 
@@ -799,74 +2152,494 @@ export class TUIVSCodeBridge {
       return {
         id: command.id,
         success: false,
-        error: 'File operations require Safety Phase 2 or higher',
+        error: 'File operations require Safety Phase 2 or higher',
+        errorCode: 'PERMISSION_DENIED',
+        timestamp: Date.now()
+      };
+    }
+
+    try {
+      const { path, newPath } = command.payload;
+      let { operation, content } = command.payload;
+
+      // Checked before approval, so the user is never shown a file the guard would refuse anyway
+      if (operation === 'rename') {
+        await this.checkRenameTargets(path, newPath);
+      } else {
+        await this.checkFileOperationPermission(operation, path);
+      }
+
+      // Check if approval is required
+      if (command.requiresApproval && config.requireApproval) {
+        const approval = await this.requestFileApproval(command.payload);
+        if (!approval.approved) {
+          return {
+            id: command.id,
+            success: false,
+            error: 'Operation cancelled by user',
+            errorCode: 'APPROVAL_DENIED',
+            timestamp: Date.now()
+          };
+        }
+
+        // The user's edited version replaces the proposal; a patch becomes a full modify
+        if (approval.content !== undefined) {
+          operation = operation === 'patch' ? 'modify' : operation;
+          content = approval.content;
+          await this.checkFileOperationPermission(operation, path);
+        }
+      }
+
+      if (operation === 'patch') {
+        return await this.handleFilePatch(command);
+      }
+
+      const result = await this.executeFileOperation(operation, path, content, newPath);
+
+      this.safetyGuard.logOperation('bridge_file_operation', {
+        commandId: command.id,
+        operation,
+        path,
+        newPath,
+        success: true
+      });
+
+      return {
+        id: command.id,
+        success: true,
+        data: result,
+        timestamp: Date.now()
+      };
+
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.safetyGuard.logOperation('bridge_file_operation', {
+        commandId: command.id,
+        operation: command.payload.operation,
+        path: command.payload.path,
+        newPath: command.payload.newPath,
+        success: false,
+        error: errorMsg
+      });
+
+      return {
+        id: command.id,
+        success: false,
+        error: `File operation failed: ${errorMsg}`,
+        errorCode: getRefusalCode(error),
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  private async handleFileTransfer(
+    connection: BridgeConnection,
+    command: Extract<BridgeInternalCommand, { type: 'file_transfer' }>
+  ): Promise<BridgeInternalResponse> {
+    const config = this.configManager.getConfiguration();
+    if (config.safetyPhase < 2) {
+      return {
+        id: command.id,
+        success: false,
+        error: 'File operations require Safety Phase 2 or higher',
+        errorCode: 'PERMISSION_DENIED',
+        timestamp: Date.now()
+      };
+    }
+
+    const owner = this.getSessionId(connection);
+    const payload = command.payload;
+
+    try {
+      let data: FileTransferInfo | FileChunk;
+
+      switch (payload?.action) {
+        case 'start_read': {
+          if (!await this.safetyGuard.checkPermission('read', payload.path)) {
+            throw new CommandRefusedError('PERMISSION_DENIED', 'Operation not permitted by safety guard');
+          }
+          const { content } = await this.executeFileOperation('read', payload.path);
+          data = asValidationError(() => this.fileTransfers.startRead(owner, payload.path, Buffer.from(content, 'utf8'), payload.chunkSize));
+          break;
+        }
+        case 'start_write':
+          // Checked again on commit; failing here spares the client an upload that cannot be applied
+          if (!await this.safetyGuard.checkPermission(CONTENT_WRITE_PERMISSION, payload.path)) {
+            throw new CommandRefusedError('PERMISSION_DENIED', 'Operation not permitted by safety guard');
+          }
+          data = asValidationError(() => this.fileTransfers.startWrite(owner, payload.path, payload.operation, payload.totalBytes, payload.checksum, payload.chunkSize));
+          break;
+        case 'read_chunk':
+          data = asValidationError(() => this.fileTransfers.readChunk(owner, payload.transferId, payload.index));
+          break;
+        case 'write_chunk':
+          data = asValidationError(() => this.fileTransfers.writeChunk(owner, payload));
+          break;
+        case 'status':
+          data = asValidationError(() => this.fileTransfers.status(owner, payload.transferId));
+          break;
+        case 'commit':
+          return await this.commitFileTransfer(owner, command.id, payload.transferId, command.requiresApproval);
+        case 'abort': {
+          const removed = this.fileTransfers.remove(owner, payload.transferId);
+          this.safetyGuard.logOperation('bridge_file_transfer', {
+            commandId: command.id,
+            action: 'abort',
+            transferId: payload.transferId,
+            success: removed
+          });
+          return {
+            id: command.id,
+            success: removed,
+            error: removed ? undefined : `Unknown or expired transfer: ${payload.transferId}`,
+            errorCode: removed ? undefined : 'VALIDATION_ERROR',
+            timestamp: Date.now()
+          };
+        }
+        default:
+          throw new CommandRefusedError('VALIDATION_ERROR', `Unknown file transfer action: ${(payload as { action?: string } | undefined)?.action}`);
+      }
+
+      // Chunks are not logged individually; the start and commit entries cover the transfer
+      if (payload.action === 'start_read' || payload.action === 'start_write') {
+        const info = data as FileTransferInfo;
+        this.safetyGuard.logOperation('bridge_file_transfer', {
+          commandId: command.id,
+          action: payload.action,
+          transferId: info.transferId,
+          path: info.path,
+          totalBytes: info.totalBytes,
+          totalChunks: info.totalChunks,
+          success: true
+        });
+      }
+
+      return {
+        id: command.id,
+        success: true,
+        data,
+        timestamp: Date.now()
+      };
+
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      if (payload?.action === 'start_read' || payload?.action === 'start_write') {
+        this.safetyGuard.logOperation('bridge_file_transfer', {
+          commandId: command.id,
+          action: payload.action,
+          path: payload.path,
+          success: false,
+          error: errorMsg
+        });
+      }
+
+      return {
+        id: command.id,
+        success: false,
+        error: `File transfer failed: ${errorMsg}`,
+        errorCode: getRefusalCode(error),
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  // Applies a completed upload through the regular file operation path (approval, permissions, audit)
+  private async commitFileTransfer(
+    owner: string,
+    commandId: string,
+    transferId: string,
+    requiresApproval?: boolean
+  ): Promise<BridgeInternalResponse> {
+    const { path, operation, content } = asValidationError(() => this.fileTransfers.assemble(owner, transferId));
+    const response = await this.handleFileOperation({
+      id: commandId,
+      type: 'file_operation',
+      payload: { operation, path, content: content.toString('utf8') },
+      timestamp: Date.now(),
+      requiresApproval
+    });
+
+    if (response.success) {
+      this.fileTransfers.remove(owner, transferId);
+    }
+    this.safetyGuard.logOperation('bridge_file_transfer', {
+      commandId,
+      action: 'commit',
+      transferId,
+      path,
+      totalBytes: content.length,
+      success: response.success
+    });
+    return response;
+  }
+
+  /**
+   * Applies several file operations as one WorkspaceEdit after a single approval. Touched
+   * files are backed up first; if applying fails, whatever did take effect is undone.
+   */
+  private async handleFileTransaction(command: Extract<BridgeInternalCommand, { type: 'file_transaction' }>): Promise<BridgeInternalResponse> {
+    const config = this.configManager.getConfiguration();
+    if (config.safetyPhase < 3) {
+      return {
+        id: command.id,
+        success: false,
+        error: 'File transactions require Safety Phase 3 or higher',
+        errorCode: 'PERMISSION_DENIED',
+        timestamp: Date.now()
+      };
+    }
+
+    const transactionId = uuidv4();
+    let operations: FileOperation[];
+    let snapshots: TransactionSnapshot[];
+
+    try {
+      operations = asValidationError(() => validateFileTransaction(command.payload));
+
+      // Every target is checked before anything is touched
+      for (const operation of operations) {
+        for (const target of operation.type === 'rename' ? [operation.path, operation.newPath!] : [operation.path]) {
+          if (!await this.safetyGuard.checkPermission(TRANSACTION_PERMISSION, target)) {
+            throw new CommandRefusedError('PERMISSION_DENIED', `${operation.type} ${target} not permitted by safety guard`);
+          }
+        }
+      }
+
+      snapshots = await this.snapshotTransactionFiles(operations);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.safetyGuard.logOperation('bridge_file_transaction', {
+        commandId: command.id,
+        transactionId,
+        success: false,
+        stage: 'validate',
+        error: errorMsg
+      });
+      return {
+        id: command.id,
+        success: false,
+        error: `File transaction rejected: ${errorMsg}`,
+        errorCode: getRefusalCode(error),
         timestamp: Date.now()
       };
     }
 
-    try {
-      const { operation, path, content } = command.payload;
-
-      // Check if approval is required
-      if (command.requiresApproval && config.requireApproval) {
-        const approved = await this.requestUserApproval(operation, path, content);
-        if (!approved) {
-          return {
-            id: command.id,
-            success: false,
-            error: 'Operation cancelled by user',
-            timestamp: Date.now()
-          };
-        }
-      }
-
-      // Check safety permissions
-      const hasPermission = await this.safetyGuard.checkPermission(operation, path);
-      if (!hasPermission) {
+    if (config.requireApproval) {
+      const choice = await vscode.window.showWarningMessage(
+        `TUI Bridge wants to apply ${operations.length} file operation(s) as one transaction${command.payload.description ? `: ${command.payload.description}` : ''}`,
+        { modal: true, detail: describeFileTransaction(operations) },
+        'Allow',
+        'Deny'
+      );
+      if (choice !== 'Allow') {
         return {
           id: command.id,
           success: false,
-          error: 'Operation not permitted by safety guard',
+          error: 'Transaction cancelled by user',
+          errorCode: 'APPROVAL_DENIED',
           timestamp: Date.now()
         };
       }
+    }
 
-      const result = await this.executeFileOperation(operation, path, content);
-
-      this.safetyGuard.logOperation('bridge_file_operation', {
+    let backupId: string;
+    try {
+      const existingFiles = operations.filter(operation => operation.type !== 'create').map(operation => operation.path);
+      backupId = (await this.backupManager.createBackup(existingFiles, 'bridge_file_transaction', config.safetyPhase, config.requireApproval)).backupId;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.safetyGuard.logOperation('bridge_file_transaction', {
         commandId: command.id,
-        operation,
-        path,
-        success: true
+        transactionId,
+        success: false,
+        stage: 'backup',
+        error: errorMsg
       });
-
       return {
         id: command.id,
-        success: true,
-        data: result,
+        success: false,
+        error: `File transaction aborted before any change: ${errorMsg}`,
         timestamp: Date.now()
       };
+    }
 
+    let failure: string | undefined;
+    try {
+      const applied = await vscode.workspace.applyEdit(await this.buildTransactionEdit(operations));
+      if (!applied) {
+        failure = 'VS Code rejected the workspace edit';
+      }
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      this.safetyGuard.logOperation('bridge_file_operation', {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    if (failure) {
+      const rollbackErrors = await this.rollbackFileTransaction(snapshots);
+      this.safetyGuard.logOperation('bridge_file_transaction', {
         commandId: command.id,
-        operation: command.payload.operation,
-        path: command.payload.path,
+        transactionId,
+        backupId,
+        operations: operations.length,
         success: false,
-        error: errorMsg
+        stage: 'apply',
+        error: failure,
+        rolledBack: rollbackErrors.length === 0,
+        rollbackErrors
       });
-
       return {
         id: command.id,
         success: false,
-        error: `File operation failed: ${errorMsg}`,
+        error: rollbackErrors.length === 0
+          ? `File transaction failed and was rolled back: ${failure}`
+          : `File transaction failed (${failure}) and rollback was incomplete: ${rollbackErrors.join('; ')}. Restore backup ${backupId} to recover.`,
         timestamp: Date.now()
       };
     }
+
+    this.safetyGuard.logOperation('bridge_file_transaction', {
+      commandId: command.id,
+      transactionId,
+      backupId,
+      operations: operations.map(operation => ({ type: operation.type, path: operation.path, newPath: operation.newPath })),
+      success: true
+    });
+
+    return {
+      id: command.id,
+      success: true,
+      data: {
+        transactionId,
+        backupId,
+        operations: operations.map(operation => ({ type: operation.type, path: operation.path, newPath: operation.newPath }))
+      },
+      timestamp: Date.now()
+    };
+  }
+
+  // Checks each operation's preconditions and records what a rollback needs to restore
+  private async snapshotTransactionFiles(operations: FileOperation[]): Promise<TransactionSnapshot[]> {
+    const snapshots: TransactionSnapshot[] = [];
+
+    for (const operation of operations) {
+      const uri = vscode.Uri.file(operation.path);
+      const exists = await this.uriExists(uri);
+      const snapshot: TransactionSnapshot = { operation, uri };
+
+      if (operation.type === 'create') {
+        if (exists) {
+          throw new Error(`${operation.path} already exists`);
+        }
+      } else if (!exists) {
+        throw new Error(`${operation.path} does not exist`);
+      }
+
+      switch (operation.type) {
+        case 'modify':
+          snapshot.originalText = (await vscode.workspace.openTextDocument(uri)).getText();
+          break;
+        case 'delete':
+          snapshot.originalBytes = await vscode.workspace.fs.readFile(uri);
+          break;
+        case 'rename':
+          if (await this.uriExists(vscode.Uri.file(operation.newPath!))) {
+            throw new Error(`${operation.newPath} already exists`);
+          }
+          break;
+      }
+      snapshots.push(snapshot);
+    }
+
+    return snapshots;
+  }
+
+  private async buildTransactionEdit(operations: FileOperation[]): Promise<vscode.WorkspaceEdit> {
+    const edit = new vscode.WorkspaceEdit();
+
+    for (const operation of operations) {
+      const uri = vscode.Uri.file(operation.path);
+      switch (operation.type) {
+        case 'create':
+          edit.createFile(uri, { ignoreIfExists: false });
+          if (operation.content) {
+            edit.insert(uri, new vscode.Position(0, 0), operation.content);
+          }
+          break;
+        case 'modify': {
+          const document = await vscode.workspace.openTextDocument(uri);
+          edit.replace(uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), operation.content!);
+          break;
+        }
+        case 'delete':
+          edit.deleteFile(uri);
+          break;
+        case 'rename':
+          edit.renameFile(uri, vscode.Uri.file(operation.newPath!), { overwrite: false });
+          break;
+      }
+    }
+
+    return edit;
+  }
+
+  // Undoes whichever operations took effect, newest first; returns what could not be undone
+  private async rollbackFileTransaction(snapshots: TransactionSnapshot[]): Promise<string[]> {
+    const errors: string[] = [];
+
+    for (const { operation, uri, originalText, originalBytes } of [...snapshots].reverse()) {
+      try {
+        const edit = new vscode.WorkspaceEdit();
+        switch (operation.type) {
+          case 'create':
+            if (await this.uriExists(uri)) {
+              edit.deleteFile(uri, { ignoreIfNotExists: true });
+            }
+            break;
+          case 'modify': {
+            const document = await vscode.workspace.openTextDocument(uri);
+            if (document.getText() !== originalText) {
+              edit.replace(uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), originalText!);
+            }
+            break;
+          }
+          case 'delete':
+            if (!await this.uriExists(uri)) {
+              await vscode.workspace.fs.writeFile(uri, originalBytes!);
+            }
+            break;
+          case 'rename': {
+            const newUri = vscode.Uri.file(operation.newPath!);
+            if (!await this.uriExists(uri) && await this.uriExists(newUri)) {
+              edit.renameFile(newUri, uri);
+            }
+            break;
+          }
+        }
+
+        if (edit.size > 0 && !await vscode.workspace.applyEdit(edit)) {
+          errors.push(`could not undo ${operation.type} ${operation.path}`);
+        }
+      } catch (error) {
+        errors.push(`could not undo ${operation.type} ${operation.path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private async uriExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
-  private async handleCommandExecution(command: Extract<BridgeInternalCommand, { type: 'command_execution' }>): Promise<BridgeInternalResponse> {
+  private async handleCommandExecution(
+    connectionId: string,
+    command: Extract<BridgeInternalCommand, { type: 'command_execution' }>,
+    signal?: AbortSignal
+  ): Promise<BridgeInternalResponse> {
     try {
       const { commandName, args, context, requireApproval, safetyLevel } = command.payload;
 
@@ -877,6 +2650,7 @@ export class TUIVSCodeBridge {
           id: command.id,
           success: false,
           error: `Command requires safety level '${safetyLevel}' but current phase is ${config.safetyPhase}`,
+          errorCode: 'PERMISSION_DENIED',
           timestamp: Date.now()
         };
       }
@@ -888,6 +2662,7 @@ export class TUIVSCodeBridge {
           id: command.id,
           success: false,
           error: `Command '${commandName}' not allowed in safety level '${safetyLevel}'`,
+          errorCode: 'PERMISSION_DENIED',
           timestamp: Date.now()
         };
       }
@@ -904,6 +2679,7 @@ export class TUIVSCodeBridge {
             id: command.id,
             success: false,
             error: 'Command execution cancelled by user',
+            errorCode: 'APPROVAL_DENIED',
             timestamp: Date.now()
           };
         }
@@ -911,19 +2687,20 @@ export class TUIVSCodeBridge {
 
       // Execute the command with proper context
       const startTime = Date.now();
+      const onChunk = this.createProgressReporter(connectionId, command.id);
       let result;
 
       try {
         // Enhanced command execution with context
         switch (commandName) {
           case 'automatus.generateCodePreview':
-            result = await this.executeCodePreview(args, context);
+            result = await this.executeCodePreview(args, context, { onChunk, signal });
             break;
           case 'automatus.analyzeCodeSelection':
-            result = await this.executeCodeAnalysis(args, context);
+            result = await this.executeCodeAnalysis(args, context, { onChunk, signal });
             break;
           case 'automatus.explainCode':
-            result = await this.executeCodeExplanation(args, context);
+            result = await this.executeCodeExplanation(args, context, { onChunk, signal });
             break;
           default:
             // Execute standard VSCode command
@@ -1034,95 +2811,409 @@ export class TUIVSCodeBridge {
     return readOnlyCommands;
   }
 
-  private async executeCodePreview(args: (string | number | boolean | object)[] | undefined, context: CodeContext | undefined): Promise<CodePreviewResult> {
-    // Implement enhanced code preview with TUI context
-    const activeEditor = vscode.window.activeTextEditor;
-    if (!activeEditor) {
-      throw new Error('No active editor');
+  private async executeCodePreview(
+    args: (string | number | boolean | object)[] | undefined,
+    context: CodeContext | undefined,
+    options: AutomatusRequestOptions
+  ): Promise<CodePreviewResult> {
+    const client = this.requireAutomatusClient();
+    const { codeContext } = this.resolveCodeContext(context);
+    const prompt = typeof args?.[0] === 'string' && args[0].trim()
+      ? args[0]
+      : `Generate code for: ${codeContext.selectedText}`;
+
+    const preview = await client.generateCodePreview(prompt, codeContext, options);
+    return {
+      ...preview,
+      context: context || {}
+    };
+  }
+
+  private async executeCodeAnalysis(
+    args: (string | number | boolean | object)[] | undefined,
+    context: CodeContext | undefined,
+    options: AutomatusRequestOptions
+  ): Promise<CodeAnalysisResult> {
+    const client = this.requireAutomatusClient();
+    const { codeContext, language } = this.resolveCodeContext(context);
+    if (!codeContext.selectedText.trim()) {
+      throw new Error('No code selected to analyze');
     }
 
-    // Use context if provided, otherwise fall back to current selection
-    const code = context?.selectedText || activeEditor.document.getText(activeEditor.selection);
-    const fileName = context?.currentFile || activeEditor.document.fileName;
+    const analysis = await client.analyzeCode(codeContext, options);
+
+    this.safetyGuard.logOperation('bridge_code_analysis', {
+      file: codeContext.currentFile,
+      language,
+      issuesFound: analysis.issues.length,
+      source: analysis.source
+    });
+
+    return {
+      ...analysis,
+      language,
+      context: context || {}
+    };
+  }
+
+  private async executeCodeExplanation(
+    args: (string | number | boolean | object)[] | undefined,
+    context: CodeContext | undefined,
+    options: AutomatusRequestOptions
+  ): Promise<CodeExplanationResult> {
+    const client = this.requireAutomatusClient();
+    const { codeContext, language } = this.resolveCodeContext(context);
+    if (!codeContext.selectedText.trim()) {
+      throw new Error('No code selected to explain');
+    }
 
+    const explanation = await client.explainCode(codeContext.selectedText, codeContext, options);
     return {
-      preview: `Code preview for ${fileName}:\n${code}`,
-      language: activeEditor.document.languageId,
+      ...explanation,
+      language,
       context: context || {}
     };
   }
 
-  private async executeCodeAnalysis(args: (string | number | boolean | object)[] | undefined, context: CodeContext | undefined): Promise<CodeAnalysisResult> {
-    // Implement enhanced code analysis with TUI context
+  // Forwards streamed tokens or task output to the TUI, correlated with the originating command id
+  private createProgressReporter(connectionId: string, commandId: string): ((text: string, stream?: TaskOutputStream) => void) | undefined {
+    const connection = this.getConnection(connectionId);
+    if (!connection || (connection.negotiated && !connection.negotiated.features.includes('progress'))) {
+      return undefined;
+    }
+
+    let sequence = 0;
+    return (chunk: string, stream?: TaskOutputStream) => {
+      sequence++;
+      if (connection.protocol === 'legacy') {
+        this.sendMessage(connectionId, {
+          type: 'command_progress',
+          data: { commandId, sequence, chunk, stream, timestamp: Date.now() }
+        });
+        return;
+      }
+
+      // Envelope id must differ from the command id: clients resolve pending commands by id
+      const message: CommandProgressMessage = {
+        ...createEnvelope('COMMAND_PROGRESS', uuidv4(), this.getSessionId(connection)),
+        payload: { commandId, sequence, chunk, stream }
+      };
+      this.sendMessage(connectionId, message);
+    };
+  }
+
+  private requireAutomatusClient(): SafeAutomatusClient {
+    if (!this.automatusClient) {
+      throw new Error('Automatus client is not available');
+    }
+    return this.automatusClient;
+  }
+
+  // Merges the TUI-provided context with the active editor; TUI values take precedence
+  private resolveCodeContext(context: CodeContext | undefined): { codeContext: AutomatusCodeContext; language: string } {
     const activeEditor = vscode.window.activeTextEditor;
-    if (!activeEditor) {
+    if (!activeEditor && !context?.selectedText) {
       throw new Error('No active editor');
     }
 
-    const code = context?.selectedText || activeEditor.document.getText(activeEditor.selection);
-    return {
-      analysis: `Analysis of code: ${code.length} characters`,
-      language: activeEditor.document.languageId,
-      complexity: Math.floor(Math.random() * 10) + 1,
-      issues: [],
-      context: context || {}
-    };
-  }
+    const selectedText = context?.selectedText ?? (activeEditor ? activeEditor.document.getText(activeEditor.selection) : '');
+    const currentFile = context?.currentFile || activeEditor?.document.fileName || 'untitled';
+    const cursor = context?.cursorPosition ?? context?.selection?.start;
+    const cursorPosition = cursor
+      ? new vscode.Position(cursor.line, cursor.character)
+      : activeEditor?.selection.active ?? new vscode.Position(0, 0);
+
+    const editorMatches = activeEditor && activeEditor.document.fileName === currentFile;
+    return {
+      codeContext: { currentFile, selectedText, cursorPosition },
+      language: editorMatches ? activeEditor.document.languageId : this.inferLanguageFromPath(currentFile)
+    };
+  }
+
+  private inferLanguageFromPath(filePath: string): string {
+    const document = vscode.workspace.textDocuments.find(doc => doc.fileName === filePath);
+    return document?.languageId || 'plaintext';
+  }
+
+  private async handleContextRequest(command: Extract<BridgeInternalCommand, { type: 'context_request' }>): Promise<BridgeInternalResponse> {
+    try {
+      const { contextType } = command.payload;
+      let contextData: any;
+
+      switch (contextType) {
+        case 'active_editor':
+          contextData = await this.getActiveEditorContext();
+          break;
+        case 'selection':
+          contextData = await this.getSelectionContext();
+          break;
+        case 'project_structure':
+          // Only available in Phase 2+
+          if (this.configManager.getConfiguration().safetyPhase < 2) {
+            throw new CommandRefusedError('PERMISSION_DENIED', 'Project structure access requires Safety Phase 2 or higher');
+          }
+          contextData = await this.getProjectStructure();
+          break;
+        default:
+          throw new CommandRefusedError('VALIDATION_ERROR', `Unknown context type: ${contextType}`);
+      }
+
+      return {
+        id: command.id,
+        success: true,
+        data: contextData,
+        timestamp: Date.now()
+      };
+
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        id: command.id,
+        success: false,
+        error: `Context request failed: ${errorMsg}`,
+        errorCode: getRefusalCode(error),
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  private handleSubscribe(connectionId: string, command: Extract<BridgeInternalCommand, { type: 'subscribe' }>): BridgeInternalResponse {
+    try {
+      const subscription = asValidationError(() => this.subscriptions.subscribe(connectionId, command.payload ?? {}));
+
+      this.safetyGuard.logOperation('bridge_subscribe', {
+        connectionId,
+        subscriptionId: subscription.id,
+        eventTypes: subscription.eventTypes,
+        paths: subscription.paths,
+        languages: subscription.languages
+      });
+
+      return {
+        id: command.id,
+        success: true,
+        data: {
+          subscriptionId: subscription.id,
+          eventTypes: subscription.eventTypes,
+          paths: subscription.paths,
+          languages: subscription.languages
+        },
+        timestamp: Date.now()
+      };
+
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        id: command.id,
+        success: false,
+        error: `Subscribe failed: ${errorMsg}`,
+        errorCode: getRefusalCode(error),
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  private handleUnsubscribe(connectionId: string, command: Extract<BridgeInternalCommand, { type: 'unsubscribe' }>): BridgeInternalResponse {
+    const removed = this.subscriptions.unsubscribe(connectionId, command.payload?.subscriptionId);
+
+    this.safetyGuard.logOperation('bridge_unsubscribe', {
+      connectionId,
+      removed
+    });
+
+    return {
+      id: command.id,
+      success: true,
+      data: { removed },
+      timestamp: Date.now()
+    };
+  }
+
+  private handleCancel(connectionId: string, command: Extract<BridgeInternalCommand, { type: 'cancel' }>): BridgeInternalResponse {
+    const commandId = command.payload?.commandId;
+    if (typeof commandId !== 'string' || !commandId) {
+      return {
+        id: command.id,
+        success: false,
+        error: 'Cancel requires the commandId of the command to cancel',
+        timestamp: Date.now()
+      };
+    }
+
+    // Connections can only cancel their own commands
+    const controller = this.inFlightCommands.get(connectionId)?.get(commandId);
+    controller?.abort();
+
+    this.safetyGuard.logOperation('bridge_command_cancel', {
+      connectionId,
+      commandId,
+      cancelled: !!controller
+    });
+
+    return {
+      id: command.id,
+      success: true,
+      data: { commandId, cancelled: !!controller },
+      timestamp: Date.now()
+    };
+  }
+
+  private trackInFlightCommand(connectionId: string, commandId: string): AbortController {
+    const controller = new AbortController();
+    let commands = this.inFlightCommands.get(connectionId);
+    if (!commands) {
+      commands = new Map();
+      this.inFlightCommands.set(connectionId, commands);
+    }
+    commands.set(commandId, controller);
+    return controller;
+  }
+
+  private untrackInFlightCommand(connectionId: string, commandId: string, controller: AbortController): void {
+    const commands = this.inFlightCommands.get(connectionId);
+    if (commands?.get(commandId) === controller) {
+      commands.delete(commandId);
+    }
+    if (commands && commands.size === 0) {
+      this.inFlightCommands.delete(connectionId);
+    }
+  }
+
+  // Nobody is left to receive the results, so stop the work
+  private abortInFlightCommands(connectionId: string): void {
+    const commands = this.inFlightCommands.get(connectionId);
+    if (!commands) {
+      return;
+    }
+
+    for (const [commandId, controller] of commands) {
+      controller.abort();
+      this.safetyGuard.logOperation('bridge_command_cancel', {
+        connectionId,
+        commandId,
+        cancelled: true,
+        reason: 'connection_closed'
+      });
+    }
+    this.inFlightCommands.delete(connectionId);
+  }
+
+  /**
+   * Pushes workspace updates to authenticated connections. Connections that have
+   * subscribed only receive the updates matching at least one of their subscriptions.
+   * Returns the number of connections the updates were delivered to.
+   */
+  publishWorkspaceUpdates(updateType: WorkspaceUpdateType, updates: WorkspaceUpdate[]): number {
+    const targets = updates.map(update => this.toEventTarget(update));
+    let delivered = 0;
+
+    for (const [connectionId, connection] of this.connections) {
+      if (!connection.authenticated) {
+        continue;
+      }
+
+      const matchedUpdates: WorkspaceUpdate[] = [];
+      const subscriptionIds = new Set<string>();
+      updates.forEach((update, index) => {
+        const matches = this.subscriptions.match(connectionId, targets[index]);
+        if (matches === null || matches.length > 0) {
+          matchedUpdates.push(update);
+          matches?.forEach(id => subscriptionIds.add(id));
+        }
+      });
+
+      if (matchedUpdates.length === 0) {
+        continue;
+      }
 
-  private async executeCodeExplanation(args: (string | number | boolean | object)[] | undefined, context: CodeContext | undefined): Promise<CodeExplanationResult> {
-    // Implement enhanced code explanation with TUI context
-    const activeEditor = vscode.window.activeTextEditor;
-    if (!activeEditor) {
-      throw new Error('No active editor');
+      if (connection.protocol === 'legacy') {
+        this.sendMessage(connectionId, {
+          type: 'workspace_update',
+          data: {
+            updateType,
+            updates: matchedUpdates,
+            timestamp: Date.now()
+          }
+        });
+      } else {
+        const message: WorkspaceEventMessage = {
+          ...createEnvelope('WORKSPACE_EVENT', uuidv4(), this.getSessionId(connection)),
+          payload: {
+            updateType,
+            subscriptionIds: Array.from(subscriptionIds),
+            updates: matchedUpdates
+          }
+        };
+        this.sendMessage(connectionId, message);
+      }
+      delivered++;
     }
 
-    const code = context?.selectedText || activeEditor.document.getText(activeEditor.selection);
-    return {
-      explanation: `This code: ${code.substring(0, 100)}${code.length > 100 ? '...' : ''}`,
-      language: activeEditor.document.languageId,
-      concepts: ['variables', 'functions', 'control flow'],
-      context: context || {}
-    };
+    return delivered;
   }
 
-  private async handleContextRequest(command: Extract<BridgeInternalCommand, { type: 'context_request' }>): Promise<BridgeInternalResponse> {
-    try {
-      const { contextType } = command.payload;
-      let contextData: any;
+  // Sends a full workspace snapshot to every authenticated connection, regardless of subscriptions
+  publishWorkspaceContext(context: WorkspaceContext): number {
+    let delivered = 0;
 
-      switch (contextType) {
-        case 'active_editor':
-          contextData = await this.getActiveEditorContext();
-          break;
-        case 'selection':
-          contextData = await this.getSelectionContext();
-          break;
-        case 'project_structure':
-          // Only available in Phase 2+
-          if (this.configManager.getConfiguration().safetyPhase < 2) {
-            throw new Error('Project structure access requires Safety Phase 2 or higher');
+    for (const [connectionId, connection] of this.connections) {
+      if (!connection.authenticated) {
+        continue;
+      }
+
+      if (connection.protocol === 'legacy') {
+        this.sendMessage(connectionId, {
+          type: 'initial_workspace_context',
+          data: context,
+          timestamp: Date.now()
+        });
+      } else {
+        const message: WorkspaceEventMessage = {
+          ...createEnvelope('WORKSPACE_EVENT', uuidv4(), this.getSessionId(connection)),
+          payload: {
+            updateType: 'initial_context',
+            subscriptionIds: [],
+            context
           }
-          contextData = await this.getProjectStructure();
-          break;
-        default:
-          throw new Error(`Unknown context type: ${contextType}`);
+        };
+        this.sendMessage(connectionId, message);
       }
+      delivered++;
+    }
 
-      return {
-        id: command.id,
-        success: true,
-        data: contextData,
-        timestamp: Date.now()
-      };
+    return delivered;
+  }
 
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      return {
-        id: command.id,
-        success: false,
-        error: `Context request failed: ${errorMsg}`,
-        timestamp: Date.now()
-      };
+  private toEventTarget(update: WorkspaceUpdate): WorkspaceEventTarget {
+    switch (update.type) {
+      case 'file_change':
+        return {
+          type: update.type,
+          paths: [update.data.path, update.data.fileName],
+          languageId: update.data.languageId
+        };
+      case 'active_editor_change':
+        return {
+          type: update.type,
+          paths: update.data.fileName ? [update.data.fileName, vscode.workspace.asRelativePath(update.data.fileName)] : [],
+          languageId: update.data.languageId
+        };
+      case 'workspace_change':
+        return {
+          type: update.type,
+          paths: [...update.data.added, ...update.data.removed]
+        };
+      case 'git_change':
+        return {
+          type: update.type,
+          paths: update.data.changedFiles
+        };
+      case 'diagnostics_change':
+        return {
+          type: update.type,
+          paths: [update.data.path, update.data.fileName],
+          languageId: update.data.languageId
+        };
     }
   }
 
@@ -1201,31 +3292,185 @@ export class TUIVSCodeBridge {
           ? (operation.data as any).args : [];
         return await vscode.commands.executeCommand(operation.target, ...args);
 
-      case 'show_panel':
-        // Create webview panel for visual feedback
-        const panel = vscode.window.createWebviewPanel(
-          operation.target,
-          ((operation.data && typeof operation.data === 'object') ? (operation.data as any).title : null) || 'Automatus Panel',
-          vscode.ViewColumn.One,
-          {
-            enableScripts: ((operation.data && typeof operation.data === 'object') ? (operation.data as any).enableScripts : false) || false,
-            retainContextWhenHidden: true
-          }
-        );
-
-        const htmlContent = (operation.data && typeof operation.data === 'object') ? (operation.data as any).html : null;
-        if (htmlContent) {
-          panel.webview.html = htmlContent;
-        }
-
-        return { panelId: operation.target, created: true };
+      case 'show_panel': {
+        // Rendered from the same templates as UI_SPAWN; interactions have no TUI connection to go to
+        const panelData = (operation.data && typeof operation.data === 'object') ? operation.data as Partial<UISpawnPayload> : {};
+        const { panelId, reused } = this.getPanelManager().spawn('', {
+          panelId: operation.target,
+          panelType: panelData.panelType ?? 'preview',
+          title: panelData.title || 'Automatus Panel',
+          data: panelData.data ?? '',
+          options: { column: 'one', ...panelData.options }
+        });
+        return { panelId, created: !reused };
+      }
 
       default:
         throw new Error(`Unknown operation type: ${operation.type}`);
     }
   }
 
-  private async executeFileOperation(operation: string, path: string, content?: string): Promise<any> {
+  private handleUISpawn(connectionId: string, command: Extract<BridgeInternalCommand, { type: 'ui_spawn' }>): BridgeInternalResponse {
+    try {
+      const { panelId, reused } = this.getPanelManager().spawn(connectionId, command.payload);
+
+      this.safetyGuard.logOperation('bridge_ui_spawn', {
+        commandId: command.id,
+        connectionId,
+        panelId,
+        panelType: command.payload.panelType,
+        reused
+      });
+
+      return {
+        id: command.id,
+        success: true,
+        data: { panelId, panelType: command.payload.panelType, reused },
+        timestamp: Date.now()
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        id: command.id,
+        success: false,
+        error: `UI spawn failed: ${errorMsg}`,
+        timestamp: Date.now()
+      };
+    }
+  }
+
+  private getPanelManager(): BridgePanelManager {
+    if (!this.panels) {
+      this.panels = new BridgePanelManager(event => this.sendUIEvent(event));
+    }
+    return this.panels;
+  }
+
+  // Panel interactions go to the connection that spawned the panel; they are dropped once it is gone
+  private sendUIEvent(event: BridgePanelEvent): void {
+    const connection = this.getConnection(event.connectionId);
+    if (!connection) {
+      return;
+    }
+
+    this.safetyGuard.logOperation('bridge_ui_event', {
+      connectionId: event.connectionId,
+      panelId: event.panelId,
+      action: event.action
+    });
+
+    const payload: UIEventMessage['payload'] = {
+      panelId: event.panelId,
+      panelType: event.panelType,
+      action: event.action,
+      value: event.value
+    };
+    if (connection.protocol === 'legacy') {
+      this.sendMessage(event.connectionId, { type: 'ui_event', data: { ...payload, timestamp: Date.now() } });
+      return;
+    }
+
+    const message: UIEventMessage = {
+      ...createEnvelope('UI_EVENT', uuidv4(), this.getSessionId(connection)),
+      payload
+    };
+    this.sendMessage(event.connectionId, message);
+  }
+
+  // Renames and moves may take whole directories along, so the source and destination are both checked
+  // Renames are checked at both ends by checkRenameTargets instead
+  private async checkFileOperationPermission(operation: FileOperationPayload['operation'], path: string): Promise<void> {
+    const permission = CONTENT_WRITE_OPERATIONS.includes(operation) ? CONTENT_WRITE_PERMISSION : operation;
+    if (!await this.safetyGuard.checkPermission(permission, path)) {
+      throw new CommandRefusedError('PERMISSION_DENIED', 'Operation not permitted by safety guard');
+    }
+  }
+
+  private async checkRenameTargets(path: string, newPath: string | undefined): Promise<void> {
+    if (typeof newPath !== 'string' || !isAbsolutePath(newPath)) {
+      throw new Error('Rename requires an absolute newPath');
+    }
+    if (normalizePath(newPath) === normalizePath(path)) {
+      throw new Error('Rename destination is the same as the source');
+    }
+
+    for (const target of [path, newPath]) {
+      if (!await this.safetyGuard.checkPermission(RENAME_PERMISSION, target)) {
+        throw new CommandRefusedError('PERMISSION_DENIED', `Rename involving ${target} not permitted by safety guard`);
+      }
+    }
+
+    if (!await this.uriExists(vscode.Uri.file(path))) {
+      throw new Error(`Rename source does not exist: ${path}`);
+    }
+    if (await this.uriExists(vscode.Uri.file(newPath))) {
+      throw new Error(`Rename destination already exists: ${newPath}`);
+    }
+  }
+
+  // Failed hunks are reported per hunk in `data` so the client can rebase and retry
+  private async handleFilePatch(command: Extract<BridgeInternalCommand, { type: 'file_operation' }>): Promise<BridgeInternalResponse> {
+    const { path, diff, edits } = command.payload;
+    const result = await this.applyFilePatch(path, { diff, edits });
+    const failed = result.results.filter(entry => !entry.applied);
+
+    this.safetyGuard.logOperation('bridge_file_operation', {
+      commandId: command.id,
+      operation: 'patch',
+      path,
+      success: result.success,
+      hunks: result.results.length,
+      failedHunks: failed.length
+    });
+
+    if (!result.success) {
+      return {
+        id: command.id,
+        success: false,
+        data: result,
+        error: failed.length > 0
+          ? `Patch does not apply: ${failed.map(entry => entry.error).join('; ')}`
+          : 'Patch could not be applied to the document',
+        errorCode: failed.length > 0 ? 'VALIDATION_ERROR' : undefined,
+        timestamp: Date.now()
+      };
+    }
+
+    return {
+      id: command.id,
+      success: true,
+      data: result,
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Matches the patch against the live document, including unsaved changes, and applies every
+   * replacement as one edit. Nothing is changed when any hunk or range edit does not match.
+   */
+  private async applyFilePatch(path: string, request: PatchRequest): Promise<FilePatchResponseData> {
+    const uri = vscode.Uri.file(path);
+    const document = await vscode.workspace.openTextDocument(uri);
+    const plan = planPatch(document.getText(), request);
+
+    if (!plan.applied) {
+      return { success: false, path, operation: 'patch', results: plan.results };
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const replacement of plan.replacements) {
+      edit.replace(
+        uri,
+        new vscode.Range(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+        replacement.text
+      );
+    }
+
+    const success = await vscode.workspace.applyEdit(edit);
+    return { success, path, operation: 'patch', results: plan.results };
+  }
+
+  private async executeFileOperation(operation: string, path: string, content?: string, newPath?: string): Promise<any> {
     const uri = vscode.Uri.file(path);
     const edit = new vscode.WorkspaceEdit();
 
@@ -1261,6 +3506,16 @@ export class TUIVSCodeBridge {
         edit.deleteFile(uri);
         break;
 
+      case 'rename': {
+        if (!newPath) {
+          throw new Error('newPath required for rename operation');
+        }
+        // Applied as a workspace edit so rename participants, e.g. import updates, run as well
+        edit.renameFile(uri, vscode.Uri.file(newPath), { overwrite: false });
+        const renamed = await vscode.workspace.applyEdit(edit);
+        return { success: renamed, path, newPath, operation };
+      }
+
       default:
         throw new Error(`Unknown file operation: ${operation}`);
     }
@@ -1322,17 +3577,70 @@ export class TUIVSCodeBridge {
     };
   }
 
-  private async requestUserApproval(operation: string, path: string, content?: string): Promise<boolean> {
-    const message = `TUI Bridge wants to ${operation} file: ${path}`;
+  private async requestUserApproval(message: string, detail?: string): Promise<boolean> {
     const choice = await vscode.window.showWarningMessage(
       message,
-      { modal: true },
+      { modal: true, detail },
       'Allow',
       'Deny'
     );
     return choice === 'Allow';
   }
 
+  /**
+   * Asks for approval of a file operation by showing the current content against the proposed
+   * content in a diff editor, with the SafetyGuard's warnings for the proposed content.
+   */
+  private async requestFileApproval(payload: FileOperationPayload): Promise<FileApprovalResult> {
+    const { operation, path, newPath } = payload;
+    if (operation === 'rename' || operation === 'read') {
+      const target = operation === 'rename' ? `${path} to ${newPath}` : path;
+      return { approved: await this.requestUserApproval(`TUI Bridge wants to ${operation} ${target}`) };
+    }
+
+    const uri = vscode.Uri.file(path);
+    const exists = await this.uriExists(uri);
+    const currentContent = exists ? (await vscode.workspace.openTextDocument(uri)).getText() : '';
+    let proposedContent = payload.content ?? '';
+
+    if (operation === 'delete') {
+      proposedContent = '';
+    } else if (operation === 'patch') {
+      const plan = planPatch(currentContent, { diff: payload.diff, edits: payload.edits });
+      if (!plan.applied) {
+        // Nothing will change; handleFilePatch reports the hunks that did not match
+        return { approved: true };
+      }
+      proposedContent = applyReplacements(currentContent, plan.replacements);
+    }
+
+    const warnings = operation === 'delete' ? [] : this.safetyGuard.analyzeSafetyRisks(path, proposedContent);
+    const result = await this.getApprovalDiff().requestApproval({
+      operation,
+      path,
+      currentContent,
+      proposedContent,
+      warnings,
+      allowEdits: operation !== 'delete'
+    });
+
+    this.safetyGuard.logOperation('bridge_file_approval', {
+      operation,
+      path,
+      approved: result.approved,
+      edited: result.content !== undefined && result.content !== proposedContent,
+      warnings
+    });
+    return result;
+  }
+
+  private getApprovalDiff(): FileApprovalDiff {
+    if (!this.approvalDiff) {
+      this.approvalDiff = new FileApprovalDiff();
+    }
+    return this.approvalDiff;
+  }
+
   private getAvailableCapabilities(safetyPhase?: number): string[] {
     const phase = safetyPhase || this.configManager.getConfiguration().safetyPhase;
     const capabilities: string[] = ['workspace_query', 'context_request'];
@@ -1363,13 +3671,170 @@ export class TUIVSCodeBridge {
       for (const [connectionId, connection] of this.connections) {
         if (now - connection.lastHeartbeat > timeout) {
           console.log(`Connection ${connectionId} timed out, closing`);
-          connection.socket.close(1000, 'Heartbeat timeout');
-          this.connections.delete(connectionId);
+          connection.socket?.close(1000, 'Heartbeat timeout');
+          this.removeConnection(connectionId);
         }
       }
     }, interval);
   }
 
+  private createCircuitBreakers(): CircuitBreakerRegistry {
+    const config = this.configManager.getConfiguration();
+    return new CircuitBreakerRegistry(
+      {
+        failureThreshold: config.bridgeCommandBreakerThreshold || 5,
+        cooldownMs: config.bridgeCommandBreakerCooldown || 30000
+      },
+      {
+        failureThreshold: config.bridgeConnectionBreakerThreshold || 20,
+        cooldownMs: config.bridgeConnectionBreakerCooldown || 60000
+      }
+    );
+  }
+
+  // Breakers track the operation a command performs, not just its type
+  private getCircuitKey(command: BridgeInternalCommand): string {
+    switch (command.type) {
+      case 'workspace_query':
+        return `workspace_query:${command.payload?.queryType || 'basic'}`;
+      case 'file_operation':
+        return `file_operation:${command.payload?.operation}`;
+      case 'file_transfer':
+        return `file_transfer:${command.payload?.action}`;
+      case 'ui_spawn':
+        return `ui_spawn:${command.payload?.panelType}`;
+      case 'code_query':
+        return `code_query:${command.payload?.queryType}`;
+      case 'editor_control':
+        return `editor_control:${command.payload?.action}`;
+      case 'run_task':
+        return `run_task:${command.payload?.command ?? command.payload?.taskName}`;
+      case 'run_tests':
+        return `run_tests:${command.payload?.runner ?? 'detected'}`;
+      case 'command_execution':
+        return `command_execution:${command.payload?.commandName}`;
+      case 'context_request':
+        return `context_request:${command.payload?.contextType}`;
+      default:
+        return command.type;
+    }
+  }
+
+  private recordCircuitResult(connectionId: string, circuitKey: string, response: BridgeInternalResponse, cancelled: boolean): void {
+    // A cancelled or refused command says nothing about the health of the operation
+    if (cancelled || (response.errorCode && CIRCUIT_NEUTRAL_ERRORS.includes(response.errorCode))) {
+      this.circuitBreakers.release(connectionId, circuitKey);
+      return;
+    }
+
+    if (response.success) {
+      this.circuitBreakers.recordSuccess(connectionId, circuitKey);
+      return;
+    }
+
+    const opened = this.circuitBreakers.recordFailure(connectionId, circuitKey, response.error || 'Unknown error');
+    for (const breaker of opened) {
+      this.safetyGuard.logOperation('bridge_circuit_breaker_open', {
+        connectionId,
+        scope: breaker.scope,
+        command: circuitKey,
+        failures: breaker.failures,
+        lastError: breaker.lastError,
+        retryAt: breaker.retryAt
+      });
+    }
+  }
+
+  /**
+   * Circuit breakers that are currently open or half-open.
+   */
+  getCircuitBreakers(): CircuitBreakerSnapshot[] {
+    return this.circuitBreakers.getTrippedBreakers();
+  }
+
+  private removeConnection(connectionId: string): void {
+    if (!this.connections.delete(connectionId)) {
+      return;
+    }
+    this.subscriptions.removeConnection(connectionId);
+    this.circuitBreakers.removeConnection(connectionId);
+    this.abortInFlightCommands(connectionId);
+    this.sessionsChangeEmitter.fire();
+  }
+
+  // Connected TUI sessions; one-shot HTTP requests are not listed
+  getSessions(): BridgeSessionInfo[] {
+    const transport = this.endpoint?.transport ?? 'websocket';
+    return Array.from(this.connections.values()).map(connection => {
+      const clientInfo = connection.tokenPayload?.clientInfo ?? connection.clientInfo;
+      return {
+        connectionId: connection.id,
+        sessionId: connection.tokenPayload?.sessionId,
+        authenticated: connection.authenticated,
+        clientName: clientInfo?.name,
+        clientVersion: clientInfo?.version,
+        platform: clientInfo?.platform,
+        clientIP: connection.clientIP,
+        transport,
+        connectedAt: connection.connectedAt,
+        lastHeartbeat: connection.lastHeartbeat,
+        messagesReceived: connection.messagesReceived,
+        messagesSent: connection.messagesSent,
+        protocolVersion: connection.negotiated?.version,
+        safetyPhase: connection.tokenPayload?.safetyPhase
+      };
+    });
+  }
+
+  disconnectSession(connectionId: string, reason: string = 'Disconnected by user'): boolean {
+    const connection = this.connections.get(connectionId);
+    if (!connection) {
+      return false;
+    }
+
+    connection.socket?.close(1000, reason);
+    this.removeConnection(connectionId);
+    this.safetyGuard.logOperation('bridge_session_disconnected', {
+      connectionId,
+      sessionId: connection.tokenPayload?.sessionId,
+      remoteAddress: connection.clientIP,
+      reason
+    });
+    return true;
+  }
+
+  // Revokes the token the session authenticated with and closes every session using it
+  revokeSessionToken(connectionId: string, reason: string = 'Revoked from sessions view'): boolean {
+    const token = this.connections.get(connectionId)?.token;
+    if (!token) {
+      return false;
+    }
+
+    this.authManager.revokeToken(token, reason);
+    for (const connection of Array.from(this.connections.values())) {
+      if (connection.token === token) {
+        this.disconnectSession(connection.id, 'Token revoked');
+      }
+    }
+    return true;
+  }
+
+  // Blocks the session's address and closes every session from it; returns the blocked address
+  blockSessionIP(connectionId: string, reason: string = 'Blocked from sessions view'): string | null {
+    const clientIP = this.connections.get(connectionId)?.clientIP;
+    if (!clientIP) {
+      return null;
+    }
+
+    this.authManager.blockIP(clientIP, reason);
+    for (const connection of Array.from(this.connections.values())) {
+      if (connection.clientIP === clientIP) {
+        this.disconnectSession(connection.id, 'Address blocked');
+      }
+    }
+    return clientIP;
+  }
+
   private handleHeartbeat(connectionId: string): void {
     const connection = this.connections.get(connectionId);
     if (connection) {
@@ -1377,20 +3842,65 @@ export class TUIVSCodeBridge {
     }
   }
 
-  private sendMessage(connectionId: string, message: BridgeMessage): void {
-    const connection = this.connections.get(connectionId);
-    if (connection && connection.socket.readyState === WebSocket.OPEN) {
+  private sendMessage(connectionId: string, message: OutboundMessage): void {
+    const connection = this.getConnection(connectionId);
+    if (connection?.deliver) {
+      connection.deliver(message);
+      connection.messagesSent++;
+    } else if (connection?.socket?.readyState === WebSocket.OPEN) {
       connection.socket.send(JSON.stringify(message));
+      connection.messagesSent++;
     }
   }
 
-  private sendErrorResponse(connectionId: string, commandId: string, error: string): void {
-    this.sendMessage(connectionId, {
-      id: commandId,
-      success: false,
-      error,
-      timestamp: Date.now()
-    });
+  private getConnection(connectionId: string): BridgeConnection | undefined {
+    return this.connections.get(connectionId) ?? this.httpConnections.get(connectionId);
+  }
+
+  private getSessionId(connection: BridgeConnection): string {
+    return connection.tokenPayload?.sessionId || connection.id;
+  }
+
+  private sendResponse(connectionId: string, response: BridgeInternalResponse): void {
+    const connection = this.getConnection(connectionId);
+    if (!connection) {
+      return;
+    }
+
+    const message = connection.protocol === 'legacy' ? response : toCommandResponse(response, this.getSessionId(connection));
+
+    // Clients may rely on the advertised maxMessageSize, so oversized results are replaced by an error
+    const size = Buffer.byteLength(JSON.stringify(message));
+    if (size > MAX_MESSAGE_SIZE) {
+      this.sendErrorResponse(
+        connectionId,
+        response.id,
+        `Response of ${size} bytes exceeds the ${MAX_MESSAGE_SIZE} byte message limit; use file_transfer for large files`,
+        'MESSAGE_TOO_LARGE',
+        { size, maxMessageSize: MAX_MESSAGE_SIZE }
+      );
+      return;
+    }
+
+    this.sendMessage(connectionId, message);
+  }
+
+  private sendErrorResponse(connectionId: string, commandId: string, error: string, code: BridgeErrorCode, details?: object): void {
+    const connection = this.getConnection(connectionId);
+    if (!connection) {
+      return;
+    }
+
+    if (connection.protocol === 'legacy') {
+      this.sendMessage(connectionId, {
+        id: commandId,
+        success: false,
+        error,
+        timestamp: Date.now()
+      });
+    } else {
+      this.sendMessage(connectionId, createBridgeError(commandId, this.getSessionId(connection), code, error, true, details));
+    }
   }
 
   private handleServerError(error: Error): void {
@@ -1405,6 +3915,11 @@ export class TUIVSCodeBridge {
     );
   }
 
+  // Where the running bridge accepts connections; null while stopped
+  getEndpoint(): BridgeEndpoint | null {
+    return this.endpoint ? { ...this.endpoint } : null;
+  }
+
   isConnected(): boolean {
     return this.isActive && this.connections.size > 0;
   }
@@ -1417,6 +3932,10 @@ export class TUIVSCodeBridge {
     try {
       this.stop().catch(error => {
         console.error('Error stopping bridge during disposal:', error);
+      }).finally(() => {
+        this.sessionsChangeEmitter.dispose();
+        this.approvalDiff?.dispose();
+        this.highlighter?.dispose();
       });
     } catch (error) {
       // Ignore disposal errors that can occur when the VS Code disposable store is already disposed
@@ -0,0 +1,150 @@
+import { v4 as uuidv4 } from 'uuid';
+import { WorkspaceUpdateType } from './TUIVSCodeBridge';
+import { globToRegExp, matchesGlob } from '../utils/globMatcher';
+
+export interface SubscribePayload {
+  subscriptionId?: string; // Reuse an id to replace an existing subscription's filters
+  eventTypes?: WorkspaceUpdateType[];
+  paths?: string[]; // Glob patterns, matched against absolute and workspace-relative paths
+  languages?: string[]; // VS Code language ids
+}
+
+export interface UnsubscribePayload {
+  subscriptionId?: string; // Omit to remove every subscription of the connection
+}
+
+export interface WorkspaceSubscription {
+  id: string;
+  eventTypes: WorkspaceUpdateType[];
+  paths: string[];
+  languages: string[];
+  createdAt: number;
+}
+
+// What a single workspace update is matched on
+export interface WorkspaceEventTarget {
+  type: WorkspaceUpdateType;
+  paths: string[];
+  languageId?: string | null;
+}
+
+const WORKSPACE_UPDATE_TYPES: WorkspaceUpdateType[] = ['file_change', 'active_editor_change', 'workspace_change', 'git_change', 'diagnostics_change'];
+
+export class WorkspaceSubscriptionRegistry {
+  private subscriptions = new Map<string, Map<string, WorkspaceSubscription>>();
+  private maxSubscriptionsPerConnection: number;
+
+  constructor(maxSubscriptionsPerConnection = 20) {
+    this.maxSubscriptionsPerConnection = maxSubscriptionsPerConnection;
+  }
+
+  subscribe(connectionId: string, payload: SubscribePayload): WorkspaceSubscription {
+    const eventTypes = payload.eventTypes ?? [];
+    const paths = payload.paths ?? [];
+    const languages = payload.languages ?? [];
+
+    const invalidTypes = eventTypes.filter(type => !WORKSPACE_UPDATE_TYPES.includes(type));
+    if (invalidTypes.length > 0) {
+      throw new Error(`Unknown event types: ${invalidTypes.join(', ')}. Must be from: ${WORKSPACE_UPDATE_TYPES.join(', ')}`);
+    }
+
+    for (const pattern of paths) {
+      if (typeof pattern !== 'string' || pattern.length === 0) {
+        throw new Error('Path filters must be non-empty glob strings');
+      }
+      try {
+        globToRegExp(pattern);
+      } catch {
+        throw new Error(`Invalid path glob: ${pattern}`);
+      }
+    }
+
+    if (!languages.every(language => typeof language === 'string')) {
+      throw new Error('Language filters must be strings');
+    }
+
+    let connectionSubscriptions = this.subscriptions.get(connectionId);
+    if (!connectionSubscriptions) {
+      connectionSubscriptions = new Map();
+      this.subscriptions.set(connectionId, connectionSubscriptions);
+    }
+
+    const id = payload.subscriptionId || uuidv4();
+    if (!connectionSubscriptions.has(id) && connectionSubscriptions.size >= this.maxSubscriptionsPerConnection) {
+      throw new Error(`Subscription limit reached (${this.maxSubscriptionsPerConnection} per connection)`);
+    }
+
+    const subscription: WorkspaceSubscription = {
+      id,
+      eventTypes: [...eventTypes],
+      paths: [...paths],
+      languages: [...languages],
+      createdAt: Date.now()
+    };
+    connectionSubscriptions.set(id, subscription);
+
+    return subscription;
+  }
+
+  unsubscribe(connectionId: string, subscriptionId?: string): string[] {
+    const connectionSubscriptions = this.subscriptions.get(connectionId);
+    if (!connectionSubscriptions) {
+      return [];
+    }
+
+    if (!subscriptionId) {
+      const removed = Array.from(connectionSubscriptions.keys());
+      connectionSubscriptions.clear();
+      return removed;
+    }
+
+    return connectionSubscriptions.delete(subscriptionId) ? [subscriptionId] : [];
+  }
+
+  /**
+   * Returns the ids of the connection's subscriptions matching the event, or null when the
+   * connection has never subscribed (such connections keep receiving every update).
+   */
+  match(connectionId: string, target: WorkspaceEventTarget): string[] | null {
+    const connectionSubscriptions = this.subscriptions.get(connectionId);
+    if (!connectionSubscriptions) {
+      return null;
+    }
+
+    const matched: string[] = [];
+    for (const subscription of connectionSubscriptions.values()) {
+      if (this.matchesSubscription(subscription, target)) {
+        matched.push(subscription.id);
+      }
+    }
+    return matched;
+  }
+
+  getSubscriptions(connectionId: string): WorkspaceSubscription[] {
+    return Array.from(this.subscriptions.get(connectionId)?.values() ?? []);
+  }
+
+  removeConnection(connectionId: string): void {
+    this.subscriptions.delete(connectionId);
+  }
+
+  clear(): void {
+    this.subscriptions.clear();
+  }
+
+  private matchesSubscription(subscription: WorkspaceSubscription, target: WorkspaceEventTarget): boolean {
+    if (subscription.eventTypes.length > 0 && !subscription.eventTypes.includes(target.type)) {
+      return false;
+    }
+
+    if (subscription.languages.length > 0 && (!target.languageId || !subscription.languages.includes(target.languageId))) {
+      return false;
+    }
+
+    if (subscription.paths.length > 0) {
+      return target.paths.some(filePath => subscription.paths.some(pattern => matchesGlob(filePath, pattern)));
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,209 @@
+import type * as vscode from 'vscode';
+import { Range } from './types';
+
+/**
+ * Plain JSON shapes for the results of VS Code's language provider commands
+ * (vscode.executeDocumentSymbolProvider and friends), as returned by the code_query command.
+ */
+
+export type CodeQueryType = 'document_symbols' | 'workspace_symbols' | 'definition' | 'references' | 'hover' | 'call_hierarchy';
+
+export type CallHierarchyDirection = 'incoming' | 'outgoing' | 'both';
+
+export interface CodeQueryPayload {
+  queryType: CodeQueryType;
+  path?: string; // Every query except workspace_symbols
+  position?: { line: number; character: number }; // Zero-based; definition, references, hover, call_hierarchy
+  query?: string; // workspace_symbols
+  direction?: CallHierarchyDirection; // call_hierarchy, defaults to incoming
+  limit?: number; // workspace_symbols, definition, references
+}
+
+export interface CodeLocation {
+  path: string;
+  range: Range;
+}
+
+export interface CodeSymbol {
+  name: string;
+  kind: string;
+  detail?: string;
+  range: Range;
+  selectionRange: Range;
+  children: CodeSymbol[];
+}
+
+export interface CodeSymbolMatch {
+  name: string;
+  kind: string;
+  containerName?: string;
+  location: CodeLocation;
+}
+
+export interface CodeHover {
+  contents: string[]; // Markdown
+  range?: Range;
+}
+
+export interface CallHierarchyNode {
+  name: string;
+  kind: string;
+  detail?: string;
+  path: string;
+  range: Range;
+  selectionRange: Range;
+}
+
+// For incoming calls `item` is the caller and `ranges` are in the caller;
+// for outgoing calls `item` is the callee and `ranges` are in the queried item
+export interface CallHierarchyCall {
+  item: CallHierarchyNode;
+  ranges: Range[];
+}
+
+export interface CallHierarchyEntry {
+  item: CallHierarchyNode;
+  incoming?: CallHierarchyCall[];
+  outgoing?: CallHierarchyCall[];
+}
+
+export type CodeQueryResult =
+  | { queryType: 'document_symbols'; path: string; symbols: CodeSymbol[] }
+  | { queryType: 'workspace_symbols'; query: string; symbols: CodeSymbolMatch[]; total: number; truncated: boolean }
+  | { queryType: 'definition' | 'references'; path: string; position: CodeQueryPayload['position']; locations: CodeLocation[]; total: number; truncated: boolean }
+  | { queryType: 'hover'; path: string; position: CodeQueryPayload['position']; hovers: CodeHover[] }
+  | { queryType: 'call_hierarchy'; path: string; position: CodeQueryPayload['position']; items: CallHierarchyEntry[] };
+
+export const CODE_QUERY_TYPES: ReadonlyArray<CodeQueryType> = ['document_symbols', 'workspace_symbols', 'definition', 'references', 'hover', 'call_hierarchy'];
+
+export const DEFAULT_CODE_QUERY_LIMIT = 200;
+
+const POSITION_QUERIES: ReadonlyArray<CodeQueryType> = ['definition', 'references', 'hover', 'call_hierarchy'];
+
+// Indexed by vscode.SymbolKind (File = 0 ... TypeParameter = 25)
+const SYMBOL_KINDS = [
+  'file', 'module', 'namespace', 'package', 'class', 'method', 'property', 'field', 'constructor',
+  'enum', 'interface', 'function', 'variable', 'constant', 'string', 'number', 'boolean', 'array',
+  'object', 'key', 'null', 'enumMember', 'struct', 'event', 'operator', 'typeParameter'
+];
+
+export function validateCodeQuery(payload: CodeQueryPayload): void {
+  if (!payload || !CODE_QUERY_TYPES.includes(payload.queryType)) {
+    throw new Error(`queryType must be one of ${CODE_QUERY_TYPES.join(', ')}`);
+  }
+  if (payload.queryType === 'workspace_symbols') {
+    if (typeof payload.query !== 'string') {
+      throw new Error('workspace_symbols requires a query string');
+    }
+  } else if (typeof payload.path !== 'string' || payload.path.length === 0) {
+    throw new Error(`${payload.queryType} requires a path`);
+  }
+  if (POSITION_QUERIES.includes(payload.queryType)) {
+    const position = payload.position;
+    if (!position || !isNonNegativeInteger(position.line) || !isNonNegativeInteger(position.character)) {
+      throw new Error(`${payload.queryType} requires a zero-based position with line and character`);
+    }
+  }
+  if (payload.direction !== undefined && !['incoming', 'outgoing', 'both'].includes(payload.direction)) {
+    throw new Error('direction must be incoming, outgoing or both');
+  }
+  if (payload.limit !== undefined && (!Number.isInteger(payload.limit) || payload.limit < 1)) {
+    throw new Error('limit must be a positive integer');
+  }
+}
+
+export function symbolKindName(kind: vscode.SymbolKind): string {
+  return SYMBOL_KINDS[kind] ?? 'unknown';
+}
+
+export function toRange(range: vscode.Range): Range {
+  return {
+    start: { line: range.start.line, character: range.start.character },
+    end: { line: range.end.line, character: range.end.character }
+  };
+}
+
+// Definition providers may answer with either Locations or LocationLinks
+export function toCodeLocation(location: vscode.Location | vscode.LocationLink): CodeLocation {
+  if ('targetUri' in location) {
+    return { path: location.targetUri.fsPath, range: toRange(location.targetSelectionRange ?? location.targetRange) };
+  }
+  return { path: location.uri.fsPath, range: toRange(location.range) };
+}
+
+// Document symbol providers return either a DocumentSymbol tree or a flat SymbolInformation list
+export function toCodeSymbols(symbols: ReadonlyArray<vscode.DocumentSymbol | vscode.SymbolInformation>): CodeSymbol[] {
+  return symbols.map(symbol => {
+    if ('location' in symbol) {
+      const range = toRange(symbol.location.range);
+      return { name: symbol.name, kind: symbolKindName(symbol.kind), range, selectionRange: range, children: [] };
+    }
+    return {
+      name: symbol.name,
+      kind: symbolKindName(symbol.kind),
+      detail: symbol.detail || undefined,
+      range: toRange(symbol.range),
+      selectionRange: toRange(symbol.selectionRange),
+      children: toCodeSymbols(symbol.children ?? [])
+    };
+  });
+}
+
+export function toCodeSymbolMatch(symbol: vscode.SymbolInformation): CodeSymbolMatch {
+  return {
+    name: symbol.name,
+    kind: symbolKindName(symbol.kind),
+    containerName: symbol.containerName || undefined,
+    location: toCodeLocation(symbol.location)
+  };
+}
+
+export function toCodeHover(hover: vscode.Hover): CodeHover {
+  return {
+    contents: hover.contents.map(content => {
+      if (typeof content === 'string') {
+        return content;
+      }
+      // A MarkedString code block has a language; a MarkdownString does not
+      return 'language' in content ? `\`\`\`${content.language}\n${content.value}\n\`\`\`` : content.value;
+    }).filter(text => text.length > 0),
+    range: hover.range ? toRange(hover.range) : undefined
+  };
+}
+
+export function toCallHierarchyNode(item: vscode.CallHierarchyItem): CallHierarchyNode {
+  return {
+    name: item.name,
+    kind: symbolKindName(item.kind),
+    detail: item.detail || undefined,
+    path: item.uri.fsPath,
+    range: toRange(item.range),
+    selectionRange: toRange(item.selectionRange)
+  };
+}
+
+export function toIncomingCalls(calls: ReadonlyArray<vscode.CallHierarchyIncomingCall>): CallHierarchyCall[] {
+  return calls.map(call => ({ item: toCallHierarchyNode(call.from), ranges: call.fromRanges.map(toRange) }));
+}
+
+export function toOutgoingCalls(calls: ReadonlyArray<vscode.CallHierarchyOutgoingCall>): CallHierarchyCall[] {
+  return calls.map(call => ({ item: toCallHierarchyNode(call.to), ranges: call.fromRanges.map(toRange) }));
+}
+
+// Drops duplicate locations, which providers report when several of them answer for one file
+export function uniqueLocations(locations: CodeLocation[]): CodeLocation[] {
+  const seen = new Set<string>();
+  return locations.filter(location => {
+    const { start, end } = location.range;
+    const key = [location.path, start.line, start.character, end.line, end.character].join(':');
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
@@ -0,0 +1,124 @@
+import type * as vscode from 'vscode';
+import { DiagnosticInfo } from './types';
+import { matchesGlob } from '../utils/globMatcher';
+
+export type DiagnosticSeverityName = DiagnosticInfo['severity'];
+
+export interface DiagnosticsFilter {
+  path?: string; // A single file, compared exactly
+  paths?: string[]; // Glob patterns matched against absolute file paths
+  severities?: DiagnosticSeverityName[];
+  sources?: string[]; // e.g. 'ts', 'eslint'; compared case-insensitively
+  limit?: number;
+}
+
+export interface DiagnosticsQueryResult {
+  diagnostics: DiagnosticInfo[];
+  total: number; // Matching diagnostics before the limit was applied
+  counts: Record<DiagnosticSeverityName, number>;
+  truncated: boolean;
+}
+
+export interface DiagnosticsDelta {
+  added: DiagnosticInfo[];
+  removed: DiagnosticInfo[];
+}
+
+export const DIAGNOSTIC_SEVERITIES: ReadonlyArray<DiagnosticSeverityName> = ['error', 'warning', 'info', 'hint'];
+
+export const DEFAULT_DIAGNOSTICS_LIMIT = 500;
+
+// Indexed by vscode.DiagnosticSeverity (Error = 0 ... Hint = 3)
+const SEVERITY_NAMES: DiagnosticSeverityName[] = ['error', 'warning', 'info', 'hint'];
+
+export function toDiagnosticInfo(file: string, diagnostic: vscode.Diagnostic): DiagnosticInfo {
+  const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+  return {
+    file,
+    range: {
+      start: { line: diagnostic.range.start.line, character: diagnostic.range.start.character },
+      end: { line: diagnostic.range.end.line, character: diagnostic.range.end.character }
+    },
+    message: diagnostic.message,
+    severity: SEVERITY_NAMES[diagnostic.severity] ?? 'info',
+    source: diagnostic.source ?? '',
+    code: code === undefined ? undefined : String(code)
+  };
+}
+
+export function validateDiagnosticsFilter(filter: DiagnosticsFilter): void {
+  const invalid = (filter.severities ?? []).filter(severity => !DIAGNOSTIC_SEVERITIES.includes(severity));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown severities: ${invalid.join(', ')}. Must be from: ${DIAGNOSTIC_SEVERITIES.join(', ')}`);
+  }
+  if (filter.limit !== undefined && (!Number.isInteger(filter.limit) || filter.limit < 1)) {
+    throw new Error('limit must be a positive integer');
+  }
+}
+
+// Errors first, then by file and position, so a limit keeps the most severe diagnostics
+export function queryDiagnostics(all: DiagnosticInfo[], filter: DiagnosticsFilter = {}): DiagnosticsQueryResult {
+  validateDiagnosticsFilter(filter);
+  const sources = filter.sources?.map(source => source.toLowerCase());
+
+  const matching = all.filter(diagnostic =>
+    (!filter.path || diagnostic.file === filter.path) &&
+    (!filter.paths?.length || filter.paths.some(pattern => matchesGlob(diagnostic.file, pattern))) &&
+    (!filter.severities?.length || filter.severities.includes(diagnostic.severity)) &&
+    (!sources?.length || sources.includes(diagnostic.source.toLowerCase()))
+  );
+  matching.sort((a, b) =>
+    SEVERITY_NAMES.indexOf(a.severity) - SEVERITY_NAMES.indexOf(b.severity) ||
+    a.file.localeCompare(b.file) ||
+    a.range.start.line - b.range.start.line ||
+    a.range.start.character - b.range.start.character
+  );
+
+  const counts: Record<DiagnosticSeverityName, number> = { error: 0, warning: 0, info: 0, hint: 0 };
+  matching.forEach(diagnostic => counts[diagnostic.severity]++);
+
+  const limit = filter.limit ?? DEFAULT_DIAGNOSTICS_LIMIT;
+  return {
+    diagnostics: matching.slice(0, limit),
+    total: matching.length,
+    counts,
+    truncated: matching.length > limit
+  };
+}
+
+// Compares one file's diagnostics before and after a change; unchanged entries are left out
+export function diffDiagnostics(previous: DiagnosticInfo[], current: DiagnosticInfo[]): DiagnosticsDelta {
+  const remaining = new Map<string, number>();
+  previous.forEach(diagnostic => {
+    const key = diagnosticKey(diagnostic);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  });
+
+  const added: DiagnosticInfo[] = [];
+  for (const diagnostic of current) {
+    const key = diagnosticKey(diagnostic);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+    } else {
+      added.push(diagnostic);
+    }
+  }
+
+  const removed: DiagnosticInfo[] = [];
+  for (const diagnostic of previous) {
+    const key = diagnosticKey(diagnostic);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      removed.push(diagnostic);
+    }
+  }
+
+  return { added, removed };
+}
+
+function diagnosticKey(diagnostic: DiagnosticInfo): string {
+  const { start, end } = diagnostic.range;
+  return [diagnostic.severity, diagnostic.source, diagnostic.code ?? '', start.line, start.character, end.line, end.character, diagnostic.message].join('\u0000');
+}
@@ -0,0 +1,89 @@
+import { Range } from './types';
+
+export type EditorControlAction = 'open' | 'reveal' | 'select' | 'highlight' | 'clear_highlights';
+
+export interface EditorControlPayload {
+  action: EditorControlAction;
+  path?: string; // Every action except clear_highlights
+  position?: { line: number; character: number }; // Zero-based; shorthand for an empty range
+  range?: Range;
+  ranges?: Range[]; // select: one selection per range, the first is primary; highlight: every range
+  hoverMessage?: string; // highlight: markdown shown when hovering a highlighted range
+  highlightId?: string; // highlight: reusing an id replaces that highlight; clear_highlights: the one to clear
+  durationMs?: number; // highlight: 0 keeps it until cleared
+  preserveFocus?: boolean;
+}
+
+export interface EditorControlResult {
+  action: EditorControlAction;
+  path?: string;
+  selections?: Range[];
+  visibleRanges?: Range[];
+  highlightId?: string;
+  cleared?: number; // clear_highlights
+}
+
+export const EDITOR_CONTROL_ACTIONS: ReadonlyArray<EditorControlAction> = ['open', 'reveal', 'select', 'highlight', 'clear_highlights'];
+
+export const DEFAULT_HIGHLIGHT_DURATION_MS = 10000;
+export const MAX_HIGHLIGHT_DURATION_MS = 5 * 60 * 1000;
+export const MAX_EDITOR_RANGES = 100;
+
+// Actions that cannot do anything without a location in the file
+const RANGE_ACTIONS: ReadonlyArray<EditorControlAction> = ['reveal', 'select', 'highlight'];
+
+export function validateEditorControl(payload: EditorControlPayload): void {
+  if (!payload || !EDITOR_CONTROL_ACTIONS.includes(payload.action)) {
+    throw new Error(`action must be one of ${EDITOR_CONTROL_ACTIONS.join(', ')}`);
+  }
+  if (payload.action === 'clear_highlights') {
+    return;
+  }
+  if (typeof payload.path !== 'string' || payload.path.length === 0) {
+    throw new Error(`${payload.action} requires a path`);
+  }
+  if (payload.position !== undefined && !isPosition(payload.position)) {
+    throw new Error('position must have a zero-based line and character');
+  }
+  if (payload.range !== undefined && !isRange(payload.range)) {
+    throw new Error('range must have zero-based start and end positions');
+  }
+  if (payload.ranges !== undefined) {
+    if (!Array.isArray(payload.ranges) || !payload.ranges.every(isRange)) {
+      throw new Error('ranges must be a list of ranges with zero-based start and end positions');
+    }
+    if (payload.ranges.length > MAX_EDITOR_RANGES) {
+      throw new Error(`At most ${MAX_EDITOR_RANGES} ranges are allowed`);
+    }
+  }
+  if (RANGE_ACTIONS.includes(payload.action) && getEditorControlRanges(payload).length === 0) {
+    throw new Error(`${payload.action} requires a position, range or ranges`);
+  }
+  if (payload.durationMs !== undefined &&
+      (!Number.isInteger(payload.durationMs) || payload.durationMs < 0 || payload.durationMs > MAX_HIGHLIGHT_DURATION_MS)) {
+    throw new Error(`durationMs must be an integer from 0 to ${MAX_HIGHLIGHT_DURATION_MS}`);
+  }
+}
+
+// ranges wins over range, which wins over position
+export function getEditorControlRanges(payload: EditorControlPayload): Range[] {
+  if (payload.ranges && payload.ranges.length > 0) {
+    return payload.ranges;
+  }
+  if (payload.range) {
+    return [payload.range];
+  }
+  if (payload.position) {
+    return [{ start: payload.position, end: payload.position }];
+  }
+  return [];
+}
+
+function isRange(value: any): value is Range {
+  return !!value && isPosition(value.start) && isPosition(value.end);
+}
+
+function isPosition(value: any): boolean {
+  return !!value && Number.isInteger(value.line) && value.line >= 0 &&
+    Number.isInteger(value.character) && value.character >= 0;
+}
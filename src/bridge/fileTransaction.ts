@@ -0,0 +1,76 @@
+import * as path from 'path';
+import { FileOperation } from './types';
+
+export interface FileTransactionPayload {
+  operations: FileOperation[];
+  description?: string; // Shown in the approval prompt, e.g. "Rename UserService to AccountService"
+}
+
+export const MAX_TRANSACTION_OPERATIONS = 200;
+
+const TRANSACTION_OPERATION_TYPES: ReadonlyArray<FileOperation['type']> = ['create', 'modify', 'delete', 'rename'];
+
+/**
+ * Checks the shape of a transaction before anything touches the workspace. Each path may be
+ * touched by one operation only, so the result cannot depend on the order edits are applied in.
+ */
+export function validateFileTransaction(payload: FileTransactionPayload | undefined): FileOperation[] {
+  const operations = payload?.operations;
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new Error('operations must be a non-empty array');
+  }
+  if (operations.length > MAX_TRANSACTION_OPERATIONS) {
+    throw new Error(`A transaction may contain at most ${MAX_TRANSACTION_OPERATIONS} operations`);
+  }
+
+  const touched = new Map<string, number>();
+  const claim = (filePath: string, index: number) => {
+    const key = path.normalize(filePath);
+    const previous = touched.get(key);
+    if (previous !== undefined) {
+      throw new Error(`Operations ${previous} and ${index} both touch ${filePath}`);
+    }
+    touched.set(key, index);
+  };
+
+  return operations.map((operation, index) => {
+    if (!operation || typeof operation !== 'object') {
+      throw new Error(`Operation ${index} must be an object`);
+    }
+    if (!TRANSACTION_OPERATION_TYPES.includes(operation.type)) {
+      throw new Error(`Operation ${index} has unknown type '${operation.type}'`);
+    }
+    if (typeof operation.path !== 'string' || !path.isAbsolute(operation.path)) {
+      throw new Error(`Operation ${index} needs an absolute path`);
+    }
+    if (operation.type === 'modify' && typeof operation.content !== 'string') {
+      throw new Error(`Operation ${index} (modify) needs content`);
+    }
+    if (operation.content !== undefined && typeof operation.content !== 'string') {
+      throw new Error(`Operation ${index} content must be a string`);
+    }
+    claim(operation.path, index);
+
+    if (operation.type === 'rename') {
+      if (typeof operation.newPath !== 'string' || !path.isAbsolute(operation.newPath)) {
+        throw new Error(`Operation ${index} (rename) needs an absolute newPath`);
+      }
+      claim(operation.newPath, index);
+    }
+
+    return { type: operation.type, path: operation.path, content: operation.content, newPath: operation.newPath };
+  });
+}
+
+// One line per operation for the combined approval prompt, shortened for long transactions
+export function describeFileTransaction(operations: FileOperation[], maxLines = 15): string {
+  const lines = operations.slice(0, maxLines).map(operation =>
+    operation.type === 'rename'
+      ? `rename ${operation.path} → ${operation.newPath}`
+      : `${operation.type} ${operation.path}`
+  );
+  if (operations.length > maxLines) {
+    lines.push(`…and ${operations.length - maxLines} more`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,112 @@
+import * as http from 'http';
+import { BridgeErrorCode } from './types';
+import { BridgeInternalCommand } from './TUIVSCodeBridge';
+
+export const HTTP_COMMANDS_PATH = '/v1/commands';
+
+// Commands that only make sense on a persistent session
+export const HTTP_UNSUPPORTED_COMMANDS: ReadonlyArray<BridgeInternalCommand['type']> = [
+  'auth_request', // The bearer token authenticates every request
+  'subscribe',
+  'unsubscribe',
+  'cancel'
+];
+
+export class HttpRequestError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: BridgeErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+export function parseBearerToken(header: string | undefined): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header ?? '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Accepts every message shape the WebSocket transport does, plus the shorthand
+ * `{ command, args }` for scripts. The message id is optional over HTTP.
+ */
+export function toInboundHttpMessage(body: any, fallbackId: string): any {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpRequestError(400, 'INVALID_MESSAGE', 'Request body must be a JSON object');
+  }
+
+  const id = typeof body.id === 'string' && body.id ? body.id : fallbackId;
+  if (typeof body.type !== 'string' && typeof body.command === 'string') {
+    return {
+      id,
+      type: 'COMMAND_EXECUTE',
+      timestamp: new Date().toISOString(),
+      source: 'TUI',
+      sessionId: 'http',
+      payload: {
+        command: body.command,
+        args: body.args,
+        context: body.context,
+        safetyLevel: body.safetyLevel || 'read_only'
+      }
+    };
+  }
+  return { ...body, id };
+}
+
+export function getHttpStatus(message: any): number {
+  if (message?.type === 'ERROR') {
+    switch (message.payload?.code as BridgeErrorCode) {
+      case 'AUTH_REQUIRED':
+        return 401;
+      case 'PERMISSION_DENIED':
+        return 403;
+      case 'RATE_LIMITED':
+        return 429;
+      case 'CIRCUIT_BREAKER_OPEN':
+        return 503;
+      case 'MESSAGE_TOO_LARGE':
+        return 413;
+      case 'COMMAND_FAILED':
+        return 500;
+      default:
+        return 400;
+    }
+  }
+
+  // Formal COMMAND_RESPONSE envelopes and legacy { success } responses
+  const success = message?.type === 'COMMAND_RESPONSE' ? message.payload?.success : message?.success;
+  return success === false ? 422 : 200;
+}
+
+export function readJsonBody(request: http.IncomingMessage, maxBytes: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Keep draining so the 413 response can still be written
+        chunks.length = 0;
+        reject(new HttpRequestError(413, 'INVALID_MESSAGE', `Request body exceeds ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      if (size > maxBytes) {
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        reject(new HttpRequestError(400, 'INVALID_MESSAGE', `Invalid JSON: ${errorMsg}`));
+      }
+    });
+    request.on('error', reject);
+  });
+}
@@ -0,0 +1,112 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+
+export type BridgeTransport = 'websocket' | 'ipc';
+
+export interface BridgeEndpoint {
+  transport: BridgeTransport;
+  port?: number; // websocket transport
+  tls?: boolean; // websocket transport served as wss://
+  socketPath?: string; // ipc transport
+}
+
+export function describeBridgeEndpoint(endpoint: BridgeEndpoint): string {
+  if (endpoint.transport === 'ipc') {
+    return `socket ${endpoint.socketPath}`;
+  }
+  return endpoint.tls ? `port ${endpoint.port} (TLS)` : `port ${endpoint.port}`;
+}
+
+const PIPE_PREFIX = '\\\\.\\pipe\\';
+
+/**
+ * Per-workspace IPC endpoint. On Unix this is a socket inside a directory only the
+ * current user can enter; on Windows it is a named pipe.
+ */
+export function getDefaultIpcPath(workspaceKey: string, platform: NodeJS.Platform = process.platform): string {
+  const digest = createHash('sha256').update(workspaceKey).digest('hex').slice(0, 16);
+  if (platform === 'win32') {
+    return `${PIPE_PREFIX}automatus-bridge-${digest}`;
+  }
+  // Socket paths are limited to ~104 bytes, so stay in the short temp directory
+  return path.join(os.tmpdir(), `automatus-${getUserKey()}`, `bridge-${digest}.sock`);
+}
+
+export function isNamedPipe(socketPath: string): boolean {
+  return socketPath.startsWith(PIPE_PREFIX);
+}
+
+/**
+ * Makes a socket path safe to listen on: the parent directory must belong to us and be
+ * closed to other users, and a stale socket left by a crashed window is removed.
+ * Throws when another process is still listening on the path.
+ */
+export async function prepareIpcPath(socketPath: string): Promise<void> {
+  if (isNamedPipe(socketPath)) {
+    return;
+  }
+
+  const directory = path.dirname(socketPath);
+  await fs.mkdir(directory, { recursive: true, mode: 0o700 });
+  const stats = await fs.lstat(directory);
+  if (!stats.isDirectory() || (typeof process.getuid === 'function' && stats.uid !== process.getuid())) {
+    throw new Error(`Socket directory ${directory} is not a directory owned by the current user`);
+  }
+  if ((stats.mode & 0o077) !== 0) {
+    throw new Error(`Socket directory ${directory} is accessible to other users (mode ${(stats.mode & 0o777).toString(8)})`);
+  }
+
+  try {
+    await fs.lstat(socketPath);
+  } catch {
+    return; // Nothing left behind
+  }
+
+  if (await isListening(socketPath)) {
+    throw new Error(`Another process is already listening on ${socketPath}`);
+  }
+  await fs.unlink(socketPath);
+}
+
+/**
+ * Starts `server` on the socket path and restricts the socket to the current user.
+ * Named pipes keep their default ACL, which only grants write access to the creating
+ * user, LocalSystem and administrators.
+ */
+export async function listenOnIpcPath(server: net.Server, socketPath: string): Promise<void> {
+  await prepareIpcPath(socketPath);
+
+  await new Promise<void>((resolve, reject) => {
+    const onError = (error: Error) => reject(error);
+    server.once('error', onError);
+    server.listen(socketPath, () => {
+      server.off('error', onError);
+      resolve();
+    });
+  });
+
+  if (!isNamedPipe(socketPath)) {
+    await fs.chmod(socketPath, 0o600);
+  }
+}
+
+function isListening(socketPath: string): Promise<boolean> {
+  return new Promise(resolve => {
+    const probe = net.createConnection(socketPath);
+    probe.once('connect', () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once('error', () => resolve(false));
+  });
+}
+
+function getUserKey(): string {
+  if (typeof process.getuid === 'function') {
+    return String(process.getuid());
+  }
+  return os.userInfo().username.replace(/[^A-Za-z0-9_-]/g, '_');
+}
@@ -0,0 +1,360 @@
+/**
+ * Protocol adapter for the TUI-VSCode bridge
+ * Normalizes incoming messages (formal BridgeMessage envelopes and the legacy
+ * lowercase command shapes) and builds the formal envelopes the bridge emits.
+ */
+
+import {
+  BridgeMessage,
+  BridgeMessageType,
+  BridgeError,
+  BridgeErrorCode,
+  BridgeFeature,
+  FileChangeNotification,
+  HandshakeMessage,
+  TUICommand,
+  UISpawnRequest,
+  VSCodeResponse,
+  WorkspaceRequest
+} from './types';
+import { BridgeInternalCommand, BridgeInternalResponse } from './TUIVSCodeBridge';
+
+export type ProtocolFormat = 'formal' | 'legacy';
+
+// Protocol versions this bridge can speak, oldest first
+export const SUPPORTED_PROTOCOL_VERSIONS: ReadonlyArray<string> = ['1.0.0'];
+
+// Optional features this bridge can enable for a connection
+export const SUPPORTED_FEATURES: ReadonlyArray<BridgeFeature> = [
+  'workspace_request',
+  'file_change',
+  'subscriptions',
+  'progress',
+  'cancellation',
+  'chunked_transfer',
+  'ui_spawn'
+];
+
+// Formal message types a TUI may send to the bridge
+export const INBOUND_MESSAGE_TYPES: ReadonlyArray<BridgeMessageType> = [
+  'HANDSHAKE',
+  'WORKSPACE_REQUEST',
+  'COMMAND_EXECUTE',
+  'FILE_CHANGE',
+  'UI_SPAWN',
+  'HEARTBEAT'
+];
+
+export interface NegotiatedProtocol {
+  version: string;
+  features: BridgeFeature[];
+}
+
+// Result of normalizing a raw inbound message
+export type InboundMessage =
+  | { kind: 'command'; format: ProtocolFormat; command: BridgeInternalCommand; feature?: BridgeFeature }
+  | { kind: 'handshake'; message: HandshakeMessage }
+  | { kind: 'workspace_request'; message: WorkspaceRequest }
+  | { kind: 'heartbeat'; message: BridgeMessage }
+  | { kind: 'unsupported'; id: string; type: string };
+
+const INTERNAL_COMMAND_TYPES: ReadonlyArray<BridgeInternalCommand['type']> = [
+  'workspace_query',
+  'file_operation',
+  'command_execution',
+  'context_request',
+  'auth_request',
+  'subscribe',
+  'unsubscribe',
+  'cancel',
+  'file_transfer',
+  'file_transaction',
+  'ui_spawn',
+  'code_query',
+  'editor_control',
+  'run_task',
+  'run_tests'
+];
+
+// Internal commands that depend on an optional feature
+const COMMAND_FEATURES: Partial<Record<BridgeInternalCommand['type'], BridgeFeature>> = {
+  subscribe: 'subscriptions',
+  unsubscribe: 'subscriptions',
+  cancel: 'cancellation',
+  file_transfer: 'chunked_transfer',
+  ui_spawn: 'ui_spawn'
+};
+
+// Command names accepted in COMMAND_EXECUTE payloads as aliases for internal command types
+const COMMAND_ALIASES: Record<string, BridgeInternalCommand['type']> = {
+  getWorkspace: 'workspace_query',
+  fileOperation: 'file_operation',
+  fileTransfer: 'file_transfer',
+  fileTransaction: 'file_transaction',
+  uiSpawn: 'ui_spawn',
+  codeQuery: 'code_query',
+  editorControl: 'editor_control',
+  runTask: 'run_task',
+  runTests: 'run_tests',
+  executeCommand: 'command_execution',
+  getContext: 'context_request'
+};
+
+const FORMAL_MESSAGE_TYPES: ReadonlyArray<BridgeMessageType> = [
+  'HANDSHAKE',
+  'WORKSPACE_REQUEST',
+  'WORKSPACE_RESPONSE',
+  'WORKSPACE_EVENT',
+  'COMMAND_EXECUTE',
+  'COMMAND_RESPONSE',
+  'COMMAND_PROGRESS',
+  'FILE_CHANGE',
+  'UI_SPAWN',
+  'UI_EVENT',
+  'ERROR',
+  'HEARTBEAT',
+  'ANALYTICS_UPDATE'
+];
+
+export function isFormalMessage(raw: any): raw is BridgeMessage {
+  return !!raw && typeof raw === 'object' && FORMAL_MESSAGE_TYPES.includes(raw.type);
+}
+
+export function normalizeInboundMessage(raw: any): InboundMessage {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Message must be a JSON object');
+  }
+
+  if (typeof raw.id !== 'string' || raw.id.length === 0) {
+    throw new Error('Message id is required and must be a string');
+  }
+
+  if (!isFormalMessage(raw)) {
+    return adaptLegacyCommand(raw);
+  }
+
+  switch (raw.type) {
+    case 'COMMAND_EXECUTE':
+      return { kind: 'command', format: 'formal', command: adaptTUICommand(raw as TUICommand) };
+    case 'FILE_CHANGE':
+      return { kind: 'command', format: 'formal', command: adaptFileChange(raw as FileChangeNotification), feature: 'file_change' };
+    case 'UI_SPAWN':
+      return { kind: 'command', format: 'formal', command: adaptUISpawn(raw as UISpawnRequest), feature: 'ui_spawn' };
+    case 'HANDSHAKE':
+      return { kind: 'handshake', message: raw as HandshakeMessage };
+    case 'WORKSPACE_REQUEST':
+      return { kind: 'workspace_request', message: raw as WorkspaceRequest };
+    case 'HEARTBEAT':
+      return { kind: 'heartbeat', message: raw };
+    default:
+      // Server-to-TUI message types (responses, UI_SPAWN, ANALYTICS_UPDATE, ...)
+      return { kind: 'unsupported', id: raw.id, type: raw.type };
+  }
+}
+
+function adaptLegacyCommand(raw: any): InboundMessage {
+  if (!INTERNAL_COMMAND_TYPES.includes(raw.type)) {
+    return { kind: 'unsupported', id: raw.id, type: String(raw.type) };
+  }
+
+  return {
+    kind: 'command',
+    format: 'legacy',
+    command: {
+      id: raw.id,
+      type: raw.type,
+      payload: raw.payload ?? {},
+      timestamp: typeof raw.timestamp === 'number' ? raw.timestamp : Date.now(),
+      requiresApproval: raw.requiresApproval
+    } as BridgeInternalCommand
+  };
+}
+
+function adaptTUICommand(message: TUICommand): BridgeInternalCommand {
+  if (!message.payload || typeof message.payload.command !== 'string') {
+    throw new Error('COMMAND_EXECUTE payload must include a command name');
+  }
+
+  const { command, args, context, requireApproval, safetyLevel } = message.payload;
+  const timestamp = parseTimestamp(message.timestamp);
+  const internalType = INTERNAL_COMMAND_TYPES.includes(command as BridgeInternalCommand['type'])
+    ? command as BridgeInternalCommand['type']
+    : COMMAND_ALIASES[command];
+
+  if (internalType) {
+    return {
+      id: message.id,
+      type: internalType,
+      payload: (args && !Array.isArray(args)) ? args : {},
+      timestamp,
+      requiresApproval: requireApproval
+    } as BridgeInternalCommand;
+  }
+
+  // Anything else is a VS Code command name executed through command_execution
+  return {
+    id: message.id,
+    type: 'command_execution',
+    payload: {
+      commandName: command,
+      args: Array.isArray(args) ? args : [],
+      context,
+      requireApproval,
+      safetyLevel: safetyLevel || 'read_only'
+    },
+    timestamp,
+    requiresApproval: requireApproval
+  };
+}
+
+function adaptFileChange(message: FileChangeNotification): BridgeInternalCommand {
+  const operation = message.payload?.operation;
+  if (!operation || typeof operation.path !== 'string') {
+    throw new Error('FILE_CHANGE payload must include an operation with a path');
+  }
+
+  return {
+    id: message.id,
+    type: 'file_operation',
+    payload: {
+      operation: operation.type,
+      path: operation.path,
+      content: operation.content,
+      newPath: operation.newPath
+    },
+    timestamp: parseTimestamp(message.timestamp),
+    requiresApproval: true
+  };
+}
+
+function adaptUISpawn(message: UISpawnRequest): BridgeInternalCommand {
+  if (!message.payload || typeof message.payload.panelType !== 'string') {
+    throw new Error('UI_SPAWN payload must include a panelType');
+  }
+
+  return {
+    id: message.id,
+    type: 'ui_spawn',
+    payload: message.payload,
+    timestamp: parseTimestamp(message.timestamp)
+  };
+}
+
+/**
+ * Picks the highest protocol version supported by both sides.
+ * Returns null when the client and server share no version.
+ */
+export function negotiateProtocolVersion(
+  clientVersions: ReadonlyArray<string>,
+  serverVersions: ReadonlyArray<string> = SUPPORTED_PROTOCOL_VERSIONS
+): string | null {
+  const common = serverVersions.filter(version =>
+    parseVersion(version) && clientVersions.some(candidate => compareVersions(candidate, version) === 0)
+  );
+
+  if (common.length === 0) {
+    return null;
+  }
+
+  return common.reduce((highest, version) => compareVersions(version, highest) > 0 ? version : highest);
+}
+
+export function getInboundMessageId(inbound: InboundMessage): string {
+  switch (inbound.kind) {
+    case 'command':
+      return inbound.command.id;
+    case 'unsupported':
+      return inbound.id;
+    default:
+      return inbound.message.id;
+  }
+}
+
+// Optional feature an inbound message depends on, if any
+export function getRequiredFeature(inbound: InboundMessage): BridgeFeature | null {
+  switch (inbound.kind) {
+    case 'workspace_request':
+      return 'workspace_request';
+    case 'command':
+      return inbound.feature ?? COMMAND_FEATURES[inbound.command.type] ?? null;
+    default:
+      return null;
+  }
+}
+
+export function negotiateFeatures(requested: ReadonlyArray<string> | undefined): BridgeFeature[] {
+  if (!requested) {
+    return [...SUPPORTED_FEATURES];
+  }
+  return SUPPORTED_FEATURES.filter(feature => requested.includes(feature));
+}
+
+function parseVersion(version: string): number[] | null {
+  const match = /^(\d+)\.(\d+)(?:\.(\d+))?$/.exec(String(version).trim());
+  if (!match) {
+    return null;
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3] || 0)];
+}
+
+// Compares two dotted versions; unparseable versions never compare equal
+function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    return NaN;
+  }
+
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) {
+      return left[i] - right[i];
+    }
+  }
+  return 0;
+}
+
+function parseTimestamp(timestamp: string | undefined): number {
+  const parsed = timestamp ? new Date(timestamp).getTime() : NaN;
+  return isNaN(parsed) ? Date.now() : parsed;
+}
+
+export function createEnvelope<T extends BridgeMessageType>(type: T, id: string, sessionId: string): BridgeMessage & { type: T } {
+  return {
+    id,
+    type,
+    timestamp: new Date().toISOString(),
+    source: 'VSCODE',
+    sessionId
+  };
+}
+
+export function toCommandResponse(response: BridgeInternalResponse, sessionId: string): VSCodeResponse {
+  return {
+    ...createEnvelope('COMMAND_RESPONSE', response.id, sessionId),
+    payload: {
+      success: response.success,
+      result: response.data ?? null,
+      error: response.error,
+      code: response.errorCode
+    }
+  };
+}
+
+export function createBridgeError(
+  id: string,
+  sessionId: string,
+  code: BridgeErrorCode,
+  message: string,
+  recoverable = true,
+  details?: string | object
+): BridgeError {
+  return {
+    ...createEnvelope('ERROR', id, sessionId),
+    payload: {
+      code,
+      message,
+      details,
+      recoverable
+    }
+  };
+}
@@ -0,0 +1,207 @@
+import { spawn } from 'child_process';
+
+/**
+ * Runs the processes behind the run_task command and captures their output. Kept free of the
+ * VS Code API: the bridge resolves build commands and VS Code tasks into a TaskProcessSpec.
+ */
+
+export type TaskOutputStream = 'stdout' | 'stderr';
+
+export interface RunTaskPayload {
+  source: 'build_command' | 'task';
+  command?: string; // build_command: one of ProjectInfo.buildCommands
+  taskName?: string; // task: label of a VS Code task
+  taskSource?: string; // task: e.g. 'Workspace' or 'npm', when several tasks share a label
+  timeoutMs?: number;
+}
+
+export interface TaskProcessSpec {
+  command: string;
+  args: string[];
+  shell: boolean; // True runs `command` (with `args` appended) through the user's shell
+  cwd: string;
+  env?: Record<string, string>; // Added to the extension host's environment
+}
+
+export interface TaskRunOptions {
+  onOutput?: (stream: TaskOutputStream, chunk: string) => void;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxOutputBytes?: number; // Per stream; older output is dropped first
+}
+
+export interface TaskRunResult {
+  exitCode: number | null; // Null when the process was killed
+  signal: string | null;
+  durationMs: number;
+  timedOut: boolean;
+  stdout: string;
+  stderr: string;
+  truncated: boolean; // Captured output lost its beginning to maxOutputBytes
+}
+
+// Default for automatus.bridge.tasks.allowlist: builds and tests, but no installs or runs
+export const DEFAULT_TASK_ALLOWLIST = [
+  'npm run build', 'npm test', 'cargo build', 'cargo test', 'mvn compile', 'mvn test', 'gradle build', 'gradle test'
+];
+
+export const DEFAULT_TASK_TIMEOUT_MS = 10 * 60 * 1000;
+export const MAX_TASK_TIMEOUT_MS = 60 * 60 * 1000;
+export const DEFAULT_TASK_OUTPUT_BYTES = 1024 * 1024;
+
+// Grace period between SIGTERM and SIGKILL when a task is stopped
+const KILL_GRACE_MS = 3000;
+
+export function validateRunTask(payload: RunTaskPayload): void {
+  if (!payload || (payload.source !== 'build_command' && payload.source !== 'task')) {
+    throw new Error('source must be build_command or task');
+  }
+  if (payload.source === 'build_command' && (typeof payload.command !== 'string' || !payload.command.trim())) {
+    throw new Error('build_command requires a command');
+  }
+  if (payload.source === 'task' && (typeof payload.taskName !== 'string' || !payload.taskName)) {
+    throw new Error('task requires a taskName');
+  }
+  if (payload.timeoutMs !== undefined &&
+      (!Number.isInteger(payload.timeoutMs) || payload.timeoutMs < 1 || payload.timeoutMs > MAX_TASK_TIMEOUT_MS)) {
+    throw new Error(`timeoutMs must be an integer from 1 to ${MAX_TASK_TIMEOUT_MS}`);
+  }
+}
+
+// Substitutes the workspace variables tasks.json commonly uses; other variables are left as written
+export function resolveTaskVariables(value: string, workspaceFolder: string): string {
+  const basename = workspaceFolder.split(/[\\/]/).filter(Boolean).pop() ?? '';
+  return value
+    .replace(/\$\{(workspaceFolder|workspaceRoot|cwd)\}/g, () => workspaceFolder)
+    .replace(/\$\{workspaceFolderBasename\}/g, () => basename)
+    .replace(/\$\{env:([^}]+)\}/g, (_match, name: string) => process.env[name] ?? '');
+}
+
+/**
+ * Runs a process to completion. Rejects only when it cannot be started; a non-zero exit,
+ * a timeout or an abort resolves with the output captured so far.
+ */
+export function runTaskProcess(spec: TaskProcessSpec, options: TaskRunOptions = {}): Promise<TaskRunResult> {
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_TASK_OUTPUT_BYTES;
+  const startTime = Date.now();
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new Error('Task cancelled before it started'));
+      return;
+    }
+
+    const child = spawn(spec.shell ? [spec.command, ...spec.args].join(' ') : spec.command, spec.shell ? [] : spec.args, {
+      cwd: spec.cwd,
+      env: { ...process.env, ...spec.env },
+      shell: spec.shell,
+      // Its own process group on POSIX, so stopping the task also stops what the shell started
+      detached: process.platform !== 'win32',
+      windowsHide: true
+    });
+
+    const output = { stdout: new OutputTail(maxOutputBytes), stderr: new OutputTail(maxOutputBytes) };
+    let timedOut = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const stop = () => {
+      if (child.exitCode !== null || child.signalCode !== null) {
+        return;
+      }
+      killProcess(child.pid, 'SIGTERM', () => child.kill('SIGTERM'));
+      killTimer = setTimeout(() => killProcess(child.pid, 'SIGKILL', () => child.kill('SIGKILL')), KILL_GRACE_MS);
+    };
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, options.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS);
+    options.signal?.addEventListener('abort', stop, { once: true });
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      child[stream]?.setEncoding('utf8');
+      child[stream]?.on('data', (chunk: string) => {
+        output[stream].append(chunk);
+        options.onOutput?.(stream, chunk);
+      });
+    }
+
+    const finish = () => {
+      clearTimeout(timeout);
+      clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', stop);
+    };
+
+    child.on('error', error => {
+      finish();
+      reject(error);
+    });
+    child.on('close', (exitCode, signal) => {
+      finish();
+      resolve({
+        exitCode,
+        signal,
+        durationMs: Date.now() - startTime,
+        timedOut,
+        stdout: output.stdout.text,
+        stderr: output.stderr.text,
+        truncated: output.stdout.truncated || output.stderr.truncated
+      });
+    });
+  });
+}
+
+function killProcess(pid: number | undefined, signal: NodeJS.Signals, fallback: () => void): void {
+  if (pid !== undefined && process.platform === 'win32') {
+    // Killing the child would only end cmd.exe; taskkill also ends the processes started under it
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore', windowsHide: true })
+      .on('error', fallback);
+    return;
+  }
+  try {
+    if (pid !== undefined) {
+      process.kill(-pid, signal);
+      return;
+    }
+  } catch {
+    // The group is already gone or was never created; signal the child directly
+  }
+  fallback();
+}
+
+// Keeps the last maxBytes of a stream, where test runners and compilers print their summaries
+class OutputTail {
+  private chunks: string[] = [];
+  private bytes = 0;
+  truncated = false;
+
+  constructor(private maxBytes: number) {}
+
+  append(chunk: string): void {
+    this.chunks.push(chunk);
+    this.bytes += Buffer.byteLength(chunk);
+    while (this.bytes > this.maxBytes && this.chunks.length > 0) {
+      const excess = this.bytes - this.maxBytes;
+      const first = this.chunks[0];
+      const firstBytes = Buffer.byteLength(first);
+      this.truncated = true;
+      if (firstBytes <= excess) {
+        this.chunks.shift();
+        this.bytes -= firstBytes;
+      } else {
+        const buffer = Buffer.from(first);
+        let start = excess;
+        // Never start in the middle of a multi-byte character
+        while (start < buffer.length && (buffer[start] & 0xc0) === 0x80) {
+          start++;
+        }
+        const kept = buffer.subarray(start).toString('utf8');
+        this.chunks[0] = kept;
+        this.bytes -= firstBytes - Buffer.byteLength(kept);
+      }
+    }
+  }
+
+  get text(): string {
+    return this.chunks.join('');
+  }
+}
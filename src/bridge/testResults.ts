@@ -0,0 +1,335 @@
+/**
+ * Parsers turning test reporter output into per-test results: TAP (mocha, node:test), JUnit XML
+ * (pytest, Maven Surefire, Gradle), jest's --json report and the plain output of Rust's libtest.
+ */
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export type TestReportFormat = 'tap' | 'junit' | 'jest_json' | 'libtest';
+
+export interface TestCaseResult {
+  name: string;
+  suite?: string;
+  file?: string; // As reported; may be relative to the project root
+  line?: number; // 1-based
+  status: TestStatus;
+  durationMs?: number;
+  failureMessage?: string;
+}
+
+export interface TestRunSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+type TapPoint = TestCaseResult & { indent: number };
+
+export interface JUnitParseOptions {
+  zeroBasedLines?: boolean; // pytest reports the line of the test function zero-based
+}
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+// `path/to/file.ext:line` with an optional column, as printed in stack traces and panics
+const LOCATION_PATTERN = /(?:file:\/\/)?((?:[A-Za-z]:)?[\w.\-/\\@]*\.[A-Za-z]\w*):(\d+)(?::\d+)?/g;
+
+export function parseTestReport(format: TestReportFormat, text: string, options: JUnitParseOptions = {}): TestCaseResult[] {
+  switch (format) {
+    case 'tap':
+      return parseTap(text);
+    case 'junit':
+      return parseJUnitXml(text, options);
+    case 'jest_json':
+      return parseJestJson(text);
+    case 'libtest':
+      return parseLibtest(text);
+  }
+}
+
+export function summarizeTests(tests: TestCaseResult[]): TestRunSummary {
+  return {
+    total: tests.length,
+    passed: tests.filter(test => test.status === 'passed').length,
+    failed: tests.filter(test => test.status === 'failed').length,
+    skipped: tests.filter(test => test.status === 'skipped').length
+  };
+}
+
+/**
+ * First location in a failure message outside dependencies and runtime internals, which for
+ * assertion errors and panics is where the test failed.
+ */
+export function extractFailureLocation(message: string): { file: string; line: number } | undefined {
+  for (const match of message.matchAll(LOCATION_PATTERN)) {
+    const file = match[1];
+    if (/node_modules|^internal[\\/]|^node:/.test(file) || /[\\/](rustc|\.cargo)[\\/]/.test(file)) {
+      continue;
+    }
+    return { file, line: Number(match[2]) };
+  }
+  return undefined;
+}
+
+/**
+ * TAP 13 as written by mocha's tap reporter and node:test. node:test nests subtests by
+ * indentation and prints each suite as a test point after its children; those points are
+ * turned into the `suite` of the tests inside them.
+ */
+export function parseTap(text: string): TestCaseResult[] {
+  const lines = text.replace(ANSI_PATTERN, '').split(/\r?\n/);
+  const points: TapPoint[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = /^(\s*)(not ok|ok)\b\s*\d*\s*(?:-\s*)?(.*)$/.exec(lines[i]);
+    if (!match) {
+      continue;
+    }
+
+    const indent = match[1].length;
+    const [description, directive = ''] = splitTapDirective(match[3]);
+    const point: TapPoint = {
+      name: description,
+      status: /^(skip|todo)\b/i.test(directive) ? 'skipped' : match[2] === 'ok' ? 'passed' : 'failed',
+      indent
+    };
+
+    // Details follow as a YAML block (TAP 13) or, from older reporters, as indented lines
+    const details: string[] = [];
+    while (i + 1 < lines.length && (lines[i + 1].trim() === '' || leadingSpaces(lines[i + 1]) > indent) &&
+           !/^\s*(not ok|ok)\b/.test(lines[i + 1]) && !/^\s*# Subtest:/.test(lines[i + 1])) {
+      details.push(lines[++i]);
+    }
+    applyTapDetails(point, details);
+    points.push(point);
+  }
+
+  // A point directly after more deeply indented points closes a suite around them
+  const tests: TapPoint[] = [];
+  points.forEach((point, index) => {
+    if (index > 0 && points[index - 1].indent > point.indent) {
+      for (let child = index - 1; child >= 0 && points[child].indent > point.indent; child--) {
+        const nested = points[child];
+        nested.suite = nested.suite ? `${point.name} ${nested.suite}` : point.name;
+      }
+      return;
+    }
+    tests.push(point);
+  });
+
+  return tests.map(({ indent: _indent, ...test }) => test);
+}
+
+export function parseJUnitXml(xml: string, options: JUnitParseOptions = {}): TestCaseResult[] {
+  const tests: TestCaseResult[] = [];
+  const testcasePattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const match of xml.matchAll(testcasePattern)) {
+    const attributes = parseXmlAttributes(match[1]);
+    const body = match[2] ?? '';
+    const failure = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+    const skipped = /<skipped\b/.test(body);
+
+    const test: TestCaseResult = {
+      name: attributes.name ?? '',
+      suite: attributes.classname || undefined,
+      status: failure ? 'failed' : skipped ? 'skipped' : 'passed'
+    };
+    if (attributes.file) {
+      test.file = attributes.file;
+    }
+    if (attributes.line !== undefined && /^\d+$/.test(attributes.line)) {
+      test.line = Number(attributes.line) + (options.zeroBasedLines ? 1 : 0);
+    }
+    if (attributes.time !== undefined && !Number.isNaN(Number(attributes.time))) {
+      test.durationMs = Math.round(Number(attributes.time) * 1000);
+    }
+    if (failure) {
+      const message = parseXmlAttributes(failure[2]).message;
+      const detail = decodeXmlText(failure[3] ?? '').trim();
+      test.failureMessage = [message, detail].filter(Boolean).join('\n') || failure[1];
+    }
+    tests.push(withFailureLocation(test));
+  }
+  return tests;
+}
+
+// Report written by `jest --json --testLocationInResults`
+export function parseJestJson(text: string): TestCaseResult[] {
+  const report = JSON.parse(text);
+  const tests: TestCaseResult[] = [];
+
+  for (const file of Array.isArray(report?.testResults) ? report.testResults : []) {
+    const assertions = Array.isArray(file.assertionResults) ? file.assertionResults : [];
+
+    // A file that fails to load has no assertions, only a message
+    if (assertions.length === 0 && file.status === 'failed') {
+      tests.push(withFailureLocation({
+        name: file.name,
+        file: file.name,
+        status: 'failed',
+        failureMessage: stripAnsi(String(file.message ?? 'Test file failed to run')).trim()
+      }));
+      continue;
+    }
+
+    for (const assertion of assertions) {
+      const failureMessages: string[] = Array.isArray(assertion.failureMessages) ? assertion.failureMessages : [];
+      const test: TestCaseResult = {
+        name: assertion.title,
+        suite: Array.isArray(assertion.ancestorTitles) && assertion.ancestorTitles.length > 0 ? assertion.ancestorTitles.join(' ') : undefined,
+        file: file.name,
+        status: assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped'
+      };
+      if (typeof assertion.location?.line === 'number') {
+        test.line = assertion.location.line;
+      }
+      if (typeof assertion.duration === 'number') {
+        test.durationMs = assertion.duration;
+      }
+      if (failureMessages.length > 0) {
+        test.failureMessage = stripAnsi(failureMessages.join('\n')).trim();
+      }
+      tests.push(withFailureLocation(test));
+    }
+  }
+  return tests;
+}
+
+// Default (pretty) output of `cargo test`; libtest's JSON output needs a nightly toolchain
+export function parseLibtest(text: string): TestCaseResult[] {
+  const output = text.replace(ANSI_PATTERN, '');
+  const tests: TestCaseResult[] = [];
+
+  for (const match of output.matchAll(/^test (\S+)(?: - should panic)? \.\.\. (ok|FAILED|ignored)\b.*$/gm)) {
+    const path = match[1].split('::');
+    tests.push({
+      name: path[path.length - 1],
+      suite: path.length > 1 ? path.slice(0, -1).join('::') : undefined,
+      status: match[2] === 'ok' ? 'passed' : match[2] === 'FAILED' ? 'failed' : 'skipped'
+    });
+  }
+
+  // Captured output of each failed test: "---- path::name stdout ----" up to the next section
+  for (const match of output.matchAll(/^---- (\S+) stdout ----\n([\s\S]*?)(?=^---- \S+ stdout ----$|^failures:$|^test result:)/gm)) {
+    const path = match[1].split('::');
+    const name = path[path.length - 1];
+    const suite = path.length > 1 ? path.slice(0, -1).join('::') : undefined;
+    const test = tests.find(candidate => candidate.name === name && candidate.suite === suite && candidate.status === 'failed');
+    if (test) {
+      test.failureMessage = match[2].trim();
+      Object.assign(test, withFailureLocation(test));
+    }
+  }
+  return tests;
+}
+
+function withFailureLocation(test: TestCaseResult): TestCaseResult {
+  if (test.status !== 'failed' || !test.failureMessage || test.line !== undefined) {
+    return test;
+  }
+  const location = extractFailureLocation(test.failureMessage);
+  // A location in another file than the test's own is only used when the test's file is unknown
+  if (location && (!test.file || sameFile(test.file, location.file))) {
+    return { ...test, file: test.file ?? location.file, line: location.line };
+  }
+  return test;
+}
+
+function sameFile(a: string, b: string): boolean {
+  const normalize = (file: string) => file.replace(/\\/g, '/');
+  const [longer, shorter] = normalize(a).length >= normalize(b).length ? [normalize(a), normalize(b)] : [normalize(b), normalize(a)];
+  return longer === shorter || longer.endsWith(`/${shorter}`);
+}
+
+function splitTapDirective(text: string): [string, string?] {
+  const index = text.search(/\s#\s/);
+  return index === -1 ? [text.trim()] : [text.slice(0, index).trim(), text.slice(index).replace(/^\s#\s/, '').trim()];
+}
+
+function applyTapDetails(point: TestCaseResult, details: string[]): void {
+  const start = details.findIndex(line => line.trim() === '---');
+  if (start === -1) {
+    const text = details.map(line => line.trim()).filter(Boolean).join('\n');
+    if (point.status === 'failed' && text) {
+      point.failureMessage = text;
+    }
+    Object.assign(point, withFailureLocation(point));
+    return;
+  }
+
+  const end = details.findIndex((line, index) => index > start && line.trim() === '...');
+  const yaml = readYamlBlock(details.slice(start + 1, end === -1 ? details.length : end));
+
+  const duration = Number(yaml.duration_ms);
+  if (yaml.duration_ms !== undefined && !Number.isNaN(duration)) {
+    point.durationMs = duration;
+  }
+  if (yaml.location) {
+    const location = extractFailureLocation(yaml.location);
+    if (location) {
+      point.file = location.file;
+      point.line = location.line;
+    }
+  }
+  if (point.status === 'failed') {
+    const message = [yaml.error ?? yaml.message, yaml.stack].filter(Boolean).join('\n');
+    point.failureMessage = message || undefined;
+  }
+  Object.assign(point, withFailureLocation(point));
+}
+
+// Reads the flat keys of a TAP YAML block, including `|` and `>` block scalars
+function readYamlBlock(lines: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  const baseIndent = Math.min(...lines.filter(line => line.trim()).map(leadingSpaces));
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = /^(\s*)([A-Za-z_]\w*):\s*(.*)$/.exec(lines[i]);
+    if (!match || match[1].length !== baseIndent) {
+      continue;
+    }
+
+    const [, , key, rawValue] = match;
+    if (/^[|>][-+]?$/.test(rawValue)) {
+      const block: string[] = [];
+      while (i + 1 < lines.length && (lines[i + 1].trim() === '' || leadingSpaces(lines[i + 1]) > baseIndent)) {
+        block.push(lines[++i]);
+      }
+      const blockIndent = Math.min(...block.filter(line => line.trim()).map(leadingSpaces));
+      values[key] = block.map(line => line.slice(blockIndent)).join(rawValue.startsWith('>') ? ' ' : '\n').trim();
+    } else {
+      values[key] = rawValue.replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+  return values;
+}
+
+function parseXmlAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXmlText(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_match, data: string) => data)
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, decimal: string) => String.fromCodePoint(Number(decimal)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length;
+}
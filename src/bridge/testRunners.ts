@@ -0,0 +1,158 @@
+import { isAbsolute, join, relative, resolve } from 'path';
+import { ProjectInfo } from './TUIVSCodeBridge';
+import { TaskProcessSpec } from './taskRunner';
+import { JUnitParseOptions, TestReportFormat } from './testResults';
+
+export type TestRunnerKind = 'jest' | 'mocha' | 'npm' | 'pytest' | 'cargo' | 'maven' | 'gradle';
+
+export interface TestRunRequest {
+  runner?: TestRunnerKind; // Overrides detection
+  files?: string[]; // jest, mocha and pytest
+  grep?: string; // Test name filter; every runner except npm
+  timeoutMs?: number;
+}
+
+// Where the runner leaves its report: its standard output, one file, or a directory of XML files
+export type TestReportLocation =
+  | { kind: 'stdout' }
+  | { kind: 'file'; path: string }
+  | { kind: 'directory'; path: string };
+
+export interface TestRunPlan {
+  runner: TestRunnerKind;
+  spec: TaskProcessSpec;
+  format: TestReportFormat;
+  report: TestReportLocation;
+  parseOptions: JUnitParseOptions;
+}
+
+export const TEST_RUNNERS: ReadonlyArray<TestRunnerKind> = ['jest', 'mocha', 'npm', 'pytest', 'cargo', 'maven', 'gradle'];
+
+// Runners that can be pointed at individual test files
+const FILE_RUNNERS: ReadonlyArray<TestRunnerKind> = ['jest', 'mocha', 'pytest'];
+
+export function validateTestRunRequest(request: TestRunRequest): void {
+  if (!request || typeof request !== 'object') {
+    throw new Error('Test run arguments must be an object');
+  }
+  if (request.runner !== undefined && !TEST_RUNNERS.includes(request.runner)) {
+    throw new Error(`runner must be one of ${TEST_RUNNERS.join(', ')}`);
+  }
+  // A leading dash would be read as an option of the runner
+  if (request.files !== undefined && (!Array.isArray(request.files) || !request.files.every(file => typeof file === 'string' && file.length > 0 && !file.startsWith('-')))) {
+    throw new Error('files must be a list of paths');
+  }
+  if (request.grep !== undefined && (typeof request.grep !== 'string' || request.grep.length === 0 || request.grep.startsWith('-'))) {
+    throw new Error('grep must be a non-empty string not starting with -');
+  }
+}
+
+/**
+ * Picks the test runner for a project. npm projects are inspected for jest or mocha in their
+ * dependencies or test script; other npm projects are run with `npm test` and read as TAP.
+ */
+export function detectTestRunner(project: ProjectInfo, packageJson?: any): TestRunnerKind | undefined {
+  switch (project.type) {
+    case 'npm': {
+      const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+      const testScript = String(packageJson?.scripts?.test ?? '');
+      if ('jest' in dependencies || /\bjest\b/.test(testScript)) {
+        return 'jest';
+      }
+      if ('mocha' in dependencies || /\bmocha\b/.test(testScript)) {
+        return 'mocha';
+      }
+      return 'npm';
+    }
+    case 'python':
+      return 'pytest';
+    case 'rust':
+      return 'cargo';
+    case 'java':
+      return project.configFiles.includes('pom.xml') ? 'maven' : 'gradle';
+    default:
+      return undefined;
+  }
+}
+
+// Builds the command line for a runner with a machine-readable reporter writing into reportDir
+export function planTestRun(
+  runner: TestRunnerKind,
+  rootPath: string,
+  reportDir: string,
+  request: TestRunRequest = {},
+  platform: NodeJS.Platform = process.platform
+): TestRunPlan {
+  const files = (request.files ?? []).map(file => resolveProjectFile(rootPath, file));
+  if (files.length > 0 && !FILE_RUNNERS.includes(runner)) {
+    throw new Error(`The ${runner} runner cannot run individual files`);
+  }
+  if (request.grep !== undefined && runner === 'npm') {
+    throw new Error('npm test cannot filter tests by name; choose the jest or mocha runner instead');
+  }
+
+  const grep = request.grep;
+  const plan = (command: string, args: string[], format: TestReportFormat, report: TestReportLocation, parseOptions: JUnitParseOptions = {}): TestRunPlan =>
+    ({ runner, spec: processSpec(command, args, rootPath, platform), format, report, parseOptions });
+
+  switch (runner) {
+    case 'jest': {
+      const reportFile = join(reportDir, 'jest.json');
+      return plan('npx', [
+        'jest', '--ci', '--json', '--testLocationInResults', `--outputFile=${reportFile}`,
+        ...(grep ? ['--testNamePattern', grep] : []),
+        ...files
+      ], 'jest_json', { kind: 'file', path: reportFile });
+    }
+    case 'mocha':
+      return plan('npx', [
+        'mocha', '--reporter', 'tap', '--reporter-option', 'tapVersion=13',
+        ...(grep ? ['--grep', grep] : []),
+        ...files
+      ], 'tap', { kind: 'stdout' });
+    case 'npm':
+      return plan('npm', ['test', '--silent'], 'tap', { kind: 'stdout' });
+    case 'pytest': {
+      const reportFile = join(reportDir, 'pytest.xml');
+      // xunit1 reports carry the file and line of each test
+      return plan(platform === 'win32' ? 'python' : 'python3', [
+        '-m', 'pytest', '-o', 'junit_family=xunit1', `--junitxml=${reportFile}`,
+        ...(grep ? ['-k', grep] : []),
+        ...files
+      ], 'junit', { kind: 'file', path: reportFile }, { zeroBasedLines: true });
+    }
+    case 'cargo':
+      return plan('cargo', ['test', ...(grep ? [grep] : [])], 'libtest', { kind: 'stdout' });
+    case 'maven':
+      return plan('mvn', ['-B', 'test', ...(grep ? [`-Dtest=${grep}`] : [])], 'junit', { kind: 'directory', path: join(rootPath, 'target', 'surefire-reports') });
+    case 'gradle':
+      return plan('gradle', ['test', ...(grep ? ['--tests', grep] : [])], 'junit', { kind: 'directory', path: join(rootPath, 'build', 'test-results', 'test') });
+  }
+}
+
+// Test files are passed relative to the project and must stay inside it
+function resolveProjectFile(rootPath: string, file: string): string {
+  const relativePath = relative(rootPath, resolve(rootPath, file));
+  if (relativePath === '' || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    throw new Error(`Test file is outside the project: ${file}`);
+  }
+  return relativePath;
+}
+
+// cmd.exe expands or acts on these even inside double quotes, or ends the quotes
+const CMD_METACHARACTERS = /["&|<>^%!]/;
+
+/**
+ * Windows can only start npx, npm, mvn and gradle, which are batch files, through the shell.
+ * cmd.exe has no escaping that is safe for every argument, so arguments it would interpret are refused.
+ */
+function processSpec(command: string, args: string[], cwd: string, platform: NodeJS.Platform): TaskProcessSpec {
+  if (platform !== 'win32' || command === 'python' || command === 'cargo') {
+    return { command, args, shell: false, cwd };
+  }
+  const unsafe = args.find(arg => CMD_METACHARACTERS.test(arg));
+  if (unsafe !== undefined) {
+    throw new Error(`Argument cannot be passed safely through the Windows shell: ${unsafe}`);
+  }
+  return { command, args: args.map(arg => /\s/.test(arg) ? `"${arg}"` : arg), shell: true, cwd };
+}
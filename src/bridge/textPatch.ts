@@ -0,0 +1,294 @@
+/**
+ * Patch planning for the bridge `patch` file operation
+ * Unified diffs and range edits are matched against the current document text and turned
+ * into offset-based replacements. Nothing is planned unless every hunk or edit applies.
+ */
+
+import { Range } from './types';
+
+export interface RangeEdit {
+  range: Range; // Zero-based lines and characters, as in VS Code
+  text: string;
+  expectedText?: string; // When given, the range must currently contain exactly this text
+}
+
+export interface PatchRequest {
+  diff?: string; // Unified diff for a single file
+  edits?: RangeEdit[];
+}
+
+export interface DiffHunk {
+  oldStart: number; // One-based, as in the @@ header
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Body lines, each prefixed with ' ', '-' or '+'
+  newEndsWithoutNewline: boolean;
+}
+
+export interface PatchResult {
+  index: number;
+  kind: 'hunk' | 'edit';
+  applied: boolean;
+  line?: number; // Zero-based line where the hunk or edit applies
+  offset?: number; // Hunks: lines between the header's position and where the context matched
+  error?: string;
+}
+
+export interface TextReplacement {
+  start: number; // Offsets into the document text
+  end: number;
+  text: string;
+}
+
+export interface PatchPlan {
+  applied: boolean;
+  replacements: TextReplacement[];
+  results: PatchResult[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let fileHeaders = 0;
+  let lastPrefix = '';
+
+  const lines = diff.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  for (const line of lines) {
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+        newEndsWithoutNewline: false
+      };
+      hunks.push(current);
+      continue;
+    }
+
+    if (line.startsWith('+++ ')) {
+      if (++fileHeaders > 1) {
+        throw new Error('The diff touches more than one file');
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      continue; // diff --git, index, --- and other preamble lines
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" refers to the line before it
+      if (lastPrefix === '+' || lastPrefix === ' ') {
+        current.newEndsWithoutNewline = true;
+      }
+      continue;
+    }
+
+    // Some tools strip the single space of empty context lines
+    const body = line === '' ? ' ' : line;
+    if (!'+- '.includes(body[0])) {
+      throw new Error(`Unexpected line in hunk ${hunks.length}: ${line}`);
+    }
+    current.lines.push(body);
+    lastPrefix = body[0];
+  }
+
+  if (hunks.length === 0) {
+    throw new Error('The diff contains no hunks');
+  }
+
+  hunks.forEach((hunk, index) => {
+    const oldCount = hunk.lines.filter(line => line[0] !== '+').length;
+    const newCount = hunk.lines.filter(line => line[0] !== '-').length;
+    if (oldCount !== hunk.oldLines || newCount !== hunk.newLines) {
+      throw new Error(`Hunk ${index + 1} line counts do not match its header`);
+    }
+  });
+  return hunks;
+}
+
+/**
+ * Locates each hunk in `text`, allowing it to have moved by any number of lines as long as
+ * its context and removed lines match exactly and hunks stay in order.
+ */
+export function planUnifiedDiff(text: string, hunks: DiffHunk[]): PatchPlan {
+  const document = splitLines(text);
+  const results: PatchResult[] = [];
+  const replacements: TextReplacement[] = [];
+  let searchFrom = 0;
+  let drift = 0; // Offset found for the previous hunk, applied to the next one first
+
+  hunks.forEach((hunk, index) => {
+    const oldLines = hunk.lines.filter(line => line[0] !== '+').map(line => line.slice(1));
+    const newLines = hunk.lines.filter(line => line[0] !== '-').map(line => line.slice(1));
+    // A pure insertion's old start names the line it follows
+    const headerLine = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(0, headerLine + drift);
+    const position = findLines(document.lines, oldLines, expected, searchFrom);
+
+    if (position === null) {
+      results.push({
+        index,
+        kind: 'hunk',
+        applied: false,
+        line: expected,
+        error: `Hunk ${index + 1} does not match the document near line ${expected + 1}`
+      });
+      return;
+    }
+
+    const start = document.lineStarts[position];
+    const endLine = position + oldLines.length;
+    const end = endLine < document.lines.length ? document.lineStarts[endLine] : text.length;
+    let replacement = newLines.map(line => line + document.eol).join('');
+
+    // Keep the document's final-newline state unless the diff says otherwise
+    const touchesEnd = endLine >= document.lines.length;
+    if (replacement && (hunk.newEndsWithoutNewline || (touchesEnd && !document.endsWithNewline))) {
+      replacement = replacement.slice(0, -document.eol.length);
+    }
+
+    replacements.push({ start, end, text: replacement });
+    drift = position - headerLine;
+    results.push({ index, kind: 'hunk', applied: true, line: position, offset: drift });
+    searchFrom = endLine;
+  });
+
+  return finishPlan(replacements, results);
+}
+
+// Validates range edits against `text`; edits may come in any order but must not overlap
+export function planRangeEdits(text: string, edits: RangeEdit[]): PatchPlan {
+  const document = splitLines(text);
+  const results: PatchResult[] = [];
+  const replacements: Array<TextReplacement & { index: number }> = [];
+
+  edits.forEach((edit, index) => {
+    try {
+      if (!edit || typeof edit.text !== 'string' || !edit.range) {
+        throw new Error('needs a range and text');
+      }
+      const start = toOffset(document, edit.range.start);
+      const end = toOffset(document, edit.range.end);
+      if (end < start) {
+        throw new Error('range end is before its start');
+      }
+      if (edit.expectedText !== undefined && text.slice(start, end) !== edit.expectedText) {
+        throw new Error('range no longer contains the expected text');
+      }
+      replacements.push({ index, start, end, text: edit.text });
+      results.push({ index, kind: 'edit', applied: true, line: edit.range.start.line });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      results.push({ index, kind: 'edit', applied: false, line: edit?.range?.start?.line, error: `Edit ${index + 1}: ${errorMsg}` });
+    }
+  });
+
+  replacements.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < replacements.length; i++) {
+    if (replacements[i].start < replacements[i - 1].end) {
+      const result = results[replacements[i].index];
+      result.applied = false;
+      result.error = `Edit ${replacements[i].index + 1}: overlaps edit ${replacements[i - 1].index + 1}`;
+    }
+  }
+
+  return finishPlan(replacements.map(({ start, end, text: replacement }) => ({ start, end, text: replacement })), results);
+}
+
+export function planPatch(text: string, request: PatchRequest): PatchPlan {
+  const hasDiff = typeof request.diff === 'string';
+  const hasEdits = Array.isArray(request.edits);
+  if (hasDiff === hasEdits) {
+    throw new Error('A patch needs either a unified diff or a list of range edits');
+  }
+  return hasDiff ? planUnifiedDiff(text, parseUnifiedDiff(request.diff!)) : planRangeEdits(text, request.edits!);
+}
+
+// Applies planned replacements to a string; the bridge applies them to the live document instead
+export function applyReplacements(text: string, replacements: TextReplacement[]): string {
+  return [...replacements]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, replacement) => result.slice(0, replacement.start) + replacement.text + result.slice(replacement.end), text);
+}
+
+function finishPlan(replacements: TextReplacement[], results: PatchResult[]): PatchPlan {
+  const applied = results.length > 0 && results.every(result => result.applied);
+  return { applied, replacements: applied ? replacements : [], results };
+}
+
+function findLines(lines: string[], expected: string[], preferred: number, minimum: number): number | null {
+  const matches = (position: number) =>
+    position >= minimum &&
+    position + expected.length <= lines.length &&
+    expected.every((line, i) => lines[position + i] === line);
+
+  // Search outwards from where the header says the hunk belongs
+  for (let distance = 0; distance <= lines.length; distance++) {
+    if (matches(preferred - distance)) {
+      return preferred - distance;
+    }
+    if (distance > 0 && matches(preferred + distance)) {
+      return preferred + distance;
+    }
+  }
+  return null;
+}
+
+interface SplitDocument {
+  lines: string[];
+  lineStarts: number[];
+  eol: string;
+  endsWithNewline: boolean;
+  length: number;
+}
+
+function splitLines(text: string): SplitDocument {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const lines: string[] = [];
+  const lineStarts: number[] = [];
+  const pattern = /\r?\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    lineStarts.push(start);
+    lines.push(text.slice(start, match.index));
+    start = match.index + match[0].length;
+  }
+  const endsWithNewline = start === text.length && text.length > 0;
+  if (!endsWithNewline) {
+    lineStarts.push(start);
+    lines.push(text.slice(start));
+  }
+  return { lines, lineStarts, eol, endsWithNewline, length: text.length };
+}
+
+function toOffset(document: SplitDocument, position: Range['start']): number {
+  const { line, character } = position ?? {};
+  if (!Number.isInteger(line) || !Number.isInteger(character) || line < 0 || character < 0) {
+    throw new Error('positions need non-negative integer line and character');
+  }
+  // The position just past a final newline is a valid place to append
+  if (line === document.lines.length && character === 0 && document.endsWithNewline) {
+    return document.length;
+  }
+  if (line >= document.lines.length) {
+    throw new Error(`line ${line} is past the end of the document`);
+  }
+  if (character > document.lines[line].length) {
+    throw new Error(`character ${character} is past the end of line ${line}`);
+  }
+  return document.lineStarts[line] + character;
+}
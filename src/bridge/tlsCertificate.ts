@@ -0,0 +1,214 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import * as crypto from 'crypto';
+
+export interface BridgeCertificate {
+  cert: string; // PEM
+  key: string; // PEM, PKCS#8
+  fingerprint: string; // SHA-256, colon separated upper-case hex
+  validTo: string;
+}
+
+export interface CertificateOptions {
+  commonName: string;
+  hostnames: string[]; // DNS names and IP addresses for subjectAltName
+  validDays: number;
+}
+
+const CERT_FILE = 'bridge-tls-cert.pem';
+const KEY_FILE = 'bridge-tls-key.pem';
+const CERT_VALID_DAYS = 365;
+const RENEW_BEFORE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Loads the bridge certificate from `directory`, generating a new self-signed one when
+ * none exists or the current one expires within 30 days. Renewal changes the fingerprint.
+ */
+export function loadOrCreateBridgeCertificate(directory: string): BridgeCertificate & { created: boolean } {
+  const certPath = path.join(directory, CERT_FILE);
+  const keyPath = path.join(directory, KEY_FILE);
+
+  if (fs.existsSync(certPath) && fs.existsSync(keyPath)) {
+    const cert = fs.readFileSync(certPath, 'utf8');
+    const x509 = new crypto.X509Certificate(cert);
+    if (Date.parse(x509.validTo) - Date.now() > RENEW_BEFORE_MS) {
+      return {
+        cert,
+        key: fs.readFileSync(keyPath, 'utf8'),
+        fingerprint: x509.fingerprint256,
+        validTo: new Date(x509.validTo).toISOString(),
+        created: false
+      };
+    }
+  }
+
+  const certificate = generateSelfSignedCertificate({
+    commonName: 'Automatus VS Code Bridge',
+    hostnames: ['localhost', os.hostname(), '127.0.0.1', '::1'],
+    validDays: CERT_VALID_DAYS
+  });
+
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(keyPath, certificate.key, { mode: 0o600 });
+  fs.writeFileSync(certPath, certificate.cert, { mode: 0o644 });
+  return { ...certificate, created: true };
+}
+
+// Normalizes user-supplied fingerprints ("ab:cd..", "ABCD..", "sha256/AB CD..") for comparison
+export function normalizeFingerprint(fingerprint: string): string {
+  const hex = fingerprint.replace(/^sha256[/:]?/i, '').replace(/[^0-9a-f]/gi, '').toUpperCase();
+  return hex.match(/.{2}/g)?.join(':') ?? '';
+}
+
+/**
+ * Generates an ECDSA P-256 self-signed server certificate. Node can sign but not build
+ * X.509 structures, so the TBSCertificate is DER-encoded here.
+ */
+export function generateSelfSignedCertificate(options: CertificateOptions): BridgeCertificate {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  const notBefore = new Date(Date.now() - 60 * 60 * 1000); // Tolerate clock skew
+  const notAfter = new Date(notBefore.getTime() + options.validDays * 24 * 60 * 60 * 1000);
+  const name = sequence(set(sequence(oid(OID.commonName), utf8String(options.commonName))));
+  const signatureAlgorithm = sequence(oid(OID.ecdsaWithSha256));
+
+  const tbsCertificate = sequence(
+    explicit(0, integer(Buffer.from([2]))), // v3
+    integer(randomSerial()),
+    signatureAlgorithm,
+    name,
+    sequence(time(notBefore), time(notAfter)),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    explicit(3, sequence(
+      extension(OID.basicConstraints, true, sequence()),
+      extension(OID.keyUsage, true, bitString(Buffer.from([0x80]), 7)), // digitalSignature
+      extension(OID.extKeyUsage, false, sequence(oid(OID.serverAuth))),
+      extension(OID.subjectAltName, false, sequence(...options.hostnames.map(generalName)))
+    ))
+  );
+
+  const signature = crypto.sign('sha256', tbsCertificate, privateKey);
+  const der = sequence(tbsCertificate, signatureAlgorithm, bitString(signature));
+  const cert = toPem('CERTIFICATE', der);
+  const x509 = new crypto.X509Certificate(cert);
+
+  return {
+    cert,
+    key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    fingerprint: x509.fingerprint256,
+    validTo: notAfter.toISOString()
+  };
+}
+
+const OID = {
+  commonName: '2.5.4.3',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  basicConstraints: '2.5.29.19',
+  keyUsage: '2.5.29.15',
+  extKeyUsage: '2.5.29.37',
+  subjectAltName: '2.5.29.17',
+  serverAuth: '1.3.6.1.5.5.7.3.1'
+};
+
+function tlv(tag: number, content: Buffer): Buffer {
+  const length = content.length;
+  if (length < 0x80) {
+    return Buffer.concat([Buffer.from([tag, length]), content]);
+  }
+  const lengthBytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining >>= 8) {
+    lengthBytes.unshift(remaining & 0xff);
+  }
+  return Buffer.concat([Buffer.from([tag, 0x80 | lengthBytes.length, ...lengthBytes]), content]);
+}
+
+function sequence(...items: Buffer[]): Buffer {
+  return tlv(0x30, Buffer.concat(items));
+}
+
+function set(...items: Buffer[]): Buffer {
+  return tlv(0x31, Buffer.concat(items));
+}
+
+function explicit(tagNumber: number, content: Buffer): Buffer {
+  return tlv(0xa0 + tagNumber, content);
+}
+
+function integer(value: Buffer): Buffer {
+  // DER integers are signed; keep positive values positive
+  return tlv(0x02, value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value);
+}
+
+function bitString(value: Buffer, unusedBits = 0): Buffer {
+  return tlv(0x03, Buffer.concat([Buffer.from([unusedBits]), value]));
+}
+
+function octetString(value: Buffer): Buffer {
+  return tlv(0x04, value);
+}
+
+function utf8String(value: string): Buffer {
+  return tlv(0x0c, Buffer.from(value, 'utf8'));
+}
+
+function oid(value: string): Buffer {
+  const parts = value.split('.').map(Number);
+  const bytes = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const encoded = [part & 0x7f];
+    for (let remaining = part >> 7; remaining > 0; remaining >>= 7) {
+      encoded.unshift((remaining & 0x7f) | 0x80);
+    }
+    bytes.push(...encoded);
+  }
+  return tlv(0x06, Buffer.from(bytes));
+}
+
+// UTCTime until 2049, GeneralizedTime afterwards (RFC 5280 4.1.2.5)
+function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  return date.getUTCFullYear() < 2050
+    ? tlv(0x17, Buffer.from(iso.slice(2), 'ascii'))
+    : tlv(0x18, Buffer.from(iso, 'ascii'));
+}
+
+function extension(id: string, critical: boolean, value: Buffer): Buffer {
+  return critical
+    ? sequence(oid(id), tlv(0x01, Buffer.from([0xff])), octetString(value))
+    : sequence(oid(id), octetString(value));
+}
+
+function generalName(hostname: string): Buffer {
+  if (net.isIPv4(hostname)) {
+    return tlv(0x87, Buffer.from(hostname.split('.').map(Number)));
+  }
+  if (net.isIPv6(hostname)) {
+    return tlv(0x87, ipv6Bytes(hostname));
+  }
+  return tlv(0x82, Buffer.from(hostname, 'ascii'));
+}
+
+function ipv6Bytes(address: string): Buffer {
+  const [head, tail = ''] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = address.includes('::') && tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  const groups = [...headGroups, ...new Array(missing).fill('0'), ...tailGroups];
+  const bytes = Buffer.alloc(16);
+  groups.forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16), index * 2));
+  return bytes;
+}
+
+function randomSerial(): Buffer {
+  const serial = crypto.randomBytes(16);
+  serial[0] = (serial[0] & 0x7f) | 0x01; // Positive and without redundant leading zeros
+  return serial;
+}
+
+function toPem(label: string, der: Buffer): string {
+  const base64 = der.toString('base64').match(/.{1,64}/g)!.join('\n');
+  return `-----BEGIN ${label}-----\n${base64}\n-----END ${label}-----\n`;
+}
@@ -16,10 +16,13 @@ export type BridgeMessageType =
   | 'HANDSHAKE'
   | 'WORKSPACE_REQUEST'
   | 'WORKSPACE_RESPONSE'
+  | 'WORKSPACE_EVENT'
   | 'COMMAND_EXECUTE'
   | 'COMMAND_RESPONSE'
+  | 'COMMAND_PROGRESS'
   | 'FILE_CHANGE'
   | 'UI_SPAWN'
+  | 'UI_EVENT'
   | 'ERROR'
   | 'HEARTBEAT'
   | 'ANALYTICS_UPDATE';
@@ -42,6 +45,7 @@ export interface VSCodeResponse extends BridgeMessage {
     success: boolean;
     result?: string | number | boolean | object | null;
     error?: string;
+    code?: BridgeErrorCode; // Why a failed command was refused, when it was
     metadata?: {
       executionTime: number;
       filesModified: string[];
@@ -50,6 +54,17 @@ export interface VSCodeResponse extends BridgeMessage {
   };
 }
 
+// Partial output of a long-running command, sent before its COMMAND_RESPONSE
+export interface CommandProgressMessage extends BridgeMessage {
+  type: 'COMMAND_PROGRESS';
+  payload: {
+    commandId: string; // id of the COMMAND_EXECUTE message this progress belongs to
+    sequence: number;
+    chunk: string;
+    stream?: 'stdout' | 'stderr'; // Set for run_task output
+  };
+}
+
 // Workspace State Types
 export interface WorkspaceRequest extends BridgeMessage {
   type: 'WORKSPACE_REQUEST';
@@ -76,6 +91,17 @@ export interface WorkspaceState {
   diagnostics: DiagnosticInfo[];
 }
 
+// Workspace changes pushed to the TUI; filtered by the connection's subscriptions
+export interface WorkspaceEventMessage extends BridgeMessage {
+  type: 'WORKSPACE_EVENT';
+  payload: {
+    updateType: 'file_change' | 'active_editor_change' | 'workspace_change' | 'git_change' | 'diagnostics_change' | 'initial_context';
+    subscriptionIds: string[]; // Subscriptions the updates matched; empty for unfiltered connections
+    updates?: object[];
+    context?: object; // Workspace snapshot, only for 'initial_context'
+  };
+}
+
 // File and Project Types
 export interface FileInfo {
   path: string;
@@ -103,6 +129,7 @@ export interface DiagnosticInfo {
   message: string;
   severity: 'error' | 'warning' | 'info' | 'hint';
   source: string;
+  code?: string;
 }
 
 // Code Context for Operations
@@ -142,22 +169,48 @@ export interface FileChangeNotification extends BridgeMessage {
 export interface UISpawnRequest extends BridgeMessage {
   type: 'UI_SPAWN';
   payload: {
+    panelId?: string; // Spawning again with the same id updates and reveals the existing panel
     panelType: 'preview' | 'diff' | 'analysis' | 'chat' | 'approval';
     title: string;
     data: string | object;
     options?: {
       column?: 'active' | 'beside' | 'one' | 'two' | 'three';
       preserveFocus?: boolean;
-      enableScripts?: boolean;
+      enableScripts?: boolean; // false renders the panel without its buttons' script
     };
   };
 }
 
+// User interaction with a spawned panel, sent to the connection that spawned it
+export interface UIEventMessage extends BridgeMessage {
+  type: 'UI_EVENT';
+  payload: {
+    panelId: string;
+    panelType: UISpawnRequest['payload']['panelType'];
+    action: string; // Button action id, 'reply' for chat replies, or 'closed'
+    value?: string;
+  };
+}
+
 // Error Handling
+export type BridgeErrorCode =
+  | 'INVALID_MESSAGE'
+  | 'AUTH_REQUIRED'
+  | 'RATE_LIMITED'
+  | 'UNKNOWN_COMMAND'
+  | 'UNSUPPORTED_MESSAGE_TYPE'
+  | 'UNSUPPORTED_VERSION'
+  | 'PERMISSION_DENIED'
+  | 'VALIDATION_ERROR'
+  | 'APPROVAL_DENIED'
+  | 'COMMAND_FAILED'
+  | 'CIRCUIT_BREAKER_OPEN'
+  | 'MESSAGE_TOO_LARGE';
+
 export interface BridgeError extends BridgeMessage {
   type: 'ERROR';
   payload: {
-    code: string;
+    code: BridgeErrorCode;
     message: string;
     details?: string | object;
     recoverable: boolean;
@@ -165,10 +218,22 @@ export interface BridgeError extends BridgeMessage {
 }
 
 // Handshake and Connection
+// Optional protocol features negotiated during the handshake
+export type BridgeFeature =
+  | 'workspace_request'
+  | 'file_change'
+  | 'subscriptions'
+  | 'progress'
+  | 'cancellation'
+  | 'chunked_transfer'
+  | 'ui_spawn';
+
 export interface HandshakeMessage extends BridgeMessage {
   type: 'HANDSHAKE';
   payload: {
-    version: string;
+    version: string; // Preferred protocol version (TUI) or negotiated version (VSCode)
+    supportedVersions?: string[];
+    features?: string[];
     capabilities: string[];
     safetyPhase: number;
     clientInfo: {
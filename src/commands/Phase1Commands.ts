@@ -5,6 +5,7 @@ import { ConfigurationManager } from '../config/ConfigurationManager';
 import { CodeContext, CodePreview, AnalysisResult, Explanation } from '../types';
 import { createSafeOutputChannel, safeDispose } from '../utils/outputChannel';
 import { safeRegisterDisposable } from '../utils/ExtensionLifecycle';
+import { linkCancellationToken } from '../utils/cancellation';
 
 export class Phase1Commands {
   private client: SafeAutomatusClient;
@@ -75,10 +76,12 @@ export class Phase1Commands {
         title: 'Generating code preview...',
         cancellable: true
       }, async (progress, token) => {
+        const cancellation = linkCancellationToken(token);
         try {
-          const codePreview = await this.client.generateCodePreview(prompt, context);
+          const codePreview = await this.client.generateCodePreview(prompt, context, { signal: cancellation.signal });
 
           if (token.isCancellationRequested) {
+            this.logCancellation('generate_code_preview', { prompt });
             return;
           }
 
@@ -91,6 +94,11 @@ export class Phase1Commands {
           });
 
         } catch (error) {
+          if (token.isCancellationRequested) {
+            this.logCancellation('generate_code_preview', { prompt });
+            return;
+          }
+
           const errorMsg = error instanceof Error ? error.message : String(error);
           this.outputChannel.appendLine(`Code generation failed: ${errorMsg}`);
           vscode.window.showErrorMessage(`Code generation failed: ${errorMsg}`);
@@ -100,6 +108,8 @@ export class Phase1Commands {
             success: false,
             error: errorMsg
           });
+        } finally {
+          cancellation.dispose();
         }
       });
 
@@ -144,10 +154,12 @@ export class Phase1Commands {
         title: 'Analyzing code...',
         cancellable: true
       }, async (progress, token) => {
+        const cancellation = linkCancellationToken(token);
         try {
-          const analysis = await this.client.analyzeCode(context);
+          const analysis = await this.client.analyzeCode(context, { signal: cancellation.signal });
 
           if (token.isCancellationRequested) {
+            this.logCancellation('analyze_code', { file: editor.document.fileName });
             return;
           }
 
@@ -160,6 +172,11 @@ export class Phase1Commands {
           });
 
         } catch (error) {
+          if (token.isCancellationRequested) {
+            this.logCancellation('analyze_code', { file: editor.document.fileName });
+            return;
+          }
+
           const errorMsg = error instanceof Error ? error.message : String(error);
           this.outputChannel.appendLine(`Code analysis failed: ${errorMsg}`);
           vscode.window.showErrorMessage(`Code analysis failed: ${errorMsg}`);
@@ -169,6 +186,8 @@ export class Phase1Commands {
             success: false,
             error: errorMsg
           });
+        } finally {
+          cancellation.dispose();
         }
       });
 
@@ -214,10 +233,12 @@ export class Phase1Commands {
         title: 'Explaining code...',
         cancellable: true
       }, async (progress, token) => {
+        const cancellation = linkCancellationToken(token);
         try {
-          const explanation = await this.client.explainCode(selectedText, context);
+          const explanation = await this.client.explainCode(selectedText, context, { signal: cancellation.signal });
 
           if (token.isCancellationRequested) {
+            this.logCancellation('explain_code', { file: editor.document.fileName });
             return;
           }
 
@@ -230,6 +251,11 @@ export class Phase1Commands {
           });
 
         } catch (error) {
+          if (token.isCancellationRequested) {
+            this.logCancellation('explain_code', { file: editor.document.fileName });
+            return;
+          }
+
           const errorMsg = error instanceof Error ? error.message : String(error);
           this.outputChannel.appendLine(`Code explanation failed: ${errorMsg}`);
           vscode.window.showErrorMessage(`Code explanation failed: ${errorMsg}`);
@@ -239,6 +265,8 @@ export class Phase1Commands {
             success: false,
             error: errorMsg
           });
+        } finally {
+          cancellation.dispose();
         }
       });
 
@@ -319,6 +347,16 @@ Connected: ${this.client.isConnected() ? 'Yes' : 'No'}
     }
   }
 
+  private logCancellation(operation: string, details: Record<string, string>): void {
+    this.outputChannel.appendLine(`${operation} cancelled by user`);
+    this.safetyGuard.logOperation(operation, {
+      ...details,
+      success: false,
+      cancelled: true,
+      error: 'Cancelled by user'
+    });
+  }
+
   private buildCodeContext(editor: vscode.TextEditor): CodeContext {
     return {
       currentFile: editor.document.fileName,
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { AutomatusConfig, SAFETY_PHASES } from '../types';
 import { safeRegisterDisposable } from '../utils/ExtensionLifecycle';
+import { getDefaultIpcPath } from '../bridge/ipcTransport';
+import { DEFAULT_TASK_ALLOWLIST } from '../bridge/taskRunner';
 
 export class ConfigurationManager {
   private static instance: ConfigurationManager;
@@ -25,6 +27,17 @@ export class ConfigurationManager {
     return { ...this.config };
   }
 
+  // Socket path of the ipc bridge transport, unique to the open workspace
+  getBridgeSocketPath(): string {
+    if (this.config.bridgeSocketPath) {
+      return this.config.bridgeSocketPath;
+    }
+    const workspaceKey = vscode.workspace.workspaceFile?.fsPath ||
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ||
+      'no-workspace';
+    return getDefaultIpcPath(workspaceKey);
+  }
+
   private loadConfiguration(): AutomatusConfig {
     const vsconfig = vscode.workspace.getConfiguration('automatus');
 
@@ -38,10 +51,22 @@ export class ConfigurationManager {
       auditLogLevel: vsconfig.get('audit.logLevel', 'all') as 'all' | 'changes_only' | 'errors_only',
       serverUrl: vsconfig.get('server.url', 'http://localhost:9000'),
       bridgePort: vsconfig.get('bridge.port', 19888),
+      bridgeTransport: vsconfig.get('bridge.transport', 'websocket') as 'websocket' | 'ipc',
+      bridgeSocketPath: vsconfig.get('bridge.socketPath', ''),
+      bridgeEnableHttp: vsconfig.get('bridge.enableHttp', true),
+      bridgeTls: vsconfig.get('bridge.tls.enabled', false),
       bridgeTimeout: vsconfig.get('bridge.timeout', 30000),
       bridgeRetryAttempts: vsconfig.get('bridge.retryAttempts', 3),
       bridgeEnableHeartbeat: vsconfig.get('bridge.enableHeartbeat', true),
-      bridgeHeartbeatInterval: vsconfig.get('bridge.heartbeatInterval', 30000)
+      bridgeHeartbeatInterval: vsconfig.get('bridge.heartbeatInterval', 30000),
+      bridgeCommandBreakerThreshold: vsconfig.get('bridge.circuitBreaker.commandFailureThreshold', 5),
+      bridgeCommandBreakerCooldown: vsconfig.get('bridge.circuitBreaker.commandCooldown', 30000),
+      bridgeConnectionBreakerThreshold: vsconfig.get('bridge.circuitBreaker.connectionFailureThreshold', 20),
+      bridgeConnectionBreakerCooldown: vsconfig.get('bridge.circuitBreaker.connectionCooldown', 60000),
+      bridgeTaskAllowlist: vsconfig.get('bridge.tasks.allowlist', DEFAULT_TASK_ALLOWLIST),
+      auditMaxFileSizeMB: vsconfig.get('audit.maxFileSizeMB', 5),
+      auditMaxFiles: vsconfig.get('audit.maxFiles', 10),
+      auditCategories: vsconfig.get('audit.categories', {})
     };
   }
 
@@ -6,8 +6,11 @@ import { ConfigurationManager } from './config/ConfigurationManager';
 import { Phase1Commands } from './commands/Phase1Commands';
 import { ChatViewProvider } from './ui/ChatViewProvider';
 import { SafetyStatusViewProvider, SafetyStatusViewCommands } from './ui/SafetyStatusViewProvider';
+import { BridgeSessionsViewProvider, BridgeSessionsViewCommands } from './ui/BridgeSessionsViewProvider';
 import { TUIConnectionManager } from './tui/TUIConnectionManager';
 import { WorkspaceContextManager } from './workspace/WorkspaceContextManager';
+import { TestRunService } from './workspace/TestRunService';
+import { linkCancellationToken } from './utils/cancellation';
 import { getExtensionLifecycle, safeRegisterDisposable, LifecycleComponent } from './utils/ExtensionLifecycle';
 
 let bridgeServer: BridgeServer;
@@ -18,8 +21,11 @@ let phase1Commands: Phase1Commands;
 let chatProvider: ChatViewProvider;
 let statusProvider: SafetyStatusViewProvider;
 let statusCommands: SafetyStatusViewCommands;
+let sessionsProvider: BridgeSessionsViewProvider | undefined;
+let sessionsCommands: BridgeSessionsViewCommands | undefined;
 let tuiConnectionManager: TUIConnectionManager;
 let workspaceContextManager: WorkspaceContextManager;
+let testRunService: TestRunService;
 
 export async function activate(context: vscode.ExtensionContext) {
 	console.log('Activating Automatus extension...');
@@ -33,12 +39,17 @@ export async function activate(context: vscode.ExtensionContext) {
 
 		// Initialize safety guard first
 		safetyGuard = new SafetyGuard(config);
+		// Workspace storage keeps per-project audit trails; global storage covers empty windows
+		const auditStorage = context.storageUri ?? context.globalStorageUri;
+		safetyGuard.enablePersistentAudit(vscode.Uri.joinPath(auditStorage, 'audit').fsPath, context.globalState);
 
 		// Initialize bridge server
 		bridgeServer = new BridgeServer(configManager, safetyGuard, context);
 
 		// Initialize workspace context manager
 		workspaceContextManager = new WorkspaceContextManager(safetyGuard, configManager);
+		testRunService = new TestRunService(safetyGuard, () => workspaceContextManager.handleProjectQuery({ includeBuildCommands: true }));
+		safeRegisterDisposable(testRunService);
 
 		// Initialize TUI connection manager with bridge token generator
 		tuiConnectionManager = new TUIConnectionManager(
@@ -50,11 +61,14 @@ export async function activate(context: vscode.ExtensionContext) {
 					version: '1.0.0',
 					platform: process.platform
 				});
-			}
+			},
+			() => bridgeServer.getAuthenticationStatus().tlsFingerprint
 		);
 
 		// Initialize client
 		client = new SafeAutomatusClient(config);
+		bridgeServer.getBridge().setAutomatusClient(client);
+		bridgeServer.getBridge().setTestRunService(testRunService);
 
 		// Initialize Phase 1 commands
 		try {
@@ -84,6 +98,15 @@ export async function activate(context: vscode.ExtensionContext) {
 		statusCommands = new SafetyStatusViewCommands(configManager, safetyGuard, statusProvider);
 		statusCommands.registerCommands(context);
 
+		// Initialize bridge sessions view and its session actions
+		sessionsProvider = new BridgeSessionsViewProvider(bridgeServer.getBridge());
+		safeRegisterDisposable(sessionsProvider);
+		safeRegisterDisposable(
+			vscode.window.registerTreeDataProvider('automatusBridgeSessions', sessionsProvider)
+		);
+		sessionsCommands = new BridgeSessionsViewCommands(bridgeServer.getBridge(), sessionsProvider);
+		sessionsCommands.registerCommands();
+
 		// Set up configuration change handlers
 		configManager.onConfigurationChanged((newConfig) => {
 			client.updateConfig(newConfig);
@@ -148,6 +171,41 @@ function registerGlobalCommands(context: vscode.ExtensionContext): void {
 			}
 		}),
 
+		vscode.commands.registerCommand('automatus.runTests', async () => {
+			if (configManager.getConfiguration().safetyPhase < 3) {
+				vscode.window.showWarningMessage('Running tests requires Safety Phase 3 or higher');
+				return;
+			}
+
+			try {
+				const report = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: 'Automatus: Running tests', cancellable: true },
+					async (_progress, token) => {
+						const linked = linkCancellationToken(token);
+						try {
+							return await testRunService.run({}, { initiator: 'user', signal: linked.signal });
+						} finally {
+							linked.dispose();
+						}
+					}
+				);
+
+				const { passed, failed, skipped } = report.summary;
+				const message = `${report.runner}: ${passed} passed, ${failed} failed, ${skipped} skipped` +
+					(report.reportError ? ` (${report.reportError})` : '');
+				if (failed > 0 || report.exitCode !== 0) {
+					const choice = await vscode.window.showWarningMessage(message, 'Show Problems');
+					if (choice === 'Show Problems') {
+						vscode.commands.executeCommand('workbench.actions.view.problems');
+					}
+				} else {
+					vscode.window.showInformationMessage(message);
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(`Test run failed: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}),
+
 		vscode.commands.registerCommand('automatus.showOutput', () => {
 			// This command is provided by the client's output channel
 			client['outputChannel']?.show();
@@ -349,7 +407,9 @@ function registerBridgeCommands(context: vscode.ExtensionContext): void {
 
     <div class="status ${health.status}">
         <h3>Overall Health: ${health.status.toUpperCase()}</h3>
-        <p>Port: ${health.configuration.port}</p>
+        ${health.configuration.transport === 'ipc'
+          ? `<p>Socket: ${health.configuration.socketPath}</p>`
+          : `<p>Port: ${health.configuration.port}${health.configuration.tls ? ' (wss://)' : ''}</p>`}
         <p>Safety Phase: ${health.configuration.safetyPhase}</p>
         <p>Require Approval: ${health.configuration.requireApproval ? 'Yes' : 'No'}</p>
     </div>
@@ -468,7 +528,20 @@ Revoked Tokens: ${status.revokedTokens}
 Blocked IPs: ${status.blockedIPs}
 Auth Failures: ${status.authFailures}`;
 
-				vscode.window.showInformationMessage(message, { modal: true });
+				if (!status.tlsFingerprint) {
+					vscode.window.showInformationMessage(message, { modal: true });
+					return;
+				}
+
+				// TUIs pin the self-signed wss:// certificate by this fingerprint
+				const choice = await vscode.window.showInformationMessage(
+					`${message}\nTLS Fingerprint (SHA-256): ${status.tlsFingerprint}`,
+					{ modal: true },
+					'Copy Fingerprint'
+				);
+				if (choice === 'Copy Fingerprint') {
+					await vscode.env.clipboard.writeText(status.tlsFingerprint);
+				}
 			} catch (error) {
 				const errorMsg = error instanceof Error ? error.message : String(error);
 				vscode.window.showErrorMessage(`Failed to get auth status: ${errorMsg}`);
@@ -633,6 +706,8 @@ export async function deactivate(): Promise<void> {
 		if (statusCommands) {
 			statusCommands = undefined as any;
 		}
+		sessionsProvider = undefined;
+		sessionsCommands = undefined;
 
 		// Finally dispose all lifecycle managed resources
 		try {
@@ -0,0 +1,380 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { AuditCategory } from '../types';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  operation: string;
+  category?: AuditCategory; // Absent on entries written before categories existed
+  data: any;
+  safetyPhase: number;
+  userId: string;
+  // Chain fields, assigned when the entry is persisted
+  seq?: number;
+  prevHash?: string;
+  hash?: string;
+}
+
+export interface AuditStoreOptions {
+  maxFileBytes: number;
+  maxFiles: number; // Rotated files kept besides the active one
+}
+
+// The ends of the chain, kept outside the log directory so that cutting entries off either end is caught
+export interface AuditAnchor {
+  firstSeq: number; // Oldest entry still on disk; above 0 once rotation has pruned files
+  firstHash: string;
+  lastSeq: number;
+  lastHash: string;
+}
+
+// Where the anchor is kept, e.g. the extension's globalState
+export interface AuditAnchorStorage {
+  get(): AuditAnchor | undefined;
+  update(anchor: AuditAnchor): PromiseLike<void>;
+}
+
+export interface AuditVerificationResult {
+  valid: boolean;
+  entriesChecked: number;
+  filesChecked: string[];
+  firstSequence?: number; // Above 0 when older files were removed by rotation
+  lastSequence?: number;
+  error?: {
+    file: string;
+    line: number;
+    reason: string;
+  };
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const ACTIVE_FILE = 'audit.jsonl';
+const ROTATED_FILE_PATTERN = /^audit-(\d+)\.jsonl$/;
+
+/**
+ * Append-only JSONL audit store. Every entry carries the hash of its predecessor,
+ * so editing or deleting a persisted line breaks the chain and is caught by verify().
+ * With anchor storage, the first and last entries are also recorded outside the log, so
+ * entries removed from the start or the end are caught as well, across restarts.
+ * Writes are serialized through a single queue; failures are reported, never thrown.
+ */
+export class AuditStore {
+  private queue: Promise<void>;
+  private lastHash = GENESIS_HASH;
+  private nextSeq = 0;
+  private activeSize = 0;
+  private wroteEntries = false;
+  private anchor: AuditAnchor | undefined;
+
+  constructor(
+    private readonly directory: string,
+    private readonly options: AuditStoreOptions,
+    private readonly onError: (error: unknown) => void = () => {},
+    private readonly anchorStorage?: AuditAnchorStorage
+  ) {
+    this.queue = this.run(() => this.initialize());
+  }
+
+  append(entry: AuditEntry): void {
+    // Snapshot the payload now; callers may mutate it before the write runs
+    entry.data = toJsonSnapshot(entry.data);
+    this.queue = this.queue.then(() => this.run(() => this.write(entry)));
+  }
+
+  // Resolves once every entry appended so far has been written
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  async verify(): Promise<AuditVerificationResult> {
+    let result: AuditVerificationResult | undefined;
+    this.queue = this.queue.then(() => this.run(async () => {
+      result = await this.verifyFiles();
+    }));
+    await this.queue;
+
+    return result ?? {
+      valid: false,
+      entriesChecked: 0,
+      filesChecked: [],
+      error: { file: this.directory, line: 0, reason: 'Audit log could not be read' }
+    };
+  }
+
+  // Every persisted entry, oldest first; unreadable lines are skipped (verify() reports them)
+  async readEntries(): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    this.queue = this.queue.then(() => this.run(async () => {
+      for (const file of await this.listFiles()) {
+        for (const line of await this.readLines(file)) {
+          try {
+            entries.push(JSON.parse(line));
+          } catch {
+            // Skip corrupted lines
+          }
+        }
+      }
+    }));
+    await this.queue;
+    return entries;
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  private async run(task: () => Promise<void>): Promise<void> {
+    try {
+      await task();
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+
+  /**
+   * Resumes the chain from the anchored last entry, or from the last persisted entry when there
+   * is no anchor yet. Resuming from the anchor keeps a truncated log from being picked up as if
+   * nothing was missing; the gap stays in the chain for verify() to report.
+   */
+  private async initialize(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const files = await this.listFiles();
+    if (files.includes(ACTIVE_FILE)) {
+      this.activeSize = (await fs.stat(path.join(this.directory, ACTIVE_FILE))).size;
+    }
+
+    this.anchor = this.anchorStorage?.get();
+    if (this.anchor) {
+      this.lastHash = this.anchor.lastHash;
+      this.nextSeq = this.anchor.lastSeq + 1;
+      return;
+    }
+
+    for (let i = files.length - 1; i >= 0; i--) {
+      const last = this.findLastEntry(await this.readLines(files[i]));
+      if (last) {
+        this.lastHash = last.hash;
+        this.nextSeq = last.seq + 1;
+        break;
+      }
+    }
+
+    // A log written before anchors existed is trusted as it is found
+    if (this.anchorStorage && this.nextSeq > 0) {
+      const first = await this.findFirstEntry(files);
+      if (first) {
+        await this.saveAnchor({ firstSeq: first.seq, firstHash: first.hash, lastSeq: this.nextSeq - 1, lastHash: this.lastHash });
+      }
+    }
+  }
+
+  private async write(entry: AuditEntry): Promise<void> {
+    entry.seq = this.nextSeq;
+    entry.prevHash = this.lastHash;
+    entry.hash = computeEntryHash(entry);
+
+    const line = JSON.stringify(entry) + '\n';
+    const size = Buffer.byteLength(line);
+    if (this.activeSize > 0 && this.activeSize + size > this.options.maxFileBytes) {
+      await this.rotate(entry.seq - 1);
+    }
+
+    await fs.appendFile(path.join(this.directory, ACTIVE_FILE), line, { encoding: 'utf8', mode: 0o600 });
+    this.activeSize += size;
+    this.lastHash = entry.hash;
+    this.nextSeq++;
+    this.wroteEntries = true;
+
+    if (this.anchorStorage) {
+      await this.saveAnchor({
+        firstSeq: this.anchor?.firstSeq ?? entry.seq,
+        firstHash: this.anchor?.firstHash ?? entry.hash,
+        lastSeq: entry.seq,
+        lastHash: entry.hash
+      });
+    }
+  }
+
+  private async rotate(lastSeq: number): Promise<void> {
+    const rotatedName = `audit-${String(lastSeq).padStart(12, '0')}.jsonl`;
+    await fs.rename(path.join(this.directory, ACTIVE_FILE), path.join(this.directory, rotatedName));
+    this.activeSize = 0;
+
+    const rotated = (await this.listFiles()).filter(file => file !== ACTIVE_FILE);
+    const excess = rotated.length - this.options.maxFiles;
+    for (const file of rotated.slice(0, Math.max(0, excess))) {
+      await fs.unlink(path.join(this.directory, file));
+    }
+
+    // Pruned entries are gone on purpose; the log now starts at the oldest file kept
+    if (this.anchor && excess > 0) {
+      const first = await this.findFirstEntry(await this.listFiles());
+      if (first) {
+        await this.saveAnchor({ ...this.anchor, firstSeq: first.seq, firstHash: first.hash });
+      }
+    }
+  }
+
+  private async saveAnchor(anchor: AuditAnchor): Promise<void> {
+    this.anchor = anchor;
+    await this.anchorStorage?.update(anchor);
+  }
+
+  private async verifyFiles(): Promise<AuditVerificationResult> {
+    const files = await this.listFiles();
+    const result: AuditVerificationResult = { valid: true, entriesChecked: 0, filesChecked: files };
+    let previous: { seq: number; hash: string } | null = null;
+
+    for (const file of files) {
+      const lines = await this.readLines(file);
+
+      for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) {
+          continue;
+        }
+
+        const fail = (reason: string): AuditVerificationResult => ({
+          ...result,
+          valid: false,
+          error: { file, line: i + 1, reason }
+        });
+
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(lines[i]);
+        } catch {
+          return fail('Line is not valid JSON');
+        }
+
+        if (typeof entry.seq !== 'number' || typeof entry.hash !== 'string' || typeof entry.prevHash !== 'string') {
+          return fail('Entry is missing its chain fields');
+        }
+        if (computeEntryHash(entry) !== entry.hash) {
+          return fail(`Entry ${entry.seq} does not match its hash (edited)`);
+        }
+
+        if (previous) {
+          if (entry.prevHash !== previous.hash || entry.seq !== previous.seq + 1) {
+            return fail(`Entry ${entry.seq} does not follow entry ${previous.seq} (entries removed or reordered)`);
+          }
+        } else {
+          result.firstSequence = entry.seq;
+          if (entry.seq === 0 && entry.prevHash !== GENESIS_HASH) {
+            return fail('First entry does not start the chain');
+          }
+          if (this.anchor && (entry.seq !== this.anchor.firstSeq || entry.hash !== this.anchor.firstHash)) {
+            return fail(`Log starts at entry ${entry.seq} instead of entry ${this.anchor.firstSeq} (entries removed from the start)`);
+          }
+        }
+
+        previous = { seq: entry.seq, hash: entry.hash };
+        result.lastSequence = entry.seq;
+        result.entriesChecked++;
+      }
+    }
+
+    if (this.anchor && (previous?.seq !== this.anchor.lastSeq || previous.hash !== this.anchor.lastHash)) {
+      const end = previous ? `entry ${previous.seq}` : 'no entries';
+      return {
+        ...result,
+        valid: false,
+        error: { file: ACTIVE_FILE, line: 0, reason: `Log ends at ${end} instead of entry ${this.anchor.lastSeq} (truncated)` }
+      };
+    }
+
+    // Entries written by this session must still be at the end of the log
+    if (this.wroteEntries && previous?.hash !== this.lastHash) {
+      return {
+        ...result,
+        valid: false,
+        error: { file: ACTIVE_FILE, line: 0, reason: 'Log ends before the last entry written in this session (truncated)' }
+      };
+    }
+
+    return result;
+  }
+
+  // Rotated files oldest first, then the active file
+  private async listFiles(): Promise<string[]> {
+    const names = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const rotated = names.filter(name => ROTATED_FILE_PATTERN.test(name)).sort();
+    return names.includes(ACTIVE_FILE) ? [...rotated, ACTIVE_FILE] : rotated;
+  }
+
+  private async readLines(file: string): Promise<string[]> {
+    try {
+      const content = await fs.readFile(path.join(this.directory, file), 'utf8');
+      const lines = content.split('\n');
+      if (lines[lines.length - 1] === '') {
+        lines.pop();
+      }
+      return lines;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async findFirstEntry(files: string[]): Promise<{ seq: number; hash: string } | null> {
+    for (const file of files) {
+      for (const line of await this.readLines(file)) {
+        try {
+          const entry = JSON.parse(line);
+          if (typeof entry.seq === 'number' && typeof entry.hash === 'string') {
+            return { seq: entry.seq, hash: entry.hash };
+          }
+        } catch {
+          // Not an entry; verify() reports it
+        }
+      }
+    }
+    return null;
+  }
+
+  private findLastEntry(lines: string[]): { seq: number; hash: string } | null {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      try {
+        const entry = JSON.parse(lines[i]);
+        if (typeof entry.seq === 'number' && typeof entry.hash === 'string') {
+          return { seq: entry.seq, hash: entry.hash };
+        }
+      } catch {
+        // Partially written line from a crash; keep looking
+      }
+    }
+    return null;
+  }
+}
+
+function toJsonSnapshot(data: any): any {
+  if (data === undefined) {
+    return null;
+  }
+  try {
+    return JSON.parse(JSON.stringify(data));
+  } catch {
+    return { unserializable: String(data) };
+  }
+}
+
+// Hash over the entry's content and its predecessor's hash, in a fixed field order
+export function computeEntryHash(entry: AuditEntry): string {
+  const content = JSON.stringify({
+    seq: entry.seq,
+    id: entry.id,
+    timestamp: entry.timestamp,
+    operation: entry.operation,
+    category: entry.category,
+    data: entry.data,
+    safetyPhase: entry.safetyPhase,
+    userId: entry.userId,
+    prevHash: entry.prevHash
+  });
+  return createHash('sha256').update(content).digest('hex');
+}
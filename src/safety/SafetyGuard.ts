@@ -1,8 +1,11 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as os from 'os';
 import { v4 as uuidv4 } from 'uuid';
 import { createSafeOutputChannel, safeDispose } from '../utils/outputChannel';
 import { BackupManager } from '../utils/backupManager';
+import { AuditAnchor, AuditEntry, AuditStore, AuditVerificationResult } from './AuditStore';
+import { classifyAuditEvent, isAuditCategoryEnabled } from './auditTaxonomy';
 import {
   AutomatusConfig,
   CodeChange,
@@ -16,6 +19,8 @@ export class SafetyGuard {
   private outputChannel: vscode.OutputChannel;
   private backupManager: BackupManager;
   private auditLog: AuditEntry[] = [];
+  private auditStore: AuditStore | null = null;
+  private readonly userId = resolveUserId();
 
   constructor(config: AutomatusConfig) {
     this.config = config;
@@ -37,7 +42,8 @@ export class SafetyGuard {
       allowedOperations: phase.permissions,
       restrictedPaths: this.getRestrictedPaths(),
       requireApprovalFor: this.getApprovalRequiredOperations(),
-      auditLevel: this.config.auditLogLevel as 'minimal' | 'standard' | 'verbose'
+      auditLevel: this.config.auditLogLevel,
+      auditCategories: this.config.auditCategories || {}
     };
   }
 
@@ -82,31 +88,38 @@ export class SafetyGuard {
   }
 
   async checkPermission(operation: string, target: string): Promise<boolean> {
-    this.logAudit('permission_check', { operation, target });
+    const denial = this.getPermissionDenial(operation, target);
+    this.logAudit('permission_check', { operation, target, allowed: !denial, reason: denial });
 
+    if (denial) {
+      this.logSafety(denial);
+      return false;
+    }
+
+    return true;
+  }
+
+  private getPermissionDenial(operation: string, target: string): string | undefined {
     // Check if operation is allowed in current phase
     if (!this.guardConfig.allowedOperations.includes(operation)) {
-      this.logSafety(`Operation '${operation}' not allowed in safety phase ${this.config.safetyPhase}`);
-      return false;
+      return `Operation '${operation}' not allowed in safety phase ${this.config.safetyPhase}`;
     }
 
     // Check path restrictions
     if (this.isRestrictedPath(target)) {
-      this.logSafety(`Access to restricted path denied: ${target}`);
-      return false;
+      return `Access to restricted path denied: ${target}`;
     }
 
     // Check if target is in allowed directories for write operations
     if (operation.includes('write') && !this.isAllowedDirectory(target)) {
-      this.logSafety(`Write operation outside allowed directories denied: ${target}`);
-      return false;
+      return `Write operation outside allowed directories denied: ${target}`;
     }
 
-    return true;
+    return undefined;
   }
 
   async requestUserApproval(change: CodeChange): Promise<boolean> {
-    const safetyWarnings = this.analyzeSafetyRisks(change);
+    const safetyWarnings = this.analyzeSafetyRisks(change.file, change.newText);
 
     let message = `Automatus wants to modify ${change.file}:\n${change.description}`;
 
@@ -132,9 +145,10 @@ export class SafetyGuard {
     return approved;
   }
 
-  private analyzeSafetyRisks(change: CodeChange): string[] {
+  // Warnings shown next to a proposed change so the user can judge it before approving
+  analyzeSafetyRisks(file: string, newText: string): string[] {
     const warnings: string[] = [];
-    const content = change.newText.toLowerCase();
+    const content = newText.toLowerCase();
 
     // Check for potentially dangerous patterns
     const riskyPatterns = [
@@ -155,13 +169,13 @@ export class SafetyGuard {
     }
 
     // Check file extension risks
-    const ext = path.extname(change.file).toLowerCase();
+    const ext = path.extname(file).toLowerCase();
     if (['.sh', '.bat', '.ps1', '.exe'].includes(ext)) {
       warnings.push('Modifying executable file');
     }
 
     if (['.json', '.yaml', '.yml', '.toml'].includes(ext) &&
-        change.file.includes('package')) {
+        file.includes('package')) {
       warnings.push('Modifying package configuration');
     }
 
@@ -230,27 +244,33 @@ export class SafetyGuard {
   }
 
   private logAudit(operation: string, data: any): void {
+    // Filtered at write time: skipped events reach neither memory, disk nor the output channel
+    const category = classifyAuditEvent(operation, data);
+    if (!isAuditCategoryEnabled(category, this.guardConfig.auditLevel, this.guardConfig.auditCategories)) {
+      return;
+    }
+
     const entry: AuditEntry = {
       id: uuidv4(),
       timestamp: new Date().toISOString(),
       operation,
+      category,
       data,
       safetyPhase: this.config.safetyPhase,
-      userId: 'current-user' // In a real implementation, get actual user ID
+      userId: this.userId
     };
 
+    this.auditStore?.append(entry);
     this.auditLog.push(entry);
 
-    // Keep only last 1000 entries
+    // Keep only last 1000 entries in memory; the persistent store keeps the full trail
     if (this.auditLog.length > 1000) {
       this.auditLog.shift();
     }
 
-    if (this.guardConfig.auditLevel !== 'minimal') {
-      this.outputChannel.appendLine(
-        `AUDIT [${entry.timestamp}]: ${operation} - ${JSON.stringify(data)}`
-      );
-    }
+    this.outputChannel.appendLine(
+      `AUDIT [${entry.timestamp}] ${category}: ${operation} - ${JSON.stringify(data)}`
+    );
   }
 
   private logSafety(message: string): void {
@@ -259,6 +279,51 @@ export class SafetyGuard {
     console.warn(logMessage);
   }
 
+  /**
+   * Persists audit entries as hash-chained JSONL under the given directory.
+   * The chain's first and last entries are anchored in anchorState, keyed by the directory.
+   * Entries logged before this call stay in memory only.
+   */
+  enablePersistentAudit(directory: string, anchorState?: vscode.Memento): void {
+    if (this.auditStore) {
+      return;
+    }
+
+    const maxFileBytes = (this.config.auditMaxFileSizeMB || 5) * 1024 * 1024;
+    const maxFiles = this.config.auditMaxFiles ?? 10;
+    const anchorKey = `automatus.auditAnchor:${directory}`;
+    const anchorStorage = anchorState && {
+      get: () => anchorState.get<AuditAnchor>(anchorKey),
+      update: (anchor: AuditAnchor) => anchorState.update(anchorKey, anchor)
+    };
+    this.auditStore = new AuditStore(directory, { maxFileBytes, maxFiles }, error => {
+      this.logSafety(`Failed to persist audit log: ${error instanceof Error ? error.message : String(error)}`);
+    }, anchorStorage);
+  }
+
+  async verifyAuditLog(): Promise<AuditVerificationResult> {
+    if (!this.auditStore) {
+      throw new Error('Persistent audit log is not enabled');
+    }
+
+    const result = await this.auditStore.verify();
+    this.logAudit('audit_verified', {
+      valid: result.valid,
+      entriesChecked: result.entriesChecked,
+      error: result.error?.reason
+    });
+    return result;
+  }
+
+  // Full persisted trail when persistence is enabled, otherwise the in-memory entries
+  async readAuditTrail(): Promise<AuditEntry[]> {
+    return this.auditStore ? this.auditStore.readEntries() : this.getAuditLog();
+  }
+
+  getAuditLogDirectory(): string | undefined {
+    return this.auditStore?.getDirectory();
+  }
+
   getAuditLog(): AuditEntry[] {
     return [...this.auditLog];
   }
@@ -303,11 +368,11 @@ export class SafetyGuard {
   }
 }
 
-interface AuditEntry {
-  id: string;
-  timestamp: string;
-  operation: string;
-  data: any;
-  safetyPhase: number;
-  userId: string;
+// OS account running VS Code, so audit entries name a real user
+function resolveUserId(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
 }
@@ -0,0 +1,104 @@
+import { AuditEntry } from './AuditStore';
+
+export interface AuditQuery {
+  operation?: string; // Exact operation name, as returned by getAuditOperation
+  safetyPhase?: number;
+  from?: string; // ISO timestamps, inclusive
+  to?: string;
+  connectionId?: string; // Matches bridge connection ids and TUI session ids
+  outcome?: 'success' | 'failure';
+  text?: string; // Case-insensitive search over the serialized entry
+}
+
+/**
+ * Operation name of an entry. Events recorded through SafetyGuard.logOperation are
+ * stored as `operation` with their real name in `data.operation`.
+ */
+export function getAuditOperation(entry: AuditEntry): string {
+  if (entry.operation === 'operation' && typeof entry.data?.operation === 'string') {
+    return entry.data.operation;
+  }
+  return entry.operation;
+}
+
+export function isAuditFailure(entry: AuditEntry): boolean {
+  const data = entry.data ?? {};
+  const details = entry.operation === 'operation' ? data.result ?? {} : data;
+  return entry.category === 'error' ||
+    data.success === false ||
+    details.success === false ||
+    !!details.error ||
+    details.allowed === false ||
+    details.approved === false;
+}
+
+// Connection or session ids an entry refers to, wherever the logging call put them
+export function getAuditConnectionIds(entry: AuditEntry): string[] {
+  const data = entry.data ?? {};
+  const ids = new Set<string>();
+  for (const source of [data, data.result]) {
+    for (const key of ['connectionId', 'sessionId']) {
+      const value = source?.[key];
+      if (typeof value === 'string' && value) {
+        ids.add(value);
+      }
+    }
+  }
+  return Array.from(ids);
+}
+
+export function filterAuditEntries(entries: AuditEntry[], query: AuditQuery): AuditEntry[] {
+  const from = query.from ? Date.parse(query.from) : NaN;
+  const to = query.to ? Date.parse(query.to) : NaN;
+  const text = query.text?.trim().toLowerCase();
+  const connectionId = query.connectionId?.trim();
+
+  return entries.filter(entry => {
+    if (query.operation && getAuditOperation(entry) !== query.operation) {
+      return false;
+    }
+    if (query.safetyPhase !== undefined && entry.safetyPhase !== query.safetyPhase) {
+      return false;
+    }
+
+    const time = Date.parse(entry.timestamp);
+    if ((!isNaN(from) && time < from) || (!isNaN(to) && time > to)) {
+      return false;
+    }
+
+    if (connectionId && !getAuditConnectionIds(entry).some(id => id.includes(connectionId))) {
+      return false;
+    }
+    if (query.outcome && isAuditFailure(entry) !== (query.outcome === 'failure')) {
+      return false;
+    }
+    if (text && !JSON.stringify(entry).toLowerCase().includes(text)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+const CSV_COLUMNS = ['timestamp', 'operation', 'category', 'outcome', 'safetyPhase', 'userId', 'connectionIds', 'id', 'data'];
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(entry => [
+    entry.timestamp,
+    getAuditOperation(entry),
+    entry.category ?? '',
+    isAuditFailure(entry) ? 'failure' : 'success',
+    String(entry.safetyPhase),
+    entry.userId,
+    getAuditConnectionIds(entry).join(' '),
+    entry.id,
+    JSON.stringify(entry.data ?? null)
+  ].map(escapeCsvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function escapeCsvField(value: string): string {
+  // Keep spreadsheets from evaluating logged values as formulas
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,61 @@
+import { AuditCategory, AutomatusConfig } from '../types';
+
+export const AUDIT_CATEGORIES: ReadonlyArray<AuditCategory> = ['read', 'change', 'permission', 'auth', 'error'];
+
+// Categories recorded at each auditLogLevel unless overridden per category
+const LEVEL_CATEGORIES: Record<AutomatusConfig['auditLogLevel'], ReadonlyArray<AuditCategory>> = {
+  all: AUDIT_CATEGORIES,
+  changes_only: ['change', 'auth', 'error'],
+  errors_only: ['error']
+};
+
+const FAILURE_PATTERN = /(^|_)(failed|failure|error|exceeded|rejected|lost)$|circuit_breaker_open/;
+const AUTH_PATTERN = /(^|_)(auth|token|tokens|handshake|ip|disconnected)(_|$)/;
+const CHANGE_PATTERN = /(^|_)(write|delete|apply|backup|config|rename|approval|emergency|run|start|stop|cancel|created|updated)(_|$)/;
+const MUTATING_FILE_OPERATIONS = ['write', 'create', 'modify', 'patch', 'delete', 'rename'];
+
+// Changes whose names carry none of the change keywords; a VS Code command (e.g. git.push) may change anything
+const CHANGE_EVENTS = ['bridge_command_execution', 'bridge_file_transaction'];
+
+/**
+ * Classifies an audit event. Events logged through SafetyGuard.logOperation arrive as
+ * `operation` with the real name in `data.operation` and its outcome in `data.result`.
+ */
+export function classifyAuditEvent(operation: string, data: any): AuditCategory {
+  const wrapped = operation === 'operation' && typeof data?.operation === 'string';
+  const name = wrapped ? data.operation : operation;
+  const details = wrapped ? data.result : data;
+
+  if (FAILURE_PATTERN.test(name) || details?.error || details?.success === false) {
+    return 'error';
+  }
+  if (name === 'permission_check') {
+    return 'permission';
+  }
+  if (AUTH_PATTERN.test(name)) {
+    return 'auth';
+  }
+  if (name.endsWith('file_operation')) {
+    return MUTATING_FILE_OPERATIONS.includes(details?.operation) ? 'change' : 'read';
+  }
+  // Only the commit of a transfer writes the file
+  if (name.endsWith('file_transfer')) {
+    return details?.action === 'commit' ? 'change' : 'read';
+  }
+  if (CHANGE_EVENTS.includes(name) || CHANGE_PATTERN.test(name)) {
+    return 'change';
+  }
+  return 'read';
+}
+
+export function isAuditCategoryEnabled(
+  category: AuditCategory,
+  level: AutomatusConfig['auditLogLevel'] | undefined,
+  overrides: AutomatusConfig['auditCategories'] = {}
+): boolean {
+  const override = overrides[category];
+  if (typeof override === 'boolean') {
+    return override;
+  }
+  return (LEVEL_CATEGORIES[level ?? 'all'] ?? AUDIT_CATEGORIES).includes(category);
+}
@@ -1,4 +1,6 @@
 import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
 import * as vscode from 'vscode';
 import { SafeAutomatusClient } from '../../automatus-client/SafeAutomatusClient';
 import { AutomatusConfig, CodeContext } from '../../types';
@@ -71,6 +73,22 @@ suite('SafeAutomatusClient Test Suite', () => {
       assert.ok(Array.isArray(result.issues), 'Should have issues array');
     });
 
+    test('should report offline heuristic issues on the offending lines', async () => {
+      const context: CodeContext = {
+        currentFile: '/test/file.js',
+        selectedText: 'const a = 1;\nvar b = 2;\nif (a == b) {\n  console.log(a);\n}',
+        cursorPosition: new vscode.Position(0, 0)
+      };
+
+      // No server listens on the test URL, so the offline heuristics answer
+      const result = await client.analyzeCode(context);
+      assert.strictEqual(result.source, 'offline');
+      assert.ok(result.issues.some(issue => issue.line === 2 && issue.type === 'modernization'), 'Should flag var on line 2');
+      assert.ok(result.issues.some(issue => issue.line === 3 && issue.type === 'correctness'), 'Should flag == on line 3');
+      assert.ok(result.issues.some(issue => issue.line === 4 && issue.type === 'style'), 'Should flag console.log on line 4');
+      assert.strictEqual(result.complexity, 2, 'One branch point gives complexity 2');
+    });
+
     test('should allow code preview generation in Phase 1', async () => {
       const context: CodeContext = {
         currentFile: '/test/file.js',
@@ -247,4 +265,35 @@ suite('SafeAutomatusClient Test Suite', () => {
       }
     });
   });
+
+  suite('Streaming', () => {
+    test('should reject instead of falling back offline when a stream breaks off', async () => {
+      const server = http.createServer((_request, response) => {
+        response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        response.write('{"token":"The function "}\n');
+        response.end('{"error":"model crashed"}\n');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const { port } = server.address() as AddressInfo;
+        const streamingClient = new SafeAutomatusClient({ ...mockConfig, serverUrl: `http://127.0.0.1:${port}` });
+        const chunks: string[] = [];
+        const context: CodeContext = {
+          currentFile: '/test/file.js',
+          selectedText: 'function add(a, b) { return a + b; }',
+          cursorPosition: new vscode.Position(0, 0)
+        };
+
+        await assert.rejects(
+          streamingClient.explainCode(context.selectedText, context, { onChunk: chunk => chunks.push(chunk) }),
+          /interrupted after 13 characters: Stream error: model crashed/
+        );
+        assert.deepStrictEqual(chunks, ['The function ']);
+        streamingClient.dispose();
+      } finally {
+        server.close();
+      }
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,186 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { TUIVSCodeBridge, BridgeInternalCommand, BridgeInternalResponse } from '../../bridge/TUIVSCodeBridge';
+import { createChunk, sha256 } from '../../bridge/FileTransferRegistry';
+import { ConfigurationManager } from '../../config/ConfigurationManager';
+import { SafetyGuard } from '../../safety/SafetyGuard';
+
+// Commands that change files, sent through a running bridge with the safety guard of Phase 2
+suite('Bridge File Writes', () => {
+  const port = 19996;
+  let workDir: string;
+  let bridge: TUIVSCodeBridge;
+  let client: WebSocket;
+  let nextId = 0;
+  let testConfig: ReturnType<ConfigurationManager['getConfiguration']>;
+  const pending = new Map<string, (response: BridgeInternalResponse) => void>();
+
+  const send = (type: BridgeInternalCommand['type'], payload: object, requiresApproval?: boolean): Promise<BridgeInternalResponse> => {
+    const id = `write-test-${++nextId}`;
+    return new Promise(resolve => {
+      pending.set(id, resolve);
+      client.send(JSON.stringify({ id, type, payload, requiresApproval, timestamp: Date.now() }));
+    });
+  };
+
+  setup(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'automatus-bridge-writes-'));
+
+    const configManager = ConfigurationManager.getInstance();
+    testConfig = {
+      ...configManager.getConfiguration(),
+      bridgePort: port,
+      bridgeEnableHeartbeat: false,
+      safetyPhase: 2,
+      allowedDirectories: [workDir],
+      requireApproval: false
+    };
+    configManager.getConfiguration = () => testConfig;
+
+    const mockAuthManager = {
+      validateToken: async () => ({ success: true, payload: { sessionId: 'write-test-session', safetyPhase: 2, permissions: [] } }),
+      revokeToken: () => {},
+      revokeAllTokens: () => {},
+      dispose: () => {}
+    } as any;
+
+    bridge = new TUIVSCodeBridge(configManager, new SafetyGuard(testConfig), mockAuthManager);
+    await bridge.start();
+
+    client = new WebSocket(`ws://localhost:${port}`);
+    client.on('message', data => {
+      const message = JSON.parse(data.toString());
+      const resolve = pending.get(message.id);
+      if (resolve) {
+        pending.delete(message.id);
+        resolve(message);
+      }
+    });
+    await new Promise((resolve, reject) => {
+      client.on('open', resolve);
+      client.on('error', reject);
+    });
+
+    const auth = await send('auth_request', { token: 'test-token' });
+    assert.ok(auth.success, auth.error);
+  });
+
+  teardown(async () => {
+    client?.close();
+    await bridge.stop();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('should apply a committed chunked upload to the file', async () => {
+    const target = path.join(workDir, 'upload.txt');
+    fs.writeFileSync(target, 'old content\n');
+    const content = Buffer.from('new line\n'.repeat(2000), 'utf8');
+    const chunkSize = 4096;
+
+    const start = await send('file_transfer', {
+      action: 'start_write',
+      path: target,
+      operation: 'modify',
+      totalBytes: content.length,
+      checksum: sha256(content),
+      chunkSize
+    });
+    assert.ok(start.success, start.error);
+    const { transferId, totalChunks } = start.data as { transferId: string; totalChunks: number };
+    assert.strictEqual(totalChunks, 5);
+
+    for (let index = 0; index < totalChunks; index++) {
+      const chunk = await send('file_transfer', { action: 'write_chunk', ...createChunk(transferId, content, index, chunkSize) });
+      assert.ok(chunk.success, chunk.error);
+    }
+
+    const commit = await send('file_transfer', { action: 'commit', transferId });
+    assert.ok(commit.success, commit.error);
+
+    await send('file_operation', { operation: 'read', path: target }).then(read => {
+      assert.ok(read.success, read.error);
+      assert.strictEqual((read.data as { content: string }).content, content.toString('utf8'));
+    });
+  });
+
+  test('should not count chunks against the message rate limit', async () => {
+    const target = path.join(workDir, 'many-chunks.txt');
+    const content = Buffer.from('0123456789abcdef'.repeat(1024 * 10), 'utf8');
+    const chunkSize = 1024;
+
+    const start = await send('file_transfer', {
+      action: 'start_write',
+      path: target,
+      operation: 'create',
+      totalBytes: content.length,
+      checksum: sha256(content),
+      chunkSize
+    });
+    assert.ok(start.success, start.error);
+    const { transferId, totalChunks } = start.data as { transferId: string; totalChunks: number };
+    assert.ok(totalChunks > 100, 'more chunks than messages allowed per minute');
+
+    for (let index = 0; index < totalChunks; index++) {
+      const chunk = await send('file_transfer', { action: 'write_chunk', ...createChunk(transferId, content, index, chunkSize) });
+      assert.ok(chunk.success, chunk.error);
+    }
+
+    const commit = await send('file_transfer', { action: 'commit', transferId });
+    assert.ok(commit.success, commit.error);
+  });
+
+  test('should apply a patch to the file', async () => {
+    const target = path.join(workDir, 'patched.ts');
+    fs.writeFileSync(target, 'const a = 1;\nconst b = 2;\nconst c = 3;\n');
+
+    const patch = await send('file_operation', {
+      operation: 'patch',
+      path: target,
+      diff: ['--- a/patched.ts', '+++ b/patched.ts', '@@ -1,3 +1,3 @@', ' const a = 1;', '-const b = 2;', '+const b = 20;', ' const c = 3;', ''].join('\n')
+    });
+    assert.ok(patch.success, patch.error);
+
+    const read = await send('file_operation', { operation: 'read', path: target });
+    assert.ok(read.success, read.error);
+    assert.strictEqual((read.data as { content: string }).content, 'const a = 1;\nconst b = 20;\nconst c = 3;\n');
+  });
+
+  test('should refuse patches outside the allowed directories', async () => {
+    const patch = await send('file_operation', {
+      operation: 'patch',
+      path: path.join(os.tmpdir(), 'outside-allowed.ts'),
+      edits: [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, text: '// patched\n' }]
+    });
+
+    assert.strictEqual(patch.success, false);
+    assert.strictEqual(patch.errorCode, 'PERMISSION_DENIED');
+  });
+
+  test('should refuse restricted paths before asking for approval', async () => {
+    testConfig.requireApproval = true;
+
+    // An approval prompt would wait for the user, so a prompt shows up as a timeout
+    const modify = await send('file_operation', { operation: 'modify', path: path.join(workDir, '.git', 'config'), content: 'x' }, true);
+    assert.strictEqual(modify.success, false);
+    assert.strictEqual(modify.errorCode, 'PERMISSION_DENIED');
+
+    const patch = await send('file_operation', { operation: 'patch', path: '/etc/hosts', edits: [] }, true);
+    assert.strictEqual(patch.errorCode, 'PERMISSION_DENIED');
+  });
+
+  test('should refuse uploads outside the allowed directories before any chunk is sent', async () => {
+    const start = await send('file_transfer', {
+      action: 'start_write',
+      path: path.join(os.tmpdir(), 'outside-allowed.txt'),
+      operation: 'create',
+      totalBytes: 3,
+      checksum: sha256(Buffer.from('abc'))
+    });
+
+    assert.strictEqual(start.success, false);
+    assert.strictEqual(start.errorCode, 'PERMISSION_DENIED');
+  });
+});
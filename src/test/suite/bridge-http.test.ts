@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { TUIVSCodeBridge } from '../../bridge/TUIVSCodeBridge';
+import { ConfigurationManager } from '../../config/ConfigurationManager';
+import { SafetyGuard } from '../../safety/SafetyGuard';
+
+// One-shot commands over POST /v1/commands
+suite('Bridge HTTP Commands', () => {
+  const port = 19995;
+  let bridge: TUIVSCodeBridge;
+
+  const post = (token: string, body: object): Promise<{ status: number; body: any }> => new Promise((resolve, reject) => {
+    const request = http.request({
+      host: '127.0.0.1',
+      port,
+      path: '/v1/commands',
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' }
+    }, response => {
+      let data = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => data += chunk);
+      response.on('end', () => resolve({ status: response.statusCode!, body: JSON.parse(data) }));
+    });
+    request.on('error', reject);
+    request.end(JSON.stringify(body));
+  });
+
+  setup(async () => {
+    const configManager = ConfigurationManager.getInstance();
+    const testConfig = {
+      ...configManager.getConfiguration(),
+      bridgePort: port,
+      bridgeEnableHeartbeat: false,
+      bridgeEnableHttp: true,
+      safetyPhase: 1 as 1 | 2 | 3 | 4
+    };
+    configManager.getConfiguration = () => testConfig;
+
+    // The session id is taken from the token, so each token gets its own window
+    const mockAuthManager = {
+      validateToken: async (token: string) => ({ success: true, payload: { sessionId: `session-${token}`, safetyPhase: 1, permissions: [] } }),
+      revokeToken: () => {},
+      revokeAllTokens: () => {},
+      dispose: () => {}
+    } as any;
+
+    bridge = new TUIVSCodeBridge(configManager, new SafetyGuard(testConfig), mockAuthManager);
+    await bridge.start();
+  });
+
+  teardown(async () => {
+    await bridge.stop();
+  });
+
+  test('should rate-limit requests per token', async () => {
+    const command = { type: 'context_request', payload: { type: 'selection' } };
+
+    for (let i = 0; i < 100; i++) {
+      assert.notStrictEqual((await post('token-a', command)).status, 429, `request ${i + 1} was limited`);
+    }
+
+    const limited = await post('token-a', command);
+    assert.strictEqual(limited.status, 429);
+    assert.strictEqual(limited.body.payload.code, 'RATE_LIMITED');
+
+    assert.notStrictEqual((await post('token-b', command)).status, 429, 'other tokens keep their own window');
+  });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { AuditEntry } from '../../safety/AuditStore';
+import { auditEntriesToCsv, filterAuditEntries, getAuditConnectionIds, getAuditOperation } from '../../safety/auditQuery';
+
+suite('Audit Query', () => {
+  const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+    id: 'id',
+    timestamp: '2026-01-01T10:00:00.000Z',
+    operation: 'permission_check',
+    data: {},
+    safetyPhase: 1,
+    userId: 'tester',
+    ...overrides
+  });
+
+  const entries: AuditEntry[] = [
+    entry({ id: 'a', operation: 'permission_check', category: 'permission', data: { operation: 'read', target: 'src/a.ts', allowed: true } }),
+    entry({
+      id: 'b',
+      timestamp: '2026-01-01T11:00:00.000Z',
+      operation: 'operation',
+      category: 'change',
+      safetyPhase: 2,
+      data: { operation: 'bridge_file_operation', result: { connectionId: 'conn_1', operation: 'write', success: true }, success: true }
+    }),
+    entry({
+      id: 'c',
+      timestamp: '2026-01-01T12:00:00.000Z',
+      operation: 'operation',
+      category: 'error',
+      data: { operation: 'bridge_command_execution', result: { connectionId: 'conn_2', error: 'boom' }, success: false }
+    })
+  ];
+
+  const ids = (result: AuditEntry[]) => result.map(item => item.id);
+
+  test('should resolve wrapped operation names and connection ids', () => {
+    assert.strictEqual(getAuditOperation(entries[1]), 'bridge_file_operation');
+    assert.deepStrictEqual(getAuditConnectionIds(entries[2]), ['conn_2']);
+  });
+
+  test('should filter by operation, phase, outcome and connection', () => {
+    assert.deepStrictEqual(ids(filterAuditEntries(entries, { operation: 'bridge_file_operation' })), ['b']);
+    assert.deepStrictEqual(ids(filterAuditEntries(entries, { safetyPhase: 1 })), ['a', 'c']);
+    assert.deepStrictEqual(ids(filterAuditEntries(entries, { outcome: 'failure' })), ['c']);
+    assert.deepStrictEqual(ids(filterAuditEntries(entries, { connectionId: 'conn_1' })), ['b']);
+  });
+
+  test('should filter by time range and free text', () => {
+    assert.deepStrictEqual(
+      ids(filterAuditEntries(entries, { from: '2026-01-01T10:30:00.000Z', to: '2026-01-01T11:30:00.000Z' })),
+      ['b']
+    );
+    assert.deepStrictEqual(ids(filterAuditEntries(entries, { text: 'SRC/A.TS' })), ['a']);
+  });
+
+  test('should export CSV with escaped fields', () => {
+    const csv = auditEntriesToCsv([entries[2], entry({ id: 'd', data: { note: '=HYPERLINK("x")' }, userId: '-user' })]);
+    const lines = csv.trim().split('\r\n');
+
+    assert.strictEqual(lines[0], 'timestamp,operation,category,outcome,safetyPhase,userId,connectionIds,id,data');
+    assert.ok(lines[1].startsWith('2026-01-01T12:00:00.000Z,bridge_command_execution,error,failure,1,tester,conn_2,c,"{'));
+    assert.ok(lines[2].includes(",'-user,"), 'formula-like values are neutralized');
+  });
+});
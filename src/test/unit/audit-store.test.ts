@@ -0,0 +1,194 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { AuditAnchor, AuditAnchorStorage, AuditEntry, AuditStore, GENESIS_HASH } from '../../safety/AuditStore';
+
+suite('Audit Store', () => {
+  let directory: string;
+  let counter: number;
+
+  const entry = (operation: string, data: any = {}): AuditEntry => ({
+    id: `entry-${counter++}`,
+    timestamp: new Date(1700000000000 + counter).toISOString(),
+    operation,
+    data,
+    safetyPhase: 1,
+    userId: 'tester'
+  });
+
+  // Stands in for globalState, which outlives the log directory's contents
+  const memoryAnchor = (): AuditAnchorStorage & { value?: AuditAnchor } => {
+    const storage: AuditAnchorStorage & { value?: AuditAnchor } = {
+      get: () => storage.value,
+      update: async anchor => {
+        storage.value = anchor;
+      }
+    };
+    return storage;
+  };
+
+  const readActive = async (): Promise<string[]> =>
+    (await fs.readFile(path.join(directory, 'audit.jsonl'), 'utf8')).trim().split('\n');
+
+  setup(async () => {
+    counter = 0;
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'automatus-audit-'));
+  });
+
+  teardown(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should chain entries and resume the chain after a restart', async () => {
+    const first = new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 });
+    const a = entry('permission_check', { target: 'a.ts' });
+    const b = entry('operation');
+    first.append(a);
+    first.append(b);
+    await first.flush();
+
+    assert.strictEqual(a.seq, 0);
+    assert.strictEqual(a.prevHash, GENESIS_HASH);
+    assert.strictEqual(b.prevHash, a.hash);
+
+    const second = new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 });
+    const c = entry('config_updated');
+    second.append(c);
+
+    const result = await second.verify();
+    assert.strictEqual(c.seq, 2);
+    assert.strictEqual(c.prevHash, b.hash);
+    assert.strictEqual(result.valid, true);
+    assert.strictEqual(result.entriesChecked, 3);
+  });
+
+  test('should detect an edited entry', async () => {
+    const store = new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 });
+    store.append(entry('user_approval', { approved: false }));
+    store.append(entry('operation'));
+    await store.flush();
+
+    const lines = await readActive();
+    lines[0] = lines[0].replace('"approved":false', '"approved":true');
+    await fs.writeFile(path.join(directory, 'audit.jsonl'), lines.join('\n') + '\n');
+
+    const result = await new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 }).verify();
+    assert.strictEqual(result.valid, false);
+    assert.strictEqual(result.error?.line, 1);
+    assert.ok(result.error?.reason.includes('edited'));
+  });
+
+  test('should detect a removed entry', async () => {
+    const store = new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 });
+    for (let i = 0; i < 3; i++) {
+      store.append(entry('operation', { i }));
+    }
+    await store.flush();
+
+    const lines = await readActive();
+    await fs.writeFile(path.join(directory, 'audit.jsonl'), [lines[0], lines[2]].join('\n') + '\n');
+
+    const result = await new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 }).verify();
+    assert.strictEqual(result.valid, false);
+    assert.strictEqual(result.error?.line, 2);
+  });
+
+  test('should detect entries truncated from the end during the session', async () => {
+    const store = new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 });
+    store.append(entry('operation'));
+    store.append(entry('operation'));
+    await store.flush();
+
+    const lines = await readActive();
+    await fs.writeFile(path.join(directory, 'audit.jsonl'), lines[0] + '\n');
+
+    const result = await store.verify();
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.error?.reason.includes('truncated'));
+  });
+
+  test('should detect entries deleted from the start of the log', async () => {
+    const anchor = memoryAnchor();
+    const store = new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 }, undefined, anchor);
+    for (let i = 0; i < 4; i++) {
+      store.append(entry('operation', { i }));
+    }
+    await store.flush();
+
+    const lines = await readActive();
+    await fs.writeFile(path.join(directory, 'audit.jsonl'), lines.slice(2).join('\n') + '\n');
+
+    const result = await new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 }, undefined, anchor).verify();
+    assert.strictEqual(result.valid, false);
+    assert.strictEqual(result.error?.line, 1);
+    assert.ok(result.error?.reason.includes('removed from the start'));
+  });
+
+  test('should detect entries truncated from the end after a restart', async () => {
+    const anchor = memoryAnchor();
+    const store = new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 }, undefined, anchor);
+    for (let i = 0; i < 3; i++) {
+      store.append(entry('operation', { i }));
+    }
+    await store.flush();
+
+    const lines = await readActive();
+    await fs.writeFile(path.join(directory, 'audit.jsonl'), lines[0] + '\n');
+
+    const restarted = new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 }, undefined, anchor);
+    const truncated = await restarted.verify();
+    assert.strictEqual(truncated.valid, false);
+    assert.ok(truncated.error?.reason.includes('truncated'));
+
+    // New entries continue from the anchor, so the gap stays in the chain
+    const next = entry('operation');
+    restarted.append(next);
+    const result = await restarted.verify();
+    assert.strictEqual(next.seq, 3);
+    assert.strictEqual(result.valid, false);
+    assert.strictEqual(result.error?.line, 2);
+  });
+
+  test('should anchor a log written before anchors existed as it is found', async () => {
+    const unanchored = new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 });
+    unanchored.append(entry('operation'));
+    unanchored.append(entry('operation'));
+    await unanchored.flush();
+
+    const anchor = memoryAnchor();
+    const result = await new AuditStore(directory, { maxFileBytes: 1024 * 1024, maxFiles: 2 }, undefined, anchor).verify();
+    assert.strictEqual(result.valid, true);
+    assert.strictEqual(anchor.value?.firstSeq, 0);
+    assert.strictEqual(anchor.value?.lastSeq, 1);
+  });
+
+  test('should rotate by size, prune old files and keep the chain verifiable', async () => {
+    const store = new AuditStore(directory, { maxFileBytes: 600, maxFiles: 2 });
+    for (let i = 0; i < 12; i++) {
+      store.append(entry('operation', { padding: 'x'.repeat(100), i }));
+    }
+
+    const result = await store.verify();
+    const files = await fs.readdir(directory);
+
+    assert.strictEqual(result.valid, true);
+    assert.strictEqual(files.filter(file => file.startsWith('audit-')).length, 2);
+    assert.ok((result.firstSequence ?? 0) > 0, 'oldest entries were pruned with their file');
+    assert.strictEqual(result.lastSequence, 11);
+  });
+
+  test('should move the anchored start when rotation prunes files', async () => {
+    const anchor = memoryAnchor();
+    const store = new AuditStore(directory, { maxFileBytes: 600, maxFiles: 2 }, undefined, anchor);
+    for (let i = 0; i < 12; i++) {
+      store.append(entry('operation', { padding: 'x'.repeat(100), i }));
+    }
+    await store.flush();
+
+    const result = await new AuditStore(directory, { maxFileBytes: 600, maxFiles: 2 }, undefined, anchor).verify();
+    assert.strictEqual(result.valid, true);
+    assert.strictEqual(anchor.value?.firstSeq, result.firstSequence);
+    assert.strictEqual(anchor.value?.lastSeq, 11);
+  });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { classifyAuditEvent, isAuditCategoryEnabled } from '../../safety/auditTaxonomy';
+
+suite('Audit Taxonomy', () => {
+  test('should classify direct audit events', () => {
+    assert.strictEqual(classifyAuditEvent('permission_check', { operation: 'read', target: 'a.ts', allowed: true }), 'permission');
+    assert.strictEqual(classifyAuditEvent('user_approval', { approved: true }), 'change');
+    assert.strictEqual(classifyAuditEvent('backup_created', {}), 'change');
+    assert.strictEqual(classifyAuditEvent('emergency_stop', {}), 'change');
+  });
+
+  test('should classify logOperation events by their inner name and outcome', () => {
+    const op = (operation: string, result: object) => classifyAuditEvent('operation', { operation, result });
+
+    assert.strictEqual(op('bridge_workspace_query', { queryType: 'files' }), 'read');
+    assert.strictEqual(op('bridge_token_generated', {}), 'auth');
+    assert.strictEqual(op('bridge_ip_blocked', {}), 'auth');
+    assert.strictEqual(op('bridge_handshake', { accepted: true }), 'auth');
+    assert.strictEqual(op('bridge_session_disconnected', { connectionId: 'conn-1', sessionId: 's-1', remoteAddress: '127.0.0.1', reason: 'Disconnected by operator' }), 'auth');
+    assert.strictEqual(op('bridge_file_operation', { operation: 'read', success: true }), 'read');
+    assert.strictEqual(op('bridge_file_operation', { operation: 'write', success: true }), 'change');
+    assert.strictEqual(op('bridge_command_execution', { success: false, error: 'boom' }), 'error');
+    assert.strictEqual(op('bridge_file_transaction', { transactionId: 'tx-1', success: false, stage: 'apply', error: 'boom', rolledBack: true }), 'error');
+    assert.strictEqual(op('bridge_run_task', { name: 'npm test', exitCode: 1 }), 'change');
+    assert.strictEqual(op('tui_connection_failed', {}), 'error');
+    assert.strictEqual(op('bridge_circuit_breaker_open', {}), 'error');
+  });
+
+  test('should keep the bridge\'s changes under changes_only', () => {
+    // Payloads as TUIVSCodeBridge logs them
+    const events: Array<[string, object]> = [
+      ['bridge_file_operation', { commandId: 'cmd-1', operation: 'modify', path: '/work/app/src/a.ts', newPath: undefined, success: true }],
+      ['bridge_file_operation', { commandId: 'cmd-2', operation: 'create', path: '/work/app/src/b.ts', newPath: undefined, success: true }],
+      ['bridge_file_operation', { commandId: 'cmd-6', operation: 'patch', path: '/work/app/src/a.ts', success: true, hunks: 2, failedHunks: 0 }],
+      ['bridge_command_execution', { commandId: 'cmd-3', commandName: 'git.push', safetyLevel: 'expanded_access', executionTime: 840, success: true, contextProvided: false }],
+      ['bridge_file_transfer', { commandId: 'cmd-4', action: 'commit', transferId: 't-1', path: '/work/app/big.json', totalBytes: 2097152, success: true }],
+      ['bridge_file_transaction', {
+        commandId: 'cmd-5',
+        transactionId: 'tx-1',
+        backupId: 'backup-1',
+        operations: [{ type: 'modify', path: '/work/app/src/a.ts' }, { type: 'rename', path: '/work/app/src/b.ts', newPath: '/work/app/src/c.ts' }],
+        success: true
+      }]
+    ];
+
+    for (const [operation, result] of events) {
+      const category = classifyAuditEvent('operation', { operation, result, success: true });
+      assert.strictEqual(category, 'change', `${operation} ${JSON.stringify(result)}`);
+      assert.ok(isAuditCategoryEnabled(category, 'changes_only'));
+    }
+  });
+
+  test('should treat the rest of a file transfer as reads', () => {
+    const op = (operation: string, result: object) => classifyAuditEvent('operation', { operation, result, success: true });
+
+    assert.strictEqual(op('bridge_file_transfer', { commandId: 'cmd-1', action: 'start_write', transferId: 't-1', path: '/work/app/big.json', totalBytes: 2097152, totalChunks: 8, success: true }), 'read');
+    assert.strictEqual(op('bridge_file_transfer', { commandId: 'cmd-2', action: 'abort', transferId: 't-1', success: true }), 'read');
+  });
+
+  test('should filter categories by level', () => {
+    assert.ok(isAuditCategoryEnabled('permission', 'all'));
+    assert.ok(!isAuditCategoryEnabled('permission', 'changes_only'));
+    assert.ok(isAuditCategoryEnabled('auth', 'changes_only'));
+    assert.ok(!isAuditCategoryEnabled('change', 'errors_only'));
+    assert.ok(isAuditCategoryEnabled('error', 'errors_only'));
+  });
+
+  test('should let per-category overrides win over the level', () => {
+    assert.ok(!isAuditCategoryEnabled('permission', 'all', { permission: false }));
+    assert.ok(isAuditCategoryEnabled('read', 'errors_only', { read: true }));
+    assert.ok(isAuditCategoryEnabled('error', 'errors_only', { read: true }), 'overrides only affect their category');
+  });
+});
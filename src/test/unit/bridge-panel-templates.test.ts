@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { computeLineDiff, isPanelInteraction, renderPanelHtml } from '../../ui/bridgePanelTemplates';
+
+suite('Bridge Panel Templates', () => {
+  const options = { nonce: 'abc123', cspSource: 'vscode-resource:', interactive: true };
+
+  test('should escape TUI data instead of injecting it as markup', () => {
+    const html = renderPanelHtml('preview', '<b>Title</b>', { content: '<script>alert(1)</script>', path: '/work/"a".ts' }, options);
+
+    assert.ok(!html.includes('<script>alert(1)</script>'));
+    assert.ok(html.includes('&lt;script&gt;alert(1)&lt;/script&gt;'));
+    assert.ok(html.includes('&lt;b&gt;Title&lt;/b&gt;'));
+    assert.ok(html.includes('/work/&quot;a&quot;.ts'));
+    // The only script is the template's own, allowed by its nonce
+    assert.strictEqual(html.match(/<script/g)?.length, 1);
+    assert.ok(html.includes("script-src 'nonce-abc123'"));
+  });
+
+  test('should render approval buttons and leave out the script when not interactive', () => {
+    const approval = renderPanelHtml('approval', 'Review', { message: 'Apply the change?' }, options);
+    assert.ok(approval.includes('data-action="approve"'));
+    assert.ok(approval.includes('data-action="deny"'));
+    assert.ok(approval.includes('data-once="true"'));
+
+    const custom = renderPanelHtml('analysis', 'Analysis', {
+      summary: 'Two findings',
+      findings: [{ severity: 'error', message: 'Null dereference', file: 'a.ts', line: 3 }],
+      actions: [{ id: 'fix', label: 'Fix it' }]
+    }, { ...options, interactive: false });
+    assert.ok(custom.includes('class="finding-error"'));
+    assert.ok(custom.includes('a.ts:3'));
+    assert.ok(custom.includes('data-action="fix"'));
+    assert.ok(!custom.includes('<script'));
+  });
+
+  test('should diff two versions line by line', () => {
+    const lines = computeLineDiff('a\nb\nc', 'a\nB\nc\nd');
+    assert.deepStrictEqual(lines.map(line => `${line.kind}:${line.text}`), ['context:a', 'add:B', 'remove:b', 'context:c', 'add:d']);
+  });
+
+  test('should only accept interactions posted by the template script', () => {
+    assert.ok(isPanelInteraction({ type: 'action', actionId: 'approve' }));
+    assert.ok(isPanelInteraction({ type: 'action', actionId: 'reply', value: 'Looks good' }));
+    assert.ok(!isPanelInteraction({ type: 'action', actionId: 42 }));
+    assert.ok(!isPanelInteraction({ type: 'eval', code: 'x' }));
+  });
+});
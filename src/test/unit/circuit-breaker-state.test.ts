@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import { CircuitBreaker, CircuitBreakerRegistry } from '../../bridge/CircuitBreaker';
+
+suite('Circuit Breaker State Machine', () => {
+  let now: number;
+  const clock = () => now;
+
+  setup(() => {
+    now = 1000;
+  });
+
+  test('should open after the failure threshold and reject calls', () => {
+    const breaker = new CircuitBreaker('command:test', 'command', 'conn-1', 'test', { failureThreshold: 5, cooldownMs: 1000 }, clock);
+
+    for (let i = 0; i < 4; i++) {
+      assert.ok(breaker.canExecute());
+      breaker.recordFailure('boom');
+    }
+    assert.strictEqual(breaker.getState(), 'closed');
+
+    breaker.recordFailure('boom');
+    assert.strictEqual(breaker.getState(), 'open');
+    assert.strictEqual(breaker.canExecute(), false);
+    assert.strictEqual(breaker.snapshot().retryAt, 2000);
+  });
+
+  test('should allow a single trial call once the cooldown elapses', () => {
+    const breaker = new CircuitBreaker('command:test', 'command', 'conn-1', 'test', { failureThreshold: 1, cooldownMs: 1000 }, clock);
+    breaker.recordFailure('boom');
+
+    now += 1000;
+    assert.ok(breaker.canExecute());
+    assert.strictEqual(breaker.getState(), 'half_open');
+    assert.strictEqual(breaker.canExecute(), false, 'only one trial call at a time');
+
+    breaker.recordSuccess();
+    assert.strictEqual(breaker.getState(), 'closed');
+    assert.strictEqual(breaker.snapshot().failures, 0);
+  });
+
+  test('should reopen when the half-open trial fails', () => {
+    const breaker = new CircuitBreaker('command:test', 'command', 'conn-1', 'test', { failureThreshold: 3, cooldownMs: 1000 }, clock);
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure('boom');
+    }
+
+    now += 1500;
+    assert.ok(breaker.canExecute());
+    breaker.recordFailure('still broken');
+
+    assert.strictEqual(breaker.getState(), 'open');
+    assert.strictEqual(breaker.snapshot().openedAt, 2500);
+  });
+
+  suite('Registry', () => {
+    let registry: CircuitBreakerRegistry;
+
+    setup(() => {
+      registry = new CircuitBreakerRegistry(
+        { failureThreshold: 2, cooldownMs: 1000 },
+        { failureThreshold: 5, cooldownMs: 5000 },
+        clock
+      );
+    });
+
+    test('should keep command breakers independent and share them across connections', () => {
+      registry.recordFailure('conn-1', 'workspace_query:files', 'boom');
+      const opened = registry.recordFailure('conn-2', 'workspace_query:files', 'boom');
+
+      assert.deepStrictEqual(opened.map(breaker => breaker.key), ['command:workspace_query:files']);
+      assert.strictEqual(registry.check('conn-1', 'workspace_query:files').allowed, false);
+      assert.strictEqual(registry.check('conn-1', 'context_request:selection').allowed, true);
+      assert.strictEqual(registry.check('conn-3', 'workspace_query:files').allowed, false);
+    });
+
+    test('should keep an open command breaker when its connection closes', () => {
+      registry.recordFailure('conn-1', 'run_task', 'boom');
+      registry.recordFailure('conn-1', 'run_task', 'boom');
+
+      // e.g. a script reconnecting, or the next one-shot HTTP request
+      registry.removeConnection('conn-1');
+      const check = registry.check('conn-2', 'run_task');
+      assert.strictEqual(check.allowed, false);
+      if (!check.allowed) {
+        assert.strictEqual(check.breaker.scope, 'command');
+        assert.strictEqual(check.breaker.connectionId, undefined);
+      }
+    });
+
+    test('should forget a command breaker once the command succeeds', () => {
+      registry.recordFailure('conn-1', 'file_operation:read', 'boom');
+      registry.recordSuccess('conn-2', 'file_operation:read');
+
+      assert.deepStrictEqual(registry.getSnapshots().map(breaker => breaker.scope), ['connection', 'connection']);
+    });
+
+    test('should open the connection breaker across commands', () => {
+      for (let i = 0; i < 5; i++) {
+        registry.recordFailure('conn-1', `command_execution:cmd${i}`, 'boom');
+      }
+
+      const check = registry.check('conn-1', 'workspace_query:basic');
+      assert.strictEqual(check.allowed, false);
+      if (!check.allowed) {
+        assert.strictEqual(check.breaker.scope, 'connection');
+      }
+    });
+
+    test('should free the half-open trial when a call is released instead of recorded', () => {
+      registry.recordFailure('conn-1', 'file_operation:modify', 'boom');
+      registry.recordFailure('conn-1', 'file_operation:modify', 'boom');
+      now += 1000;
+
+      assert.strictEqual(registry.check('conn-1', 'file_operation:modify').allowed, true);
+      assert.strictEqual(registry.check('conn-1', 'file_operation:modify').allowed, false);
+
+      // e.g. the trial was refused by the safety guard, which says nothing about the operation
+      registry.release('conn-1', 'file_operation:modify');
+      assert.strictEqual(registry.check('conn-1', 'file_operation:modify').allowed, true);
+      assert.strictEqual(registry.getTrippedBreakers()[0].failures, 2);
+    });
+
+    test('should report tripped breakers and forget closed connections', () => {
+      for (let i = 0; i < 5; i++) {
+        registry.recordFailure('conn-1', `file_operation:read${i % 2}`, 'boom');
+      }
+      assert.deepStrictEqual(registry.getTrippedBreakers().map(breaker => breaker.key).sort(), [
+        'command:file_operation:read0',
+        'command:file_operation:read1',
+        'connection:conn-1'
+      ]);
+
+      registry.removeConnection('conn-1');
+      assert.ok(registry.getSnapshots().every(breaker => breaker.scope === 'command'));
+      assert.strictEqual(registry.getTrippedBreakers().length, 2);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import {
+  toCodeHover,
+  toCodeLocation,
+  toCodeSymbols,
+  uniqueLocations,
+  validateCodeQuery
+} from '../../bridge/codeIntelligence';
+
+// Plain stand-ins for vscode.Range and vscode.Uri; the serializers only read their fields
+const range = (line: number, start: number, end: number): any => ({
+  start: { line, character: start },
+  end: { line, character: end }
+});
+const uri = (fsPath: string): any => ({ fsPath });
+
+suite('Code Intelligence', () => {
+  test('should serialize document symbol trees and flat symbol lists', () => {
+    const tree = toCodeSymbols([{
+      name: 'Bridge',
+      kind: 4,
+      detail: '',
+      range: range(0, 0, 40),
+      selectionRange: range(0, 13, 19),
+      children: [{ name: 'start', kind: 5, detail: '(): void', range: range(2, 2, 30), selectionRange: range(2, 2, 7), children: [] }]
+    }] as any);
+
+    assert.strictEqual(tree[0].kind, 'class');
+    assert.strictEqual(tree[0].detail, undefined);
+    assert.deepStrictEqual(tree[0].children.map(child => [child.name, child.kind, child.detail]), [['start', 'method', '(): void']]);
+
+    const flat = toCodeSymbols([{ name: 'main', kind: 11, containerName: '', location: { uri: uri('/work/a.py'), range: range(4, 0, 8) } }] as any);
+    assert.deepStrictEqual(flat, [{ name: 'main', kind: 'function', range: range(4, 0, 8), selectionRange: range(4, 0, 8), children: [] }]);
+  });
+
+  test('should serialize locations and location links without duplicates', () => {
+    const locations = [
+      toCodeLocation({ uri: uri('/work/a.ts'), range: range(3, 4, 9) } as any),
+      toCodeLocation({ targetUri: uri('/work/a.ts'), targetRange: range(3, 0, 20), targetSelectionRange: range(3, 4, 9) } as any),
+      toCodeLocation({ targetUri: uri('/work/b.ts'), targetRange: range(1, 0, 5) } as any)
+    ];
+
+    assert.deepStrictEqual(uniqueLocations(locations), [
+      { path: '/work/a.ts', range: range(3, 4, 9) },
+      { path: '/work/b.ts', range: range(1, 0, 5) }
+    ]);
+  });
+
+  test('should flatten hover contents into markdown', () => {
+    const hover = toCodeHover({
+      contents: [{ language: 'typescript', value: 'const x: number' }, { value: 'The **answer**' }, '', 'plain'],
+      range: range(7, 6, 7)
+    } as any);
+
+    assert.deepStrictEqual(hover.contents, ['```typescript\nconst x: number\n```', 'The **answer**', 'plain']);
+    assert.deepStrictEqual(hover.range, range(7, 6, 7));
+  });
+
+  test('should require the inputs each query type needs', () => {
+    assert.doesNotThrow(() => validateCodeQuery({ queryType: 'workspace_symbols', query: 'Bridge' }));
+    assert.doesNotThrow(() => validateCodeQuery({ queryType: 'document_symbols', path: '/work/a.ts' }));
+    assert.throws(() => validateCodeQuery({ queryType: 'lint' as any }), /queryType must be one of/);
+    assert.throws(() => validateCodeQuery({ queryType: 'workspace_symbols' }), /query string/);
+    assert.throws(() => validateCodeQuery({ queryType: 'hover', path: '/work/a.ts' }), /zero-based position/);
+    assert.throws(() => validateCodeQuery({ queryType: 'references', path: '/work/a.ts', position: { line: -1, character: 0 } }), /zero-based position/);
+    assert.throws(() => validateCodeQuery({ queryType: 'call_hierarchy', path: '/work/a.ts', position: { line: 1, character: 0 }, direction: 'up' as any }), /direction/);
+  });
+});
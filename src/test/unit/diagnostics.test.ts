@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { diffDiagnostics, queryDiagnostics, toDiagnosticInfo } from '../../bridge/diagnostics';
+import { DiagnosticInfo } from '../../bridge/types';
+
+const diagnostic = (file: string, line: number, severity: DiagnosticInfo['severity'], source: string, message = `${source} at ${line}`): DiagnosticInfo => ({
+  file,
+  range: { start: { line, character: 0 }, end: { line, character: 4 } },
+  message,
+  severity,
+  source
+});
+
+suite('Diagnostics', () => {
+  const all = [
+    diagnostic('/work/src/b.ts', 7, 'warning', 'eslint'),
+    diagnostic('/work/src/a.ts', 3, 'error', 'ts'),
+    diagnostic('/work/test/a.test.ts', 1, 'error', 'ts'),
+    diagnostic('/work/src/a.ts', 9, 'hint', 'ts')
+  ];
+
+  test('should convert VS Code diagnostics', () => {
+    const info = toDiagnosticInfo('/work/src/a.ts', {
+      range: { start: { line: 2, character: 5 }, end: { line: 2, character: 9 } },
+      message: "Cannot find name 'foo'.",
+      severity: 0,
+      source: 'ts',
+      code: { value: 2304, target: undefined }
+    } as any);
+
+    assert.deepStrictEqual(info, {
+      file: '/work/src/a.ts',
+      range: { start: { line: 2, character: 5 }, end: { line: 2, character: 9 } },
+      message: "Cannot find name 'foo'.",
+      severity: 'error',
+      source: 'ts',
+      code: '2304'
+    });
+  });
+
+  test('should filter by file, severity and source with errors first', () => {
+    const errors = queryDiagnostics(all, { severities: ['error'] });
+    assert.deepStrictEqual(errors.diagnostics.map(d => d.file), ['/work/src/a.ts', '/work/test/a.test.ts']);
+    assert.deepStrictEqual(errors.counts, { error: 2, warning: 0, info: 0, hint: 0 });
+
+    assert.strictEqual(queryDiagnostics(all, { paths: ['**/src/**'], sources: ['ESLint'] }).total, 1);
+    assert.strictEqual(queryDiagnostics(all, { path: '/work/src/a.ts' }).total, 2);
+
+    const limited = queryDiagnostics(all, { limit: 1 });
+    assert.strictEqual(limited.diagnostics[0].severity, 'error');
+    assert.strictEqual(limited.truncated, true);
+    assert.strictEqual(limited.total, 4);
+
+    assert.throws(() => queryDiagnostics(all, { severities: ['fatal' as any] }), /Unknown severities: fatal/);
+  });
+
+  test('should report only the diagnostics that appeared or went away', () => {
+    const before = [diagnostic('/work/a.ts', 1, 'error', 'ts'), diagnostic('/work/a.ts', 2, 'error', 'ts')];
+    const after = [diagnostic('/work/a.ts', 2, 'error', 'ts'), diagnostic('/work/a.ts', 5, 'warning', 'eslint')];
+
+    const delta = diffDiagnostics(before, after);
+    assert.deepStrictEqual(delta.added.map(d => d.range.start.line), [5]);
+    assert.deepStrictEqual(delta.removed.map(d => d.range.start.line), [1]);
+    assert.deepStrictEqual(diffDiagnostics(after, [...after]), { added: [], removed: [] });
+  });
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { getEditorControlRanges, validateEditorControl } from '../../bridge/editorControl';
+
+suite('Editor Control', () => {
+  const range = (line: number) => ({ start: { line, character: 0 }, end: { line, character: 10 } });
+
+  test('should prefer ranges over range over position', () => {
+    const position = { line: 4, character: 2 };
+
+    assert.deepStrictEqual(getEditorControlRanges({ action: 'open', path: '/a.ts', position }), [{ start: position, end: position }]);
+    assert.deepStrictEqual(getEditorControlRanges({ action: 'reveal', path: '/a.ts', position, range: range(1) }), [range(1)]);
+    assert.deepStrictEqual(getEditorControlRanges({ action: 'select', path: '/a.ts', range: range(1), ranges: [range(2), range(3)] }), [range(2), range(3)]);
+    assert.deepStrictEqual(getEditorControlRanges({ action: 'open', path: '/a.ts' }), []);
+  });
+
+  test('should accept opening a file without a location and clearing without a path', () => {
+    assert.doesNotThrow(() => validateEditorControl({ action: 'open', path: '/a.ts' }));
+    assert.doesNotThrow(() => validateEditorControl({ action: 'clear_highlights' }));
+    assert.doesNotThrow(() => validateEditorControl({ action: 'highlight', path: '/a.ts', range: range(3), durationMs: 0 }));
+  });
+
+  test('should reject invalid requests', () => {
+    assert.throws(() => validateEditorControl({ action: 'close' as any }), /action must be one of/);
+    assert.throws(() => validateEditorControl({ action: 'reveal', range: range(1) }), /requires a path/);
+    assert.throws(() => validateEditorControl({ action: 'select', path: '/a.ts' }), /requires a position, range or ranges/);
+    assert.throws(() => validateEditorControl({ action: 'open', path: '/a.ts', position: { line: 1.5, character: 0 } }), /position/);
+    assert.throws(() => validateEditorControl({ action: 'select', path: '/a.ts', ranges: [range(1), { start: { line: 1 } } as any] }), /ranges/);
+    assert.throws(() => validateEditorControl({ action: 'highlight', path: '/a.ts', range: range(1), durationMs: -5 }), /durationMs/);
+  });
+});
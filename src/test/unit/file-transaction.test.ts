@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { describeFileTransaction, validateFileTransaction } from '../../bridge/fileTransaction';
+
+suite('File Transaction', () => {
+  test('should accept create, modify, delete and rename operations', () => {
+    const operations = validateFileTransaction({
+      operations: [
+        { type: 'create', path: '/work/src/new.ts', content: 'export {};\n' },
+        { type: 'modify', path: '/work/src/index.ts', content: 'import "./new";\n' },
+        { type: 'delete', path: '/work/src/old.ts' },
+        { type: 'rename', path: '/work/src/a.ts', newPath: '/work/src/b.ts' }
+      ]
+    });
+
+    assert.deepStrictEqual(operations.map(operation => operation.type), ['create', 'modify', 'delete', 'rename']);
+    assert.strictEqual(
+      describeFileTransaction(operations),
+      'create /work/src/new.ts\nmodify /work/src/index.ts\ndelete /work/src/old.ts\nrename /work/src/a.ts → /work/src/b.ts'
+    );
+  });
+
+  test('should reject malformed operations before touching anything', () => {
+    assert.throws(() => validateFileTransaction({ operations: [] }), /non-empty/);
+    assert.throws(() => validateFileTransaction({ operations: [{ type: 'modify', path: '/work/a.ts' }] }), /needs content/);
+    assert.throws(() => validateFileTransaction({ operations: [{ type: 'create', path: 'relative.ts' }] }), /absolute path/);
+    assert.throws(() => validateFileTransaction({ operations: [{ type: 'rename', path: '/work/a.ts' }] }), /absolute newPath/);
+    assert.throws(() => validateFileTransaction({ operations: [{ type: 'chmod' as any, path: '/work/a.ts' }] }), /unknown type/);
+  });
+
+  test('should reject operations that touch the same path twice', () => {
+    assert.throws(() => validateFileTransaction({
+      operations: [
+        { type: 'modify', path: '/work/a.ts', content: '' },
+        { type: 'delete', path: '/work/./a.ts' }
+      ]
+    }), /Operations 0 and 1 both touch/);
+
+    assert.throws(() => validateFileTransaction({
+      operations: [
+        { type: 'rename', path: '/work/a.ts', newPath: '/work/b.ts' },
+        { type: 'create', path: '/work/b.ts' }
+      ]
+    }), /both touch \/work\/b.ts/);
+  });
+
+  test('should shorten long approval summaries', () => {
+    const operations = Array.from({ length: 20 }, (_, index) => ({ type: 'delete' as const, path: `/work/${index}.ts` }));
+    const summary = describeFileTransaction(validateFileTransaction({ operations }), 5).split('\n');
+
+    assert.strictEqual(summary.length, 6);
+    assert.strictEqual(summary[5], '…and 15 more');
+  });
+});
@@ -0,0 +1,202 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import WebSocket from 'ws';
+import { AddressInfo } from 'net';
+import { TUIClient } from '../../tui/TUIClient';
+import { FileTransferRegistry, createChunk, sha256 } from '../../bridge/FileTransferRegistry';
+
+suite('File Transfer', () => {
+  const content = crypto.randomBytes(10 * 1024 + 17);
+
+  test('should split reads into checksummed chunks with offsets', () => {
+    const registry = new FileTransferRegistry();
+    const info = registry.startRead('session', '/work/big.txt', content, 4096);
+
+    assert.strictEqual(info.totalChunks, 3);
+    assert.strictEqual(info.checksum, sha256(content));
+
+    const chunks = [0, 1, 2].map(index => registry.readChunk('session', info.transferId, index));
+    assert.deepStrictEqual(chunks.map(chunk => chunk.offset), [0, 4096, 8192]);
+    const reassembled = Buffer.concat(chunks.map(chunk => Buffer.from(chunk.data, 'base64')));
+    assert.ok(reassembled.equals(content));
+
+    assert.throws(() => registry.readChunk('session', info.transferId, 3), /between 0 and 2/);
+    assert.throws(() => registry.readChunk('other-session', info.transferId, 0), /Unknown or expired/);
+  });
+
+  test('should reassemble writes in any order and report missing chunks for resuming', () => {
+    const registry = new FileTransferRegistry();
+    const info = registry.startWrite('session', '/work/big.txt', 'modify', content.length, sha256(content), 4096);
+    assert.deepStrictEqual(info.missingChunks, [0, 1, 2]);
+
+    registry.writeChunk('session', createChunk(info.transferId, content, 2, 4096));
+    registry.writeChunk('session', createChunk(info.transferId, content, 0, 4096));
+    assert.deepStrictEqual(registry.status('session', info.transferId).missingChunks, [1]);
+    assert.throws(() => registry.assemble('session', info.transferId), /1 of 3 chunks missing/);
+
+    registry.writeChunk('session', createChunk(info.transferId, content, 1, 4096));
+    registry.writeChunk('session', createChunk(info.transferId, content, 1, 4096)); // Resent after a reconnect
+    const assembled = registry.assemble('session', info.transferId);
+    assert.ok(assembled.content.equals(content));
+    assert.strictEqual(assembled.operation, 'modify');
+  });
+
+  test('should reject chunks with a wrong offset, length or checksum', () => {
+    const registry = new FileTransferRegistry();
+    const info = registry.startWrite('session', '/work/big.txt', 'create', content.length, sha256(content), 4096);
+    const chunk = createChunk(info.transferId, content, 1, 4096);
+
+    assert.throws(() => registry.writeChunk('session', { ...chunk, offset: 4000 }), /offset 4096/);
+    assert.throws(() => registry.writeChunk('session', { ...chunk, checksum: sha256(Buffer.from('x')) }), /Checksum mismatch/);
+    assert.throws(
+      () => registry.writeChunk('session', { ...chunk, data: chunk.data.slice(0, 8), checksum: sha256(Buffer.from(chunk.data.slice(0, 8), 'base64')) }),
+      /must be 4096 bytes/
+    );
+
+    const wrongTotal = registry.startWrite('session', '/work/big.txt', 'create', 3, sha256(Buffer.from('abd')));
+    registry.writeChunk('session', createChunk(wrongTotal.transferId, Buffer.from('abc'), 0, wrongTotal.chunkSize));
+    assert.throws(() => registry.assemble('session', wrongTotal.transferId), /reassembled content/);
+  });
+
+  test('should enforce size limits and expire idle transfers', () => {
+    let now = 0;
+    const registry = new FileTransferRegistry({ ttlMs: 1000, maxTransferSize: 16, maxTotalBytes: 24 }, () => now);
+
+    assert.throws(() => registry.startRead('session', '/a', Buffer.alloc(17)), /transfer limit/);
+    assert.throws(() => registry.startRead('session', '/a', Buffer.alloc(1), 1024 * 1024), /chunkSize/);
+
+    const first = registry.startRead('session', '/a', Buffer.alloc(16));
+    assert.throws(() => registry.startRead('session', '/b', Buffer.alloc(16)), /unfinished transfers/);
+
+    now = 1001;
+    assert.throws(() => registry.status('session', first.transferId), /Unknown or expired/);
+    assert.doesNotThrow(() => registry.startRead('session', '/b', Buffer.alloc(16)));
+  });
+
+  test('should let TUIClient resume a chunked read after a reconnect', async () => {
+    const registry = new FileTransferRegistry();
+    const text = 'é'.repeat(6000); // Multi-byte characters straddle chunk boundaries
+    let dropped = false;
+    let chunkRequests = 0;
+
+    const server = http.createServer();
+    const wss = new WebSocket.Server({ server });
+    wss.on('connection', socket => socket.on('message', data => {
+      const message = JSON.parse(data.toString());
+      const reply = (payload: object) => socket.send(JSON.stringify({ id: message.id, timestamp: '', source: 'VSCODE', sessionId: 's1', ...payload }));
+
+      if (message.type === 'HANDSHAKE') {
+        reply({ type: 'HANDSHAKE', payload: { version: '1.0.0', features: ['chunked_transfer'] } });
+        return;
+      }
+      const { command, args } = message.payload;
+      if (command === 'auth_request') {
+        reply({ type: 'COMMAND_RESPONSE', payload: { success: true, result: { sessionId: 's1' } } });
+        return;
+      }
+
+      if (args.action === 'read_chunk' && ++chunkRequests === 2 && !dropped) {
+        dropped = true;
+        socket.terminate();
+        return;
+      }
+      const result = args.action === 'start_read'
+        ? registry.startRead('s1', args.path, Buffer.from(text, 'utf8'), args.chunkSize)
+        : registry.readChunk('s1', args.transferId, args.index);
+      reply({ type: 'COMMAND_RESPONSE', payload: { success: true, result } });
+    }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    const client = new TUIClient({
+      bridgeUrl: `ws://127.0.0.1:${port}`,
+      authToken: 'token',
+      reconnectAttempts: 3,
+      reconnectDelay: 10,
+      heartbeatInterval: 60000,
+      resumeTimeout: 5000
+    });
+    client.on('error', () => {});
+
+    try {
+      await client.connect();
+      assert.strictEqual(await client.readFile('/work/big.txt', 1000), text);
+      assert.ok(dropped, 'the connection was dropped mid-transfer');
+      assert.strictEqual(chunkRequests, 13); // 12 chunks plus the request lost with the connection
+    } finally {
+      client.disconnect();
+      wss.close();
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  test('should let TUIClient back off and retry when the bridge rate-limits a transfer step', async () => {
+    const registry = new FileTransferRegistry();
+    const bytes = Buffer.from('x'.repeat(3000), 'utf8');
+    let limited = 0;
+    let committed: Buffer | undefined;
+
+    const server = http.createServer();
+    const wss = new WebSocket.Server({ server });
+    wss.on('connection', socket => socket.on('message', data => {
+      const message = JSON.parse(data.toString());
+      const reply = (payload: object) => socket.send(JSON.stringify({ id: message.id, timestamp: '', source: 'VSCODE', sessionId: 's1', ...payload }));
+
+      if (message.type === 'HANDSHAKE') {
+        reply({ type: 'HANDSHAKE', payload: { version: '1.0.0', features: ['chunked_transfer'] } });
+        return;
+      }
+      const { command, args } = message.payload;
+      if (command === 'auth_request') {
+        reply({ type: 'COMMAND_RESPONSE', payload: { success: true, result: { sessionId: 's1' } } });
+        return;
+      }
+
+      if (args.action === 'status' && limited++ === 0) {
+        reply({ type: 'ERROR', payload: { code: 'RATE_LIMITED', message: 'Rate limit exceeded', details: { retryAfterMs: 20 }, recoverable: true } });
+        return;
+      }
+      let result: unknown;
+      switch (args.action) {
+        case 'start_write':
+          result = registry.startWrite('s1', args.path, args.operation, args.totalBytes, args.checksum, args.chunkSize);
+          break;
+        case 'write_chunk':
+          result = registry.writeChunk('s1', args);
+          break;
+        case 'status':
+          result = registry.status('s1', args.transferId);
+          break;
+        case 'commit':
+          committed = registry.assemble('s1', args.transferId).content;
+          break;
+      }
+      reply({ type: 'COMMAND_RESPONSE', payload: { success: true, result } });
+    }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    const client = new TUIClient({
+      bridgeUrl: `ws://127.0.0.1:${port}`,
+      authToken: 'token',
+      reconnectAttempts: 3,
+      reconnectDelay: 10,
+      heartbeatInterval: 60000
+    });
+    client.on('error', () => {});
+
+    try {
+      await client.connect();
+      await client.writeFile('/work/big.txt', bytes.toString('utf8'), 'modify', 1024);
+      assert.strictEqual(limited, 2, 'the rate-limited status request was sent again');
+      assert.ok(committed?.equals(bytes));
+    } finally {
+      client.disconnect();
+      wss.close();
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  HttpRequestError,
+  getHttpStatus,
+  parseBearerToken,
+  readJsonBody,
+  toInboundHttpMessage
+} from '../../bridge/httpTransport';
+import { createBridgeError, normalizeInboundMessage, toCommandResponse } from '../../bridge/protocolAdapter';
+
+suite('HTTP Transport', () => {
+  test('should parse bearer tokens', () => {
+    assert.strictEqual(parseBearerToken('Bearer abc.def.ghi'), 'abc.def.ghi');
+    assert.strictEqual(parseBearerToken('bearer  abc '), 'abc');
+    assert.strictEqual(parseBearerToken('Basic abc'), null);
+    assert.strictEqual(parseBearerToken(undefined), null);
+  });
+
+  test('should expand the command shorthand into a COMMAND_EXECUTE envelope', () => {
+    const inbound = normalizeInboundMessage(toInboundHttpMessage(
+      { command: 'getWorkspace', args: { queryType: 'files' } },
+      'generated-id'
+    ));
+
+    assert.strictEqual(inbound.kind, 'command');
+    if (inbound.kind === 'command') {
+      assert.strictEqual(inbound.command.id, 'generated-id');
+      assert.strictEqual(inbound.command.type, 'workspace_query');
+      assert.deepStrictEqual(inbound.command.payload, { queryType: 'files' });
+    }
+  });
+
+  test('should pass formal and legacy messages through, keeping their id', () => {
+    const legacy = normalizeInboundMessage(toInboundHttpMessage(
+      { id: 'cmd-1', type: 'workspace_query', payload: { queryType: 'files' } },
+      'generated-id'
+    ));
+    assert.strictEqual(legacy.kind === 'command' && legacy.format, 'legacy');
+    assert.strictEqual(legacy.kind === 'command' && legacy.command.id, 'cmd-1');
+
+    const request = normalizeInboundMessage(toInboundHttpMessage(
+      { type: 'WORKSPACE_REQUEST', timestamp: '', source: 'TUI', sessionId: 's', payload: { requestedData: ['activeFile'] } },
+      'generated-id'
+    ));
+    assert.strictEqual(request.kind, 'workspace_request');
+
+    assert.throws(() => toInboundHttpMessage([], 'id'), HttpRequestError);
+  });
+
+  test('should map replies to HTTP status codes', () => {
+    const ok = toCommandResponse({ id: 'a', success: true, timestamp: 0 }, 's');
+    const failed = toCommandResponse({ id: 'a', success: false, error: 'nope', timestamp: 0 }, 's');
+
+    assert.strictEqual(getHttpStatus(ok), 200);
+    assert.strictEqual(getHttpStatus(failed), 422);
+    assert.strictEqual(getHttpStatus({ id: 'a', success: false, timestamp: 0 }), 422);
+    assert.strictEqual(getHttpStatus(createBridgeError('a', 's', 'CIRCUIT_BREAKER_OPEN', 'open')), 503);
+    assert.strictEqual(getHttpStatus(createBridgeError('a', 's', 'INVALID_MESSAGE', 'bad')), 400);
+  });
+
+  test('should read JSON bodies and reject oversized ones', async () => {
+    const server = http.createServer((request, response) => {
+      readJsonBody(request, 32).then(
+        body => response.end(JSON.stringify({ ok: true, body })),
+        (error: HttpRequestError) => {
+          response.statusCode = error.status;
+          response.end(error.message);
+        }
+      );
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    const post = (body: string) => new Promise<{ status: number; text: string }>((resolve, reject) => {
+      const request = http.request({ port, host: '127.0.0.1', method: 'POST' }, response => {
+        let text = '';
+        response.on('data', chunk => { text += chunk; });
+        response.on('end', () => resolve({ status: response.statusCode || 0, text }));
+      });
+      request.on('error', reject);
+      request.end(body);
+    });
+
+    try {
+      assert.deepStrictEqual(JSON.parse((await post('{"a":1}')).text), { ok: true, body: { a: 1 } });
+      assert.strictEqual((await post('{not json')).status, 400);
+      assert.strictEqual((await post(JSON.stringify({ padding: 'x'.repeat(64) }))).status, 413);
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+});
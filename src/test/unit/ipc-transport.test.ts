@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { getDefaultIpcPath, isNamedPipe, listenOnIpcPath, prepareIpcPath } from '../../bridge/ipcTransport';
+
+suite('IPC Transport', () => {
+  let directory: string;
+  let servers: net.Server[];
+
+  setup(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'automatus-ipc-'));
+    servers = [];
+  });
+
+  teardown(async () => {
+    for (const server of servers) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const listen = async (socketPath: string): Promise<http.Server> => {
+    const server = http.createServer();
+    servers.push(server);
+    await listenOnIpcPath(server, socketPath);
+    return server;
+  };
+
+  test('should derive a stable path per workspace', () => {
+    const first = getDefaultIpcPath('/work/a', 'linux');
+    assert.strictEqual(getDefaultIpcPath('/work/a', 'linux'), first);
+    assert.notStrictEqual(getDefaultIpcPath('/work/b', 'linux'), first);
+    assert.ok(first.endsWith('.sock'));
+
+    const pipe = getDefaultIpcPath('C:\\work\\a', 'win32');
+    assert.ok(isNamedPipe(pipe), pipe);
+  });
+
+  if (process.platform === 'win32') {
+    return;
+  }
+
+  test('should restrict the socket to the current user and carry WebSocket frames', async () => {
+    const socketPath = path.join(directory, 'bridge.sock');
+    const server = await listen(socketPath);
+    const wss = new WebSocket.Server({ server });
+    wss.on('connection', socket => socket.on('message', data => socket.send(`echo:${data}`)));
+
+    const stats = await fs.stat(socketPath);
+    assert.strictEqual(stats.mode & 0o777, 0o600);
+
+    const client = new WebSocket('ws://localhost/', { createConnection: () => net.createConnection(socketPath) });
+    const reply = await new Promise<string>((resolve, reject) => {
+      client.once('open', () => client.send('ping'));
+      client.once('message', data => resolve(data.toString()));
+      client.once('error', reject);
+    });
+    client.close();
+    wss.close();
+
+    assert.strictEqual(reply, 'echo:ping');
+  });
+
+  test('should replace a stale socket but refuse one that is still in use', async () => {
+    const socketPath = path.join(directory, 'bridge.sock');
+    await fs.writeFile(socketPath, '');
+    await prepareIpcPath(socketPath);
+    await assert.rejects(fs.stat(socketPath));
+
+    await listen(socketPath);
+    await assert.rejects(prepareIpcPath(socketPath), /already listening/);
+  });
+
+  test('should refuse a socket directory other users can enter', async () => {
+    const shared = path.join(directory, 'shared');
+    await fs.mkdir(shared, { mode: 0o755 });
+    await fs.chmod(shared, 0o755);
+
+    await assert.rejects(prepareIpcPath(path.join(shared, 'bridge.sock')), /accessible to other users/);
+  });
+});
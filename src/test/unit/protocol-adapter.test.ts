@@ -0,0 +1,218 @@
+import * as assert from 'assert';
+import {
+  normalizeInboundMessage,
+  toCommandResponse,
+  createBridgeError,
+  negotiateProtocolVersion,
+  negotiateFeatures,
+  getRequiredFeature
+} from '../../bridge/protocolAdapter';
+
+suite('Bridge Protocol Adapter', () => {
+  const envelope = {
+    timestamp: new Date().toISOString(),
+    source: 'TUI',
+    sessionId: 'adapter-test-session'
+  };
+
+  test('should adapt COMMAND_EXECUTE with an internal command name', () => {
+    const inbound = normalizeInboundMessage({
+      ...envelope,
+      id: 'cmd-1',
+      type: 'COMMAND_EXECUTE',
+      payload: {
+        command: 'workspace_query',
+        args: { queryType: 'files', limit: 5 },
+        safetyLevel: 'read_only'
+      }
+    });
+
+    assert.strictEqual(inbound.kind, 'command');
+    if (inbound.kind === 'command') {
+      assert.strictEqual(inbound.format, 'formal');
+      assert.strictEqual(inbound.command.type, 'workspace_query');
+      assert.deepStrictEqual(inbound.command.payload, { queryType: 'files', limit: 5 });
+    }
+  });
+
+  test('should route VS Code command names through command_execution', () => {
+    const inbound = normalizeInboundMessage({
+      ...envelope,
+      id: 'cmd-2',
+      type: 'COMMAND_EXECUTE',
+      payload: {
+        command: 'automatus.explainCode',
+        args: ['extra'],
+        safetyLevel: 'read_only'
+      }
+    });
+
+    assert.strictEqual(inbound.kind, 'command');
+    if (inbound.kind === 'command' && inbound.command.type === 'command_execution') {
+      assert.strictEqual(inbound.command.payload.commandName, 'automatus.explainCode');
+      assert.deepStrictEqual(inbound.command.payload.args, ['extra']);
+      assert.strictEqual(inbound.command.payload.safetyLevel, 'read_only');
+    } else {
+      assert.fail('Expected a command_execution command');
+    }
+  });
+
+  test('should adapt FILE_CHANGE into a file operation requiring approval', () => {
+    const inbound = normalizeInboundMessage({
+      ...envelope,
+      id: 'change-1',
+      type: 'FILE_CHANGE',
+      payload: {
+        operation: { type: 'modify', path: '/workspace/src/a.ts', content: 'x' },
+        source: 'TUI'
+      }
+    });
+
+    assert.strictEqual(inbound.kind, 'command');
+    if (inbound.kind === 'command' && inbound.command.type === 'file_operation') {
+      assert.strictEqual(inbound.command.payload.operation, 'modify');
+      assert.strictEqual(inbound.command.requiresApproval, true);
+    } else {
+      assert.fail('Expected a file_operation command');
+    }
+  });
+
+  test('should carry the destination of a FILE_CHANGE rename', () => {
+    const inbound = normalizeInboundMessage({
+      ...envelope,
+      id: 'change-2',
+      type: 'FILE_CHANGE',
+      payload: {
+        operation: { type: 'rename', path: '/workspace/src/a.ts', newPath: '/workspace/lib/a.ts' },
+        source: 'TUI'
+      }
+    });
+
+    if (inbound.kind === 'command' && inbound.command.type === 'file_operation') {
+      assert.strictEqual(inbound.command.payload.operation, 'rename');
+      assert.strictEqual(inbound.command.payload.newPath, '/workspace/lib/a.ts');
+    } else {
+      assert.fail('Expected a file_operation command');
+    }
+  });
+
+  test('should accept legacy command shapes', () => {
+    const inbound = normalizeInboundMessage({
+      id: 'legacy-1',
+      type: 'context_request',
+      payload: { contextType: 'selection' },
+      timestamp: Date.now()
+    });
+
+    assert.strictEqual(inbound.kind, 'command');
+    if (inbound.kind === 'command') {
+      assert.strictEqual(inbound.format, 'legacy');
+      assert.strictEqual(inbound.command.type, 'context_request');
+    }
+  });
+
+  test('should classify handshake, workspace and heartbeat messages', () => {
+    assert.strictEqual(normalizeInboundMessage({ ...envelope, id: 'h', type: 'HANDSHAKE', payload: {} }).kind, 'handshake');
+    assert.strictEqual(normalizeInboundMessage({ ...envelope, id: 'w', type: 'WORKSPACE_REQUEST', payload: {} }).kind, 'workspace_request');
+    assert.strictEqual(normalizeInboundMessage({ ...envelope, id: 'b', type: 'HEARTBEAT' }).kind, 'heartbeat');
+  });
+
+  test('should report unknown message types as unsupported', () => {
+    const inbound = normalizeInboundMessage({ id: 'u-1', type: 'mystery_command', payload: {} });
+    assert.deepStrictEqual(inbound, { kind: 'unsupported', id: 'u-1', type: 'mystery_command' });
+  });
+
+  test('should reject messages without an id', () => {
+    assert.throws(() => normalizeInboundMessage({ type: 'HEARTBEAT' }), /Message id is required/);
+    assert.throws(() => normalizeInboundMessage('not an object'), /must be a JSON object/);
+  });
+
+  test('should wrap internal responses in COMMAND_RESPONSE envelopes', () => {
+    const response = toCommandResponse({
+      id: 'cmd-1',
+      success: false,
+      error: 'Operation not permitted by safety guard',
+      timestamp: Date.now()
+    }, 'session-1');
+
+    assert.strictEqual(response.type, 'COMMAND_RESPONSE');
+    assert.strictEqual(response.source, 'VSCODE');
+    assert.strictEqual(response.sessionId, 'session-1');
+    assert.strictEqual(response.payload.success, false);
+    assert.strictEqual(response.payload.error, 'Operation not permitted by safety guard');
+  });
+
+  test('should build structured ERROR messages', () => {
+    const error = createBridgeError('cmd-9', 'session-1', 'AUTH_REQUIRED', 'Authentication required');
+
+    assert.strictEqual(error.type, 'ERROR');
+    assert.strictEqual(error.payload.code, 'AUTH_REQUIRED');
+    assert.strictEqual(error.payload.recoverable, true);
+  });
+
+  suite('Version negotiation', () => {
+    test('should pick the highest common version', () => {
+      assert.strictEqual(negotiateProtocolVersion(['1.0.0', '1.2.0', '2.0.0'], ['1.0.0', '1.2.0', '1.3.0']), '1.2.0');
+    });
+
+    test('should treat a missing patch component as zero', () => {
+      assert.strictEqual(negotiateProtocolVersion(['1.0'], ['1.0.0']), '1.0.0');
+    });
+
+    test('should return null when no version is shared', () => {
+      assert.strictEqual(negotiateProtocolVersion(['2.0.0', 'latest'], ['1.0.0']), null);
+    });
+
+    test('should only enable requested features the server supports', () => {
+      assert.deepStrictEqual(negotiateFeatures(['file_change', 'telepathy']), ['file_change']);
+      assert.deepStrictEqual(negotiateFeatures([]), []);
+    });
+
+    test('should map FILE_CHANGE and WORKSPACE_REQUEST to their features', () => {
+      const fileChange = normalizeInboundMessage({
+        ...envelope,
+        id: 'change-2',
+        type: 'FILE_CHANGE',
+        payload: { operation: { type: 'delete', path: '/workspace/a.ts' }, source: 'TUI' }
+      });
+      const workspace = normalizeInboundMessage({ ...envelope, id: 'w-2', type: 'WORKSPACE_REQUEST', payload: {} });
+
+      assert.strictEqual(getRequiredFeature(fileChange), 'file_change');
+      assert.strictEqual(getRequiredFeature(workspace), 'workspace_request');
+    });
+
+    test('should gate cancel commands behind the cancellation feature', () => {
+      const cancel = normalizeInboundMessage({
+        ...envelope,
+        id: 'cancel-1',
+        type: 'COMMAND_EXECUTE',
+        payload: { command: 'cancel', args: { commandId: 'cmd-7' }, safetyLevel: 'read_only' }
+      });
+
+      assert.strictEqual(cancel.kind, 'command');
+      if (cancel.kind === 'command') {
+        assert.strictEqual(cancel.command.type, 'cancel');
+        assert.deepStrictEqual(cancel.command.payload, { commandId: 'cmd-7' });
+      }
+      assert.strictEqual(getRequiredFeature(cancel), 'cancellation');
+    });
+  });
+
+  test('should report server-bound message types as unsupported', () => {
+    const inbound = normalizeInboundMessage({ ...envelope, id: 'analytics-1', type: 'ANALYTICS_UPDATE', payload: {} });
+    assert.deepStrictEqual(inbound, { kind: 'unsupported', id: 'analytics-1', type: 'ANALYTICS_UPDATE' });
+  });
+
+  test('should adapt UI_SPAWN into a ui_spawn command behind its feature', () => {
+    const payload = { panelId: 'review', panelType: 'approval', title: 'Review', data: { message: 'Apply?' } };
+    const inbound = normalizeInboundMessage({ ...envelope, id: 'spawn-1', type: 'UI_SPAWN', payload });
+
+    if (inbound.kind === 'command' && inbound.command.type === 'ui_spawn') {
+      assert.deepStrictEqual(inbound.command.payload, payload);
+    } else {
+      assert.fail('Expected a ui_spawn command');
+    }
+    assert.strictEqual(getRequiredFeature(inbound), 'ui_spawn');
+    assert.throws(() => normalizeInboundMessage({ ...envelope, id: 'spawn-2', type: 'UI_SPAWN', payload: {} }), /panelType/);
+  });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { createStreamParser, detectStreamFormat } from '../../automatus-client/streamParser';
+
+suite('Stream Parser', () => {
+  test('should detect the stream format from the content type', () => {
+    assert.strictEqual(detectStreamFormat('text/event-stream; charset=utf-8'), 'sse');
+    assert.strictEqual(detectStreamFormat('application/x-ndjson'), 'ndjson');
+    assert.strictEqual(detectStreamFormat('application/json'), null);
+    assert.strictEqual(detectStreamFormat(null), null);
+  });
+
+  test('should reassemble SSE events split across chunks', () => {
+    const parser = createStreamParser('sse');
+
+    assert.deepStrictEqual(parser.push('data: {"token":"Hel'), []);
+    assert.deepStrictEqual(parser.push('lo"}\n\n: keep-alive\n\ndata: {"delta":" world"}\r\n\r\n'), [
+      { type: 'token', text: 'Hello' },
+      { type: 'token', text: ' world' }
+    ]);
+    assert.deepStrictEqual(parser.push('data: [DONE]\n\n'), [{ type: 'done' }]);
+  });
+
+  test('should surface SSE error and done events', () => {
+    const parser = createStreamParser('sse');
+    const events = parser.push('event: error\ndata: model overloaded\n\nevent: done\ndata: {"summary":"ok"}\n\n');
+
+    assert.deepStrictEqual(events, [
+      { type: 'error', message: 'model overloaded' },
+      { type: 'done', response: '{"summary":"ok"}' }
+    ]);
+  });
+
+  test('should parse NDJSON lines and flush a trailing line', () => {
+    const parser = createStreamParser('ndjson');
+
+    assert.deepStrictEqual(parser.push('{"token":"a"}\n{"content":"b"}\n{"done":true,'), [
+      { type: 'token', text: 'a' },
+      { type: 'token', text: 'b' }
+    ]);
+    assert.deepStrictEqual(parser.push('"response":"final"}'), []);
+    assert.deepStrictEqual(parser.flush(), [{ type: 'done', response: 'final' }]);
+  });
+
+  test('should keep numeric and boolean tokens as text', () => {
+    const sse = createStreamParser('sse');
+    assert.deepStrictEqual(sse.push('data: The answer is \n\ndata: 42\n\ndata: true\n\ndata: null\n\n'), [
+      { type: 'token', text: 'The answer is ' },
+      { type: 'token', text: '42' },
+      { type: 'token', text: 'true' },
+      { type: 'token', text: 'null' }
+    ]);
+
+    const ndjson = createStreamParser('ndjson');
+    assert.deepStrictEqual(ndjson.push('"It is "\n3.5\nfalse\n'), [
+      { type: 'token', text: 'It is ' },
+      { type: 'token', text: '3.5' },
+      { type: 'token', text: 'false' }
+    ]);
+  });
+
+  test('should report error payloads in NDJSON streams', () => {
+    const parser = createStreamParser('ndjson');
+    assert.deepStrictEqual(parser.push('{"error":{"code":500}}\n'), [
+      { type: 'error', message: '{"code":500}' }
+    ]);
+  });
+});
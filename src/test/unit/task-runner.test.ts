@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { resolveTaskVariables, runTaskProcess, validateRunTask } from '../../bridge/taskRunner';
+
+// Runs small node scripts so the tests do not depend on the shell or tools of the machine
+const node = (script: string) => ({ command: process.execPath, args: ['-e', script], shell: false, cwd: process.cwd() });
+
+suite('Task Runner', () => {
+  test('should capture and stream output with the exit code', async () => {
+    const chunks: string[] = [];
+    const result = await runTaskProcess(node('console.log("3 passing"); console.error("1 failing"); process.exit(1)'), {
+      onOutput: (stream, chunk) => chunks.push(`${stream}:${chunk.trim()}`)
+    });
+
+    assert.strictEqual(result.exitCode, 1);
+    assert.strictEqual(result.stdout.trim(), '3 passing');
+    assert.strictEqual(result.stderr.trim(), '1 failing');
+    assert.deepStrictEqual(chunks.sort(), ['stderr:1 failing', 'stdout:3 passing']);
+    assert.strictEqual(result.timedOut, false);
+  });
+
+  test('should run shell command lines', async () => {
+    const result = await runTaskProcess({ command: `"${process.execPath}"`, args: ['-e', '"console.log(6 * 7)"'], shell: true, cwd: process.cwd() });
+    assert.strictEqual(result.exitCode, 0);
+    assert.strictEqual(result.stdout.trim(), '42');
+  });
+
+  test('should stop tasks that time out or are cancelled', async () => {
+    const timedOut = await runTaskProcess(node('setTimeout(() => {}, 60000)'), { timeoutMs: 200 });
+    assert.strictEqual(timedOut.timedOut, true);
+    assert.strictEqual(timedOut.exitCode, null);
+
+    const controller = new AbortController();
+    const running = runTaskProcess(node('console.log("started"); setTimeout(() => {}, 60000)'), {
+      signal: controller.signal,
+      onOutput: () => controller.abort()
+    });
+    const cancelled = await running;
+    assert.strictEqual(cancelled.signal, 'SIGTERM');
+    assert.strictEqual(cancelled.timedOut, false);
+  });
+
+  test('should keep only the end of long output', async () => {
+    const result = await runTaskProcess(node('for (let i = 0; i < 200; i++) console.log("line " + i)'), { maxOutputBytes: 64 });
+    assert.strictEqual(result.truncated, true);
+    assert.ok(Buffer.byteLength(result.stdout) <= 64);
+    assert.ok(result.stdout.endsWith('line 199\n'));
+  });
+
+  test('should reject processes that cannot start', async () => {
+    await assert.rejects(runTaskProcess({ command: '/nonexistent/tool', args: [], shell: false, cwd: process.cwd() }), /ENOENT/);
+  });
+
+  test('should resolve workspace variables and validate requests', () => {
+    assert.strictEqual(resolveTaskVariables('${workspaceFolder}/out/${workspaceFolderBasename}', '/home/me/app'), '/home/me/app/out/app');
+    assert.strictEqual(resolveTaskVariables('${config:foo}', '/app'), '${config:foo}');
+
+    assert.doesNotThrow(() => validateRunTask({ source: 'build_command', command: 'npm test' }));
+    assert.throws(() => validateRunTask({ source: 'shell' as any }), /source must be/);
+    assert.throws(() => validateRunTask({ source: 'task' }), /taskName/);
+    assert.throws(() => validateRunTask({ source: 'build_command', command: 'npm test', timeoutMs: 0 }), /timeoutMs/);
+  });
+});
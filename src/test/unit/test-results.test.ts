@@ -0,0 +1,226 @@
+import * as assert from 'assert';
+import { extractFailureLocation, parseTestReport, summarizeTests } from '../../bridge/testResults';
+import { detectTestRunner, planTestRun, validateTestRunRequest } from '../../bridge/testRunners';
+import { ProjectInfo } from '../../bridge/TUIVSCodeBridge';
+
+const project = (type: ProjectInfo['type'], configFiles: string[] = []): ProjectInfo =>
+  ({ rootPath: '/work/app', name: 'app', type, configFiles, buildCommands: [] });
+
+suite('Test Results', () => {
+  test('should parse mocha TAP with failure locations from the stack', () => {
+    const tap = [
+      'TAP version 13',
+      '1..3',
+      'ok 1 Parser reads numbers',
+      'not ok 2 Parser reads strings',
+      '  ---',
+      '    error: |-',
+      '      expected \'a\' to equal \'b\'',
+      '    stack: |-',
+      '      AssertionError: expected \'a\' to equal \'b\'',
+      '          at Context.<anonymous> (/work/app/test/parser.test.js:14:12)',
+      '          at process.processImmediate (node:internal/timers:476:21)',
+      '  ...',
+      'ok 3 Parser reads dates # SKIP',
+      '# tests 3'
+    ].join('\n');
+
+    const tests = parseTestReport('tap', tap);
+    assert.deepStrictEqual(tests.map(t => [t.name, t.status]), [
+      ['Parser reads numbers', 'passed'],
+      ['Parser reads strings', 'failed'],
+      ['Parser reads dates', 'skipped']
+    ]);
+    assert.strictEqual(tests[1].file, '/work/app/test/parser.test.js');
+    assert.strictEqual(tests[1].line, 14);
+    assert.match(tests[1].failureMessage ?? '', /expected 'a' to equal 'b'/);
+    assert.deepStrictEqual(summarizeTests(tests), { total: 3, passed: 1, failed: 1, skipped: 1 });
+  });
+
+  test('should fold nested node:test points into suites', () => {
+    const tap = [
+      'TAP version 13',
+      '# Subtest: math',
+      '    # Subtest: adds',
+      '    ok 1 - adds',
+      '      ---',
+      '      duration_ms: 1.5',
+      '      ...',
+      '    # Subtest: divides',
+      '    not ok 2 - divides',
+      '      ---',
+      '      duration_ms: 2',
+      '      location: \'/work/app/math.test.js:9:3\'',
+      '      error: \'division by zero\'',
+      '      ...',
+      '    1..2',
+      'not ok 1 - math',
+      '  ---',
+      '  duration_ms: 5',
+      '  ...',
+      '1..1'
+    ].join('\n');
+
+    const tests = parseTestReport('tap', tap);
+    assert.strictEqual(tests.length, 2);
+    assert.deepStrictEqual(tests.map(t => [t.suite, t.name, t.status]), [
+      ['math', 'adds', 'passed'],
+      ['math', 'divides', 'failed']
+    ]);
+    assert.strictEqual(tests[1].file, '/work/app/math.test.js');
+    assert.strictEqual(tests[1].line, 9);
+    assert.strictEqual(tests[1].failureMessage, 'division by zero');
+  });
+
+  test('should parse JUnit XML from pytest with zero-based lines', () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+<testsuites><testsuite name="pytest" tests="3">
+  <testcase classname="tests.test_api" name="test_get" file="tests/test_api.py" line="4" time="0.012"/>
+  <testcase classname="tests.test_api" name="test_post" file="tests/test_api.py" line="9" time="0.020">
+    <failure message="assert 404 == 200"><![CDATA[def test_post():
+>       assert status == 200
+E       assert 404 == 200]]></failure>
+  </testcase>
+  <testcase classname="tests.test_api" name="test_&lt;delete&gt;" file="tests/test_api.py" line="15" time="0">
+    <skipped message="not implemented"/>
+  </testcase>
+</testsuite></testsuites>`;
+
+    const tests = parseTestReport('junit', xml, { zeroBasedLines: true });
+    assert.deepStrictEqual(tests.map(t => [t.name, t.status, t.line]), [
+      ['test_get', 'passed', 5],
+      ['test_post', 'failed', 10],
+      ['test_<delete>', 'skipped', 16]
+    ]);
+    assert.strictEqual(tests[0].durationMs, 12);
+    assert.strictEqual(tests[1].suite, 'tests.test_api');
+    assert.match(tests[1].failureMessage ?? '', /^assert 404 == 200\ndef test_post/);
+  });
+
+  test('should parse jest JSON reports', () => {
+    const report = JSON.stringify({
+      testResults: [
+        {
+          name: '/work/app/src/sum.test.js',
+          status: 'failed',
+          assertionResults: [
+            { title: 'adds', ancestorTitles: ['sum'], status: 'passed', duration: 3, location: { line: 3, column: 3 }, failureMessages: [] },
+            { title: 'overflows', ancestorTitles: ['sum', 'limits'], status: 'failed', location: { line: 8, column: 5 }, failureMessages: ['\u001b[31mExpected 1\u001b[39m'] },
+            { title: 'later', ancestorTitles: [], status: 'todo', failureMessages: [] }
+          ]
+        },
+        { name: '/work/app/src/broken.test.js', status: 'failed', message: 'SyntaxError: Unexpected token (2:4)', assertionResults: [] }
+      ]
+    });
+
+    const tests = parseTestReport('jest_json', report);
+    assert.deepStrictEqual(tests.map(t => [t.suite, t.name, t.status, t.line]), [
+      ['sum', 'adds', 'passed', 3],
+      ['sum limits', 'overflows', 'failed', 8],
+      [undefined, 'later', 'skipped', undefined],
+      [undefined, '/work/app/src/broken.test.js', 'failed', undefined]
+    ]);
+    assert.strictEqual(tests[1].failureMessage, 'Expected 1');
+    assert.match(tests[3].failureMessage ?? '', /SyntaxError/);
+  });
+
+  test('should parse cargo test output with panic locations', () => {
+    const output = [
+      'running 3 tests',
+      'test parser::tests::reads_numbers ... ok',
+      'test parser::tests::reads_strings ... FAILED',
+      'test slow ... ignored',
+      '',
+      'failures:',
+      '',
+      '---- parser::tests::reads_strings stdout ----',
+      'thread \'parser::tests::reads_strings\' panicked at src/parser.rs:42:9:',
+      'assertion `left == right` failed',
+      '',
+      'failures:',
+      '    parser::tests::reads_strings',
+      '',
+      'test result: FAILED. 1 passed; 1 failed; 1 ignored'
+    ].join('\n');
+
+    const tests = parseTestReport('libtest', output);
+    assert.deepStrictEqual(tests.map(t => [t.suite, t.name, t.status]), [
+      ['parser::tests', 'reads_numbers', 'passed'],
+      ['parser::tests', 'reads_strings', 'failed'],
+      [undefined, 'slow', 'skipped']
+    ]);
+    assert.strictEqual(tests[1].file, 'src/parser.rs');
+    assert.strictEqual(tests[1].line, 42);
+    assert.match(tests[1].failureMessage ?? '', /assertion `left == right` failed/);
+  });
+
+  test('should skip dependency and runtime frames when locating failures', () => {
+    const stack = [
+      'Error: boom',
+      '    at fail (/work/app/node_modules/chai/lib/assert.js:10:5)',
+      '    at run (node:internal/process/task_queues:95:5)',
+      '    at Context.<anonymous> (/work/app/test/app.test.js:21:7)'
+    ].join('\n');
+
+    assert.deepStrictEqual(extractFailureLocation(stack), { file: '/work/app/test/app.test.js', line: 21 });
+    assert.strictEqual(extractFailureLocation('no location here'), undefined);
+  });
+
+  test('should detect test runners from the project', () => {
+    assert.strictEqual(detectTestRunner(project('npm'), { devDependencies: { jest: '^29.0.0' } }), 'jest');
+    assert.strictEqual(detectTestRunner(project('npm'), { scripts: { test: 'mocha --recursive' } }), 'mocha');
+    assert.strictEqual(detectTestRunner(project('npm'), { scripts: { test: 'node --test' } }), 'npm');
+    assert.strictEqual(detectTestRunner(project('python')), 'pytest');
+    assert.strictEqual(detectTestRunner(project('rust')), 'cargo');
+    assert.strictEqual(detectTestRunner(project('java', ['pom.xml'])), 'maven');
+    assert.strictEqual(detectTestRunner(project('java', ['build.gradle'])), 'gradle');
+    assert.strictEqual(detectTestRunner(project('unknown')), undefined);
+  });
+
+  test('should plan runs with machine-readable reporters and reject unsafe arguments', () => {
+    const jest = planTestRun('jest', '/work/app', '/tmp/report', { files: ['src/sum.test.js'], grep: 'adds' });
+    assert.strictEqual(jest.format, 'jest_json');
+    assert.deepStrictEqual(jest.report, { kind: 'file', path: '/tmp/report/jest.json' });
+    assert.ok(jest.spec.args.includes('--testNamePattern'));
+    assert.strictEqual(jest.spec.args[jest.spec.args.length - 1], 'src/sum.test.js');
+    assert.strictEqual(jest.spec.cwd, '/work/app');
+
+    const pytest = planTestRun('pytest', '/work/app', '/tmp/report');
+    assert.strictEqual(pytest.format, 'junit');
+    assert.deepStrictEqual(pytest.parseOptions, { zeroBasedLines: true });
+
+    const maven = planTestRun('maven', '/work/app', '/tmp/report');
+    assert.deepStrictEqual(maven.report, { kind: 'directory', path: '/work/app/target/surefire-reports' });
+
+    assert.throws(() => planTestRun('cargo', '/work/app', '/tmp/report', { files: ['src/lib.rs'] }), /cannot run individual files/);
+    assert.throws(() => planTestRun('npm', '/work/app', '/tmp/report', { grep: 'adds' }), /cannot filter/);
+    assert.throws(() => validateTestRunRequest({ files: ['--config=evil.js'] }), /files/);
+    assert.throws(() => validateTestRunRequest({ grep: '--exec' }), /grep/);
+    assert.throws(() => validateTestRunRequest({ runner: 'make' as any }), /runner/);
+  });
+
+  test('should only run test files inside the project', () => {
+    const mocha = planTestRun('mocha', '/work/app', '/tmp/report', { files: ['./test/a.test.js', 'test/../test/b.test.js'] });
+    assert.deepStrictEqual(mocha.spec.args.slice(-2), ['test/a.test.js', 'test/b.test.js']);
+
+    assert.throws(() => planTestRun('mocha', '/work/app', '/tmp/report', { files: ['../other/a.test.js'] }), /outside the project/);
+    assert.throws(() => planTestRun('jest', '/work/app', '/tmp/report', { files: ['/etc/passwd'] }), /outside the project/);
+    assert.throws(() => planTestRun('pytest', '/work/app', '/tmp/report', { files: ['.'] }), /outside the project/);
+  });
+
+  test('should refuse arguments cmd.exe would interpret when running through the Windows shell', () => {
+    const jest = planTestRun('jest', '/work/app', '/tmp/My Reports', { grep: 'adds numbers' }, 'win32');
+    assert.strictEqual(jest.spec.shell, true);
+    assert.ok(jest.spec.args.includes('"adds numbers"'));
+    assert.ok(jest.spec.args.includes('"--outputFile=/tmp/My Reports/jest.json"'));
+
+    for (const grep of ['a" & calc & "', 'a|b', 'x > out.txt', '%PATH%', 'a^b', 'hi!']) {
+      assert.throws(() => planTestRun('mocha', '/work/app', '/tmp/report', { grep }, 'win32'), /Windows shell/, grep);
+    }
+    assert.throws(() => planTestRun('jest', '/work/app', '/tmp/report', { files: ['a&calc.test.js'] }, 'win32'), /Windows shell/);
+
+    // Started without a shell, where nothing is interpreted
+    assert.deepStrictEqual(planTestRun('pytest', '/work/app', '/tmp/report', { grep: 'a" & calc' }, 'win32').spec.shell, false);
+    assert.ok(planTestRun('mocha', '/work/app', '/tmp/report', { grep: 'add|sum' }, 'linux').spec.args.includes('add|sum'));
+  });
+});
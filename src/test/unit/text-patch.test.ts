@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { applyReplacements, parseUnifiedDiff, planPatch } from '../../bridge/textPatch';
+
+suite('Text Patch', () => {
+  const original = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', ''].join('\n');
+
+  test('should apply unified diff hunks and report each one', () => {
+    const diff = [
+      '--- a/numbers.txt',
+      '+++ b/numbers.txt',
+      '@@ -1,3 +1,3 @@',
+      ' one',
+      '-two',
+      '+TWO',
+      ' three',
+      '@@ -7,2 +7,3 @@',
+      ' seven',
+      '+seven and a half',
+      ' eight',
+      ''
+    ].join('\n');
+
+    const plan = planPatch(original, { diff });
+
+    assert.ok(plan.applied);
+    assert.deepStrictEqual(plan.results.map(result => [result.applied, result.line, result.offset]), [[true, 0, 0], [true, 6, 0]]);
+    assert.strictEqual(
+      applyReplacements(original, plan.replacements),
+      ['one', 'TWO', 'three', 'four', 'five', 'six', 'seven', 'seven and a half', 'eight', ''].join('\n')
+    );
+  });
+
+  test('should find hunks that moved and keep CRLF line endings', () => {
+    const text = ['added', 'above', ...original.split('\n')].join('\r\n');
+    const diff = '@@ -4,1 +4,1 @@\n-four\n+FOUR\n';
+
+    const plan = planPatch(text, { diff });
+
+    assert.ok(plan.applied);
+    assert.strictEqual(plan.results[0].offset, 2);
+    assert.strictEqual(applyReplacements(text, plan.replacements), text.replace('four', 'FOUR'));
+  });
+
+  test('should apply nothing when any hunk does not match', () => {
+    const diff = '@@ -1,1 +1,1 @@\n-one\n+ONE\n@@ -5,1 +5,1 @@\n-FIVE\n+5\n';
+
+    const plan = planPatch(original, { diff });
+
+    assert.strictEqual(plan.applied, false);
+    assert.deepStrictEqual(plan.replacements, []);
+    assert.deepStrictEqual(plan.results.map(result => result.applied), [true, false]);
+    assert.match(plan.results[1].error!, /Hunk 2 does not match the document near line 5/);
+  });
+
+  test('should apply range edits and reject stale or overlapping ones', () => {
+    const edits = [
+      { range: { start: { line: 2, character: 0 }, end: { line: 2, character: 5 } }, text: 'THREE', expectedText: 'three' },
+      { range: { start: { line: 0, character: 3 }, end: { line: 0, character: 3 } }, text: '!' }
+    ];
+    const plan = planPatch(original, { edits });
+    assert.ok(plan.applied);
+    assert.ok(applyReplacements(original, plan.replacements).startsWith('one!\ntwo\nTHREE\n'));
+
+    const stale = planPatch(original, { edits: [{ ...edits[0], expectedText: 'tree' }] });
+    assert.match(stale.results[0].error!, /no longer contains the expected text/);
+
+    const overlapping = planPatch(original, {
+      edits: [edits[0], { range: { start: { line: 2, character: 2 }, end: { line: 3, character: 0 } }, text: '' }]
+    });
+    assert.strictEqual(overlapping.applied, false);
+    assert.match(overlapping.results[1].error!, /overlaps edit 1/);
+  });
+
+  test('should reject malformed diffs and requests', () => {
+    assert.throws(() => parseUnifiedDiff('just text'), /no hunks/);
+    assert.throws(() => parseUnifiedDiff('@@ -1,2 +1,2 @@\n-one\n+ONE\n'), /line counts/);
+    assert.throws(() => parseUnifiedDiff('+++ b/a\n@@ -1 +1 @@\n-a\n+b\n+++ b/c\n'), /more than one file/);
+    assert.throws(() => planPatch(original, {}), /either a unified diff or a list of range edits/);
+  });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+import * as https from 'https';
+import WebSocket from 'ws';
+import { AddressInfo } from 'net';
+import { TUIClient } from '../../tui/TUIClient';
+import {
+  generateSelfSignedCertificate,
+  loadOrCreateBridgeCertificate,
+  normalizeFingerprint
+} from '../../bridge/tlsCertificate';
+
+suite('TLS Certificate', () => {
+  const certificate = generateSelfSignedCertificate({
+    commonName: 'Automatus Test',
+    hostnames: ['localhost', '127.0.0.1', '::1'],
+    validDays: 30
+  });
+
+  test('should produce a valid self-signed certificate', () => {
+    const x509 = new crypto.X509Certificate(certificate.cert);
+
+    assert.ok(x509.subject.includes('CN=Automatus Test'), x509.subject);
+    assert.strictEqual(x509.issuer, x509.subject);
+    assert.ok(x509.verify(x509.publicKey), 'signature verifies with its own key');
+    assert.strictEqual(x509.checkHost('localhost'), 'localhost');
+    assert.strictEqual(x509.checkIP('127.0.0.1'), '127.0.0.1');
+    assert.strictEqual(x509.checkIP('::1'), '::1');
+    assert.ok(x509.checkPrivateKey(crypto.createPrivateKey(certificate.key)));
+    assert.strictEqual(x509.fingerprint256, certificate.fingerprint);
+  });
+
+  test('should serve TLS with the fingerprint clients pin', async () => {
+    const server = tls.createServer({ cert: certificate.cert, key: certificate.key }, socket => socket.end('ok'));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const fingerprint = await new Promise<string>((resolve, reject) => {
+        const socket = tls.connect({ port, host: '127.0.0.1', rejectUnauthorized: false }, () => {
+          resolve(socket.getPeerCertificate().fingerprint256);
+          socket.end();
+        });
+        socket.on('error', reject);
+      });
+      assert.strictEqual(fingerprint, certificate.fingerprint);
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  test('should let TUIClient pin the bridge certificate by fingerprint', async () => {
+    const server = https.createServer({ cert: certificate.cert, key: certificate.key });
+    const wss = new WebSocket.Server({ server });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    const createClient = (tlsFingerprint: string) => {
+      const client = new TUIClient({
+        bridgeUrl: `wss://127.0.0.1:${port}`,
+        tlsFingerprint,
+        authToken: 'token',
+        reconnectAttempts: 0,
+        reconnectDelay: 0,
+        heartbeatInterval: 60000
+      });
+      client.on('error', () => {});
+      return client;
+    };
+
+    try {
+      await assert.rejects(createClient('00:11:22').connect(), /fingerprint mismatch/);
+
+      const pinned = createClient(certificate.fingerprint.toLowerCase());
+      const connected = new Promise<void>(resolve => pinned.on('connected', () => resolve()));
+      pinned.connect().catch(() => {}); // The test server never answers the handshake
+      await connected;
+      pinned.disconnect();
+    } finally {
+      wss.close();
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+
+  test('should persist and reuse the bridge certificate', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'automatus-tls-'));
+    try {
+      const created = loadOrCreateBridgeCertificate(directory);
+      const loaded = loadOrCreateBridgeCertificate(directory);
+
+      assert.strictEqual(created.created, true);
+      assert.strictEqual(loaded.created, false);
+      assert.strictEqual(loaded.fingerprint, created.fingerprint);
+      if (process.platform !== 'win32') {
+        assert.strictEqual(fs.statSync(path.join(directory, 'bridge-tls-key.pem')).mode & 0o777, 0o600);
+      }
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('should normalize fingerprint notations', () => {
+    const expected = 'AB:CD:01';
+    assert.strictEqual(normalizeFingerprint('ab:cd:01'), expected);
+    assert.strictEqual(normalizeFingerprint('ABCD01'), expected);
+    assert.strictEqual(normalizeFingerprint('sha256/ab cd 01'), expected);
+  });
+});
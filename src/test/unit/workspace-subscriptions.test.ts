@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { WorkspaceSubscriptionRegistry } from '../../bridge/WorkspaceSubscriptionRegistry';
+import { matchesGlob } from '../../utils/globMatcher';
+
+suite('Workspace Subscriptions', () => {
+  let registry: WorkspaceSubscriptionRegistry;
+
+  setup(() => {
+    registry = new WorkspaceSubscriptionRegistry(3);
+  });
+
+  test('should deliver everything to connections that never subscribed', () => {
+    assert.strictEqual(registry.match('conn-1', { type: 'file_change', paths: ['src/a.ts'] }), null);
+  });
+
+  test('should filter by event type, path glob and language', () => {
+    const subscription = registry.subscribe('conn-1', {
+      eventTypes: ['file_change'],
+      paths: ['src/**/*.ts'],
+      languages: ['typescript']
+    });
+
+    assert.deepStrictEqual(
+      registry.match('conn-1', { type: 'file_change', paths: ['/ws/src/a.ts', 'src/a.ts'], languageId: 'typescript' }),
+      [subscription.id]
+    );
+    assert.deepStrictEqual(registry.match('conn-1', { type: 'git_change', paths: ['src/a.ts'] }), []);
+    assert.deepStrictEqual(registry.match('conn-1', { type: 'file_change', paths: ['docs/a.ts'], languageId: 'typescript' }), []);
+    assert.deepStrictEqual(registry.match('conn-1', { type: 'file_change', paths: ['src/a.ts'], languageId: 'javascript' }), []);
+    assert.deepStrictEqual(registry.match('conn-1', { type: 'file_change', paths: ['src/a.ts'] }), []);
+  });
+
+  test('should keep filtering after every subscription is removed', () => {
+    const subscription = registry.subscribe('conn-1', { eventTypes: ['file_change'] });
+
+    assert.deepStrictEqual(registry.unsubscribe('conn-1'), [subscription.id]);
+    assert.deepStrictEqual(registry.match('conn-1', { type: 'file_change', paths: [] }), []);
+
+    registry.removeConnection('conn-1');
+    assert.strictEqual(registry.match('conn-1', { type: 'file_change', paths: [] }), null);
+  });
+
+  test('should replace a subscription reusing its id', () => {
+    registry.subscribe('conn-1', { subscriptionId: 'dash', eventTypes: ['file_change'] });
+    registry.subscribe('conn-1', { subscriptionId: 'dash', eventTypes: ['git_change'] });
+
+    assert.strictEqual(registry.getSubscriptions('conn-1').length, 1);
+    assert.deepStrictEqual(registry.match('conn-1', { type: 'git_change', paths: [] }), ['dash']);
+  });
+
+  test('should reject invalid filters and enforce the per-connection limit', () => {
+    assert.throws(() => registry.subscribe('conn-1', { eventTypes: ['keystroke' as any] }), /Unknown event types: keystroke/);
+    assert.throws(() => registry.subscribe('conn-1', { paths: [''] }), /non-empty glob/);
+
+    registry.subscribe('conn-1', {});
+    registry.subscribe('conn-1', {});
+    registry.subscribe('conn-1', {});
+    assert.throws(() => registry.subscribe('conn-1', {}), /Subscription limit reached/);
+  });
+
+  suite('Glob matching', () => {
+    test('should support **, * and ? wildcards', () => {
+      assert.ok(matchesGlob('src/bridge/types.ts', 'src/**/*.ts'));
+      assert.ok(matchesGlob('src/types.ts', 'src/**/*.ts'));
+      assert.ok(!matchesGlob('src/bridge/types.ts', 'src/*.ts'));
+      assert.ok(matchesGlob('a1.md', 'a?.md'));
+    });
+
+    test('should support brace alternatives and Windows separators', () => {
+      assert.ok(matchesGlob('C:\\ws\\src\\index.tsx', '**/*.{ts,tsx}'));
+      assert.ok(!matchesGlob('src/index.js', '**/*.{ts,tsx}'));
+    });
+  });
+});
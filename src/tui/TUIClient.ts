@@ -1,19 +1,42 @@
+import * as net from 'net';
+import * as tls from 'tls';
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
-import { TUICommand, VSCodeResponse, BridgeMessage } from '../bridge/types';
+import { TUICommand, VSCodeResponse, BridgeMessage, BridgeError, BridgeErrorCode, HandshakeMessage, CommandProgressMessage, UIEventMessage } from '../bridge/types';
+import { SUPPORTED_PROTOCOL_VERSIONS, SUPPORTED_FEATURES, NegotiatedProtocol } from '../bridge/protocolAdapter';
+import { normalizeFingerprint } from '../bridge/tlsCertificate';
+import { FileChunk, FileTransferInfo, createChunk, decodeChunk, sha256 } from '../bridge/FileTransferRegistry';
 
 export interface TUIConnectionConfig {
   bridgeUrl: string;
+  socketPath?: string; // Connects over the bridge's ipc transport instead of bridgeUrl
+  tlsFingerprint?: string; // SHA-256 fingerprint a wss:// bridge certificate must match
   authToken: string;
   reconnectAttempts: number;
   reconnectDelay: number;
   heartbeatInterval: number;
+  protocolVersions?: string[]; // Defaults to every version this build supports
+  features?: string[]; // Defaults to every optional feature this build supports
+  resumeTimeout?: number; // How long a chunked transfer waits for a reconnect, default 60s
 }
 
+// Rejection for an ERROR reply from the bridge, keeping its code and details
+export class BridgeRequestError extends Error {
+  constructor(readonly code: BridgeErrorCode, message: string, readonly details?: string | object) {
+    super(`${code}: ${message}`);
+    this.name = 'BridgeRequestError';
+  }
+}
+
+// Wait before retrying a rate-limited transfer step when the bridge gives no hint
+const DEFAULT_RATE_LIMIT_BACKOFF_MS = 1000;
+
 export interface TUIClientEvents {
   'connected': () => void;
   'disconnected': (reason: string) => void;
   'message': (response: VSCodeResponse) => void;
+  'progress': (progress: CommandProgressMessage['payload']) => void;
+  'uiEvent': (event: UIEventMessage['payload']) => void;
   'error': (error: Error) => void;
   'authenticated': () => void;
   'authFailed': (reason: string) => void;
@@ -33,8 +56,10 @@ export class TUIClient extends EventEmitter {
   private isAuthenticated = false;
   private reconnectAttempt = 0;
   private messageId = 0;
+  private sessionId = 'tui-session';
+  private negotiated: NegotiatedProtocol | null = null;
   private pendingCommands = new Map<string, {
-    resolve: (response: VSCodeResponse) => void;
+    resolve: (message: BridgeMessage) => void;
     reject: (error: Error) => void;
     timeout: NodeJS.Timeout;
   }>();
@@ -51,7 +76,7 @@ export class TUIClient extends EventEmitter {
 
     return new Promise((resolve, reject) => {
       try {
-        this.socket = new WebSocket(this.config.bridgeUrl);
+        this.socket = this.createSocket();
 
         const connectionTimeout = setTimeout(() => {
           if (this.socket) {
@@ -60,12 +85,23 @@ export class TUIClient extends EventEmitter {
           reject(new Error('Connection timeout'));
         }, 10000);
 
+        // Pinning replaces CA validation; nothing secret is sent before the upgrade completes
+        this.socket.on('upgrade', (response) => {
+          const error = this.checkPinnedCertificate(response.socket as tls.TLSSocket);
+          if (error) {
+            clearTimeout(connectionTimeout);
+            reject(error);
+            this.socket?.terminate();
+          }
+        });
+
         this.socket.on('open', () => {
           clearTimeout(connectionTimeout);
           this.isConnected = true;
           this.reconnectAttempt = 0;
           this.emit('connected');
-          this.authenticate()
+          this.negotiateProtocol()
+            .then(() => this.authenticate())
             .then(() => resolve())
             .catch(reject);
         });
@@ -94,55 +130,107 @@ export class TUIClient extends EventEmitter {
     });
   }
 
-  private async authenticate(): Promise<void> {
-    if (!this.isConnected || !this.socket) {
-      throw new Error('Not connected to bridge');
+  private createSocket(): WebSocket {
+    const socketPath = this.config.socketPath;
+    if (!socketPath) {
+      // The bridge certificate is self-signed, so a pinned fingerprint stands in for the CA check
+      return new WebSocket(this.config.bridgeUrl, this.config.tlsFingerprint ? { rejectUnauthorized: false } : {});
     }
+    // The host is only used for the upgrade request; the bytes go over the socket
+    return new WebSocket('ws://localhost/', {
+      createConnection: () => net.createConnection(socketPath)
+    });
+  }
 
-    return new Promise((resolve, reject) => {
-      // Send authentication request command as expected by TUIVSCodeBridge
-      const authCommand: TUICommand = {
-        id: this.generateMessageId(),
-        type: 'COMMAND_EXECUTE',
-        timestamp: new Date().toISOString(),
-        source: 'TUI',
-        sessionId: 'tui-auth-session',
-        payload: {
-          command: 'auth_request',
-          args: {
-            token: this.config.authToken
-          },
-          safetyLevel: 'read_only'
-        }
-      };
+  private checkPinnedCertificate(socket: tls.TLSSocket): Error | null {
+    if (!this.config.tlsFingerprint || this.config.socketPath) {
+      return null;
+    }
+    if (typeof socket.getPeerCertificate !== 'function') {
+      return new Error('Certificate pinning requires a wss:// bridge URL');
+    }
 
-      const timeout = setTimeout(() => {
-        this.emit('authFailed', 'Authentication timeout');
-        reject(new Error('Authentication timeout'));
-      }, 5000);
+    const actual = socket.getPeerCertificate().fingerprint256 || '';
+    if (normalizeFingerprint(actual) !== normalizeFingerprint(this.config.tlsFingerprint)) {
+      return new Error(`Bridge certificate fingerprint mismatch (got ${actual || 'none'})`);
+    }
+    return null;
+  }
 
-      // Listen for auth response
-      const authHandler = (response: VSCodeResponse) => {
-        clearTimeout(timeout);
-        if (response.payload.success) {
-          this.isAuthenticated = true;
-          this.startHeartbeat();
-          this.emit('authenticated');
-          resolve();
-        } else {
-          this.emit('authFailed', response.payload.error || 'Authentication failed');
-          reject(new Error(response.payload.error || 'Authentication failed'));
+  private async negotiateProtocol(): Promise<void> {
+    const handshake: HandshakeMessage = {
+      id: this.generateMessageId(),
+      type: 'HANDSHAKE',
+      timestamp: new Date().toISOString(),
+      source: 'TUI',
+      sessionId: this.sessionId,
+      payload: {
+        version: SUPPORTED_PROTOCOL_VERSIONS[SUPPORTED_PROTOCOL_VERSIONS.length - 1],
+        supportedVersions: this.config.protocolVersions || [...SUPPORTED_PROTOCOL_VERSIONS],
+        features: this.config.features || [...SUPPORTED_FEATURES],
+        capabilities: [],
+        safetyPhase: 1,
+        clientInfo: {
+          name: 'automatus-tui-client',
+          version: '0.1.0',
+          platform: process.platform
         }
-      };
+      }
+    };
 
-      // Temporarily listen for the auth response
-      this.once('message', authHandler);
+    // Rejects with an UNSUPPORTED_VERSION error when the bridge shares no version with us
+    const reply = await this.sendAndAwait(handshake, 5000, 'Handshake timeout') as HandshakeMessage;
+    this.negotiated = {
+      version: reply.payload.version,
+      features: (reply.payload.features || []) as NegotiatedProtocol['features']
+    };
+  }
 
-      this.socket!.send(JSON.stringify(authCommand));
-    });
+  private async authenticate(): Promise<void> {
+    if (!this.isConnected || !this.socket) {
+      throw new Error('Not connected to bridge');
+    }
+
+    // Send authentication request command as expected by TUIVSCodeBridge
+    const authCommand: TUICommand = {
+      id: this.generateMessageId(),
+      type: 'COMMAND_EXECUTE',
+      timestamp: new Date().toISOString(),
+      source: 'TUI',
+      sessionId: 'tui-auth-session',
+      payload: {
+        command: 'auth_request',
+        args: {
+          token: this.config.authToken
+        },
+        safetyLevel: 'read_only'
+      }
+    };
+
+    try {
+      const response = await this.sendAndAwait(authCommand, 5000, 'Authentication timeout') as VSCodeResponse;
+      const result = response.payload.result as { sessionId?: string } | null;
+      if (result?.sessionId) {
+        this.sessionId = result.sessionId;
+      }
+      this.isAuthenticated = true;
+      this.startHeartbeat();
+      this.emit('authenticated');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Authentication failed';
+      this.emit('authFailed', reason);
+      throw error;
+    }
   }
 
-  async sendCommand(command: { command: string; args: any; safetyLevel: 'read_only' | 'controlled_write' | 'expanded_access' }): Promise<VSCodeResponse> {
+  /**
+   * Sends a command and waits for its response. Aborting the signal asks the bridge to
+   * cancel the command; the pending promise then settles with the bridge's reply.
+   */
+  async sendCommand(
+    command: { command: string; args: any; safetyLevel: 'read_only' | 'controlled_write' | 'expanded_access' },
+    signal?: AbortSignal
+  ): Promise<VSCodeResponse> {
     if (!this.isAuthenticated) {
       throw new Error('Not authenticated with bridge');
     }
@@ -156,23 +244,164 @@ export class TUIClient extends EventEmitter {
       type: 'COMMAND_EXECUTE',
       timestamp: new Date().toISOString(),
       source: 'TUI',
-      sessionId: 'tui-session',
+      sessionId: this.sessionId,
       payload: command
     };
 
+    const onAbort = () => {
+      this.cancelCommand(fullCommand.id).catch(error => this.emit('error', error));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await this.sendAndAwait(fullCommand, 30000, 'Command timeout') as VSCodeResponse; // 30 second timeout
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Asks the bridge to abort an in-flight command sent on this connection
+  async cancelCommand(commandId: string): Promise<VSCodeResponse> {
+    return this.sendCommand({
+      command: 'cancel',
+      args: { commandId },
+      safetyLevel: 'read_only'
+    });
+  }
+
+  /**
+   * Reads a file of any size in checksummed chunks. A dropped connection pauses the
+   * transfer until the client has reconnected, then it continues with the next chunk.
+   */
+  async readFile(path: string, chunkSize?: number): Promise<string> {
+    const info = await this.withResume(() => this.sendTransferCommand<FileTransferInfo>({ action: 'start_read', path, chunkSize }));
+    const chunks: Buffer[] = [];
+
+    try {
+      while (chunks.length < info.totalChunks) {
+        const index = chunks.length;
+        const chunk = await this.withResume(() => this.sendTransferCommand<FileChunk>({
+          action: 'read_chunk',
+          transferId: info.transferId,
+          index
+        }));
+        chunks.push(decodeChunk(chunk, info.chunkSize, info.totalBytes));
+      }
+    } catch (error) {
+      this.abortTransfer(info.transferId);
+      throw error;
+    }
+
+    const content = Buffer.concat(chunks);
+    if (sha256(content) !== info.checksum) {
+      throw new Error(`Checksum mismatch reading ${path}`);
+    }
+    return content.toString('utf8');
+  }
+
+  /**
+   * Uploads content in checksummed chunks and applies it once complete. After a reconnect
+   * the bridge reports which chunks are still missing and only those are sent again.
+   */
+  async writeFile(path: string, content: string, operation: 'create' | 'modify' = 'modify', chunkSize?: number): Promise<VSCodeResponse> {
+    const bytes = Buffer.from(content, 'utf8');
+    const info = await this.withResume(() => this.sendTransferCommand<FileTransferInfo>({
+      action: 'start_write',
+      path,
+      operation,
+      totalBytes: bytes.length,
+      checksum: sha256(bytes),
+      chunkSize
+    }));
+
+    try {
+      let missing = info.missingChunks ?? [];
+      while (missing.length > 0) {
+        for (const index of missing) {
+          const chunk = createChunk(info.transferId, bytes, index, info.chunkSize);
+          await this.withResume(() => this.sendTransferCommand({ action: 'write_chunk', ...chunk }));
+        }
+        const status = await this.withResume(() => this.sendTransferCommand<FileTransferInfo>({ action: 'status', transferId: info.transferId }));
+        missing = status.missingChunks ?? [];
+      }
+
+      return await this.withResume(() => this.sendCommand({
+        command: 'file_transfer',
+        args: { action: 'commit', transferId: info.transferId },
+        safetyLevel: 'controlled_write'
+      }));
+    } catch (error) {
+      this.abortTransfer(info.transferId);
+      throw error;
+    }
+  }
+
+  private async sendTransferCommand<T>(args: object): Promise<T> {
+    const response = await this.sendCommand({ command: 'file_transfer', args, safetyLevel: 'read_only' });
+    return response.payload.result as T;
+  }
+
+  // Best effort; the bridge also drops idle transfers on its own
+  private abortTransfer(transferId: string): void {
+    if (this.isConnectionActive()) {
+      this.sendTransferCommand({ action: 'abort', transferId }).catch(() => {});
+    }
+  }
+
+  /**
+   * Retries a step of a chunked transfer once the client has reconnected after losing its connection,
+   * or once the bridge's rate limit window has passed.
+   */
+  private async withResume<T>(step: () => Promise<T>): Promise<T> {
+    for (;;) {
+      try {
+        return await step();
+      } catch (error) {
+        if (error instanceof BridgeRequestError && error.code === 'RATE_LIMITED') {
+          const retryAfterMs = (error.details as { retryAfterMs?: number } | undefined)?.retryAfterMs;
+          await new Promise(resolve => setTimeout(resolve, retryAfterMs ?? DEFAULT_RATE_LIMIT_BACKOFF_MS));
+          continue;
+        }
+        if (this.isConnectionActive() || this.config.reconnectAttempts === 0) {
+          throw error;
+        }
+        await this.waitForReauthentication(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  private waitForReauthentication(cause: Error): Promise<void> {
+    if (this.isConnectionActive()) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.off('authenticated', onAuthenticated);
+        reject(cause);
+      }, this.config.resumeTimeout ?? 60000);
+      const onAuthenticated = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      this.once('authenticated', onAuthenticated);
+    });
+  }
+
+  private sendAndAwait(message: BridgeMessage, timeoutMs: number, timeoutMessage: string): Promise<BridgeMessage> {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
-        this.pendingCommands.delete(fullCommand.id);
-        reject(new Error('Command timeout'));
-      }, 30000); // 30 second timeout
+        this.pendingCommands.delete(message.id);
+        reject(new Error(timeoutMessage));
+      }, timeoutMs);
 
-      this.pendingCommands.set(fullCommand.id, {
+      this.pendingCommands.set(message.id, {
         resolve,
         reject,
         timeout
       });
 
-      this.socket!.send(JSON.stringify(fullCommand));
+      this.socket!.send(JSON.stringify(message));
     });
   }
 
@@ -186,6 +415,37 @@ export class TUIClient extends EventEmitter {
         return;
       }
 
+      // The bridge greets every new socket with an auth challenge; authenticate() answers it
+      if (message.type === 'auth_challenge') {
+        return;
+      }
+
+      // Partial output for a command that is still pending; its response arrives later
+      if (message.type === 'COMMAND_PROGRESS') {
+        this.emit('progress', (message as CommandProgressMessage).payload);
+        return;
+      }
+
+      // Button clicks, replies and closes in panels this client spawned
+      if (message.type === 'UI_EVENT') {
+        this.emit('uiEvent', (message as UIEventMessage).payload);
+        return;
+      }
+
+      if (message.type === 'ERROR') {
+        const bridgeError = message as BridgeError;
+        const pending = this.pendingCommands.get(bridgeError.id);
+        const error = new BridgeRequestError(bridgeError.payload.code, bridgeError.payload.message, bridgeError.payload.details);
+        if (pending) {
+          clearTimeout(pending.timeout);
+          this.pendingCommands.delete(bridgeError.id);
+          pending.reject(error);
+        } else {
+          this.emit('error', error);
+        }
+        return;
+      }
+
       const response = message as VSCodeResponse;
 
       // Handle pending command responses
@@ -194,7 +454,7 @@ export class TUIClient extends EventEmitter {
         clearTimeout(pending.timeout);
         this.pendingCommands.delete(response.id);
 
-        if (response.payload.success) {
+        if (response.type !== 'COMMAND_RESPONSE' || response.payload.success) {
           pending.resolve(response);
         } else {
           pending.reject(new Error(response.payload.error || 'Command failed'));
@@ -213,6 +473,7 @@ export class TUIClient extends EventEmitter {
   private handleDisconnect(reason: string): void {
     this.isConnected = false;
     this.isAuthenticated = false;
+    this.negotiated = null;
 
     if (this.heartbeatTimer) {
       clearInterval(this.heartbeatTimer);
@@ -260,7 +521,7 @@ export class TUIClient extends EventEmitter {
           type: 'HEARTBEAT',
           timestamp: new Date().toISOString(),
           source: 'TUI',
-          sessionId: 'tui-heartbeat'
+          sessionId: this.sessionId
         };
         this.socket.send(JSON.stringify(heartbeat));
       }
@@ -294,6 +555,7 @@ export class TUIClient extends EventEmitter {
 
     this.isConnected = false;
     this.isAuthenticated = false;
+    this.negotiated = null;
   }
 
   isConnectionActive(): boolean {
@@ -305,7 +567,9 @@ export class TUIClient extends EventEmitter {
       connected: this.isConnected,
       authenticated: this.isAuthenticated,
       reconnectAttempt: this.reconnectAttempt,
-      pendingCommands: this.pendingCommands.size
+      pendingCommands: this.pendingCommands.size,
+      protocolVersion: this.negotiated?.version || null,
+      features: this.negotiated?.features || []
     };
   }
 }
\ No newline at end of file
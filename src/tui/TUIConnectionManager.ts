@@ -12,15 +12,18 @@ export class TUIConnectionManager {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private bridgeTokenGenerator?: () => Promise<string>;
+  private bridgeFingerprintProvider?: () => string | undefined;
 
   constructor(
     configManager: ConfigurationManager,
     safetyGuard: SafetyGuard,
-    bridgeTokenGenerator?: () => Promise<string>
+    bridgeTokenGenerator?: () => Promise<string>,
+    bridgeFingerprintProvider?: () => string | undefined
   ) {
     this.configManager = configManager;
     this.safetyGuard = safetyGuard;
     this.bridgeTokenGenerator = bridgeTokenGenerator;
+    this.bridgeFingerprintProvider = bridgeFingerprintProvider;
 
     // Create status bar item for TUI connection status
     this.statusBarItem = vscode.window.createStatusBarItem(
@@ -55,6 +58,8 @@ export class TUIConnectionManager {
 
       this.safetyGuard.logOperation('tui_connection_established', {
         bridgeUrl: config.bridgeUrl,
+        socketPath: config.socketPath,
+        tlsFingerprint: config.tlsFingerprint,
         reconnectAttempts: this.reconnectAttempts
       });
 
@@ -65,9 +70,13 @@ export class TUIConnectionManager {
 
   private async getConnectionConfig(authToken?: string): Promise<TUIConnectionConfig> {
     const config = this.configManager.getConfiguration();
+    const useIpc = config.bridgeTransport === 'ipc';
+    const useTls = !useIpc && config.bridgeTls === true;
 
     return {
-      bridgeUrl: `ws://localhost:${config.bridgePort || 19888}`,
+      bridgeUrl: `${useTls ? 'wss' : 'ws'}://127.0.0.1:${config.bridgePort || 19888}`,
+      socketPath: useIpc ? this.configManager.getBridgeSocketPath() : undefined,
+      tlsFingerprint: useTls ? this.bridgeFingerprintProvider?.() : undefined,
       authToken: authToken || await this.generateTUIToken(),
       reconnectAttempts: 3,
       reconnectDelay: 2000, // 2 seconds
@@ -29,12 +29,18 @@ export interface SafeAutomatusRequest {
   capability?: 'coding_agent' | 'data_analysis_agent' | 'security_watcher';
 }
 
+export interface AutomatusRequestOptions {
+  onChunk?: (text: string) => void; // Enables streaming; once a token has arrived, failures reject instead of falling back offline
+  signal?: AbortSignal; // Aborts the request; the call then rejects instead of falling back offline
+}
+
 export interface AnalysisResult {
   summary: string;
   issues: CodeIssue[];
   suggestions: string[];
   complexity: number;
   quality: number;
+  source?: 'server' | 'offline'; // 'offline' when produced by local heuristics
 }
 
 export interface CodeIssue {
@@ -98,17 +104,33 @@ export interface AutomatusConfig {
   auditLogLevel: 'all' | 'changes_only' | 'errors_only';
   serverUrl: string;
   bridgePort: number;
+  bridgeTransport?: 'websocket' | 'ipc';
+  bridgeSocketPath?: string; // Empty for the per-workspace default
+  bridgeEnableHttp?: boolean; // POST /v1/commands on the bridge endpoint
+  bridgeTls?: boolean; // wss:// with a self-signed certificate; websocket transport only
   bridgeTimeout: number;
   bridgeRetryAttempts: number;
   bridgeEnableHeartbeat: boolean;
   bridgeHeartbeatInterval: number;
+  bridgeCommandBreakerThreshold?: number;
+  bridgeCommandBreakerCooldown?: number;
+  bridgeConnectionBreakerThreshold?: number;
+  bridgeConnectionBreakerCooldown?: number;
+  bridgeTaskAllowlist?: string[]; // Build commands and VS Code task labels run_task may run
+  auditMaxFileSizeMB?: number;
+  auditMaxFiles?: number;
+  auditCategories?: Partial<Record<AuditCategory, boolean>>; // Per-category overrides of auditLogLevel
 }
 
+// Audit event taxonomy used to filter entries by auditLogLevel
+export type AuditCategory = 'read' | 'change' | 'permission' | 'auth' | 'error';
+
 export interface SafetyGuardConfig {
   allowedOperations: string[];
   restrictedPaths: string[];
   requireApprovalFor: string[];
-  auditLevel: 'minimal' | 'standard' | 'verbose';
+  auditLevel: AutomatusConfig['auditLogLevel'];
+  auditCategories: Partial<Record<AuditCategory, boolean>>;
 }
 
 export interface AutomatusFix {
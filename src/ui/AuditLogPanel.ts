@@ -0,0 +1,414 @@
+import * as vscode from 'vscode';
+import { SafetyGuard } from '../safety/SafetyGuard';
+import { AuditEntry } from '../safety/AuditStore';
+import {
+  AuditQuery,
+  auditEntriesToCsv,
+  filterAuditEntries,
+  getAuditConnectionIds,
+  getAuditOperation,
+  isAuditFailure
+} from '../safety/auditQuery';
+
+// Rows rendered at once; exports always include every matching entry
+const MAX_DISPLAYED_ENTRIES = 500;
+
+/**
+ * Interactive audit log viewer. Entries are loaded from the persisted trail and
+ * filtered in the extension host; the webview only renders the current page.
+ */
+export class AuditLogPanel {
+  private static current: AuditLogPanel | undefined;
+
+  private entries: AuditEntry[] = [];
+  private query: AuditQuery = {};
+  private disposables: vscode.Disposable[] = [];
+
+  static async show(safetyGuard: SafetyGuard): Promise<void> {
+    if (AuditLogPanel.current) {
+      AuditLogPanel.current.panel.reveal(vscode.ViewColumn.One);
+      await AuditLogPanel.current.reload();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'automatusAuditLog',
+      'Automatus Audit Log',
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    AuditLogPanel.current = new AuditLogPanel(panel, safetyGuard);
+    await AuditLogPanel.current.reload();
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly safetyGuard: SafetyGuard
+  ) {
+    this.panel.webview.html = this.getHtml();
+
+    this.panel.webview.onDidReceiveMessage(
+      message => this.handleMessage(message),
+      undefined,
+      this.disposables
+    );
+    this.panel.onDidDispose(() => this.dispose(), undefined, this.disposables);
+  }
+
+  private async handleMessage(message: any): Promise<void> {
+    switch (message.type) {
+      case 'query':
+        this.query = message.query || {};
+        this.postResults();
+        break;
+      case 'refresh':
+        await this.reload();
+        break;
+      case 'export':
+        await this.exportEntries(message.format === 'csv' ? 'csv' : 'json');
+        break;
+    }
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      this.entries = await this.safetyGuard.readAuditTrail();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to read audit log: ${error}`);
+      this.entries = this.safetyGuard.getAuditLog();
+    }
+    this.postResults();
+  }
+
+  private postResults(): void {
+    const matched = filterAuditEntries(this.entries, this.query);
+    const newestFirst = matched.slice(-MAX_DISPLAYED_ENTRIES).reverse();
+
+    this.panel.webview.postMessage({
+      type: 'results',
+      total: this.entries.length,
+      matched: matched.length,
+      entries: newestFirst.map(entry => ({
+        id: entry.id,
+        timestamp: entry.timestamp,
+        operation: getAuditOperation(entry),
+        category: entry.category,
+        safetyPhase: entry.safetyPhase,
+        userId: entry.userId,
+        failed: isAuditFailure(entry),
+        connectionIds: getAuditConnectionIds(entry),
+        data: entry.data
+      })),
+      operations: Array.from(new Set(this.entries.map(getAuditOperation))).sort(),
+      connectionIds: Array.from(new Set(this.entries.flatMap(getAuditConnectionIds))).sort()
+    });
+  }
+
+  private async exportEntries(format: 'json' | 'csv'): Promise<void> {
+    const matched = filterAuditEntries(this.entries, this.query);
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(`automatus-audit-log.${format}`),
+      filters: format === 'csv'
+        ? { 'CSV files': ['csv'], 'All files': ['*'] }
+        : { 'JSON files': ['json'], 'All files': ['*'] }
+    });
+
+    if (!uri) {
+      return;
+    }
+
+    try {
+      const content = format === 'csv' ? auditEntriesToCsv(matched) : JSON.stringify(matched, null, 2);
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+      this.safetyGuard.logOperation('audit_log_exported', {
+        format,
+        entries: matched.length,
+        query: this.query
+      });
+      vscode.window.showInformationMessage(`Exported ${matched.length} audit entries to ${uri.fsPath}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to export audit log: ${error}`);
+    }
+  }
+
+  private dispose(): void {
+    AuditLogPanel.current = undefined;
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
+  }
+
+  private getHtml(): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            background-color: var(--vscode-editor-background);
+            color: var(--vscode-foreground);
+            padding: 20px;
+        }
+        .filters {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+            gap: 8px;
+            background-color: var(--vscode-panel-background);
+            padding: 12px;
+            border-radius: 4px;
+            margin-bottom: 12px;
+        }
+        .filters label {
+            display: flex;
+            flex-direction: column;
+            font-size: 11px;
+            gap: 2px;
+            color: var(--vscode-descriptionForeground);
+        }
+        input, select {
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            padding: 4px;
+            font-family: inherit;
+        }
+        .toolbar {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 12px;
+        }
+        .toolbar .summary {
+            flex: 1;
+            color: var(--vscode-descriptionForeground);
+        }
+        button {
+            padding: 4px 10px;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        button:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+        details {
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 4px;
+            margin-bottom: 6px;
+        }
+        details.failed {
+            border-left: 3px solid var(--vscode-errorForeground);
+        }
+        summary {
+            display: flex;
+            gap: 12px;
+            align-items: center;
+            padding: 6px 10px;
+            cursor: pointer;
+            background-color: var(--vscode-panel-background);
+        }
+        .timestamp {
+            font-family: monospace;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .operation {
+            font-weight: bold;
+            color: var(--vscode-textLink-foreground);
+        }
+        .badge {
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            padding: 1px 6px;
+            border-radius: 3px;
+            font-size: 11px;
+        }
+        .connections {
+            font-family: monospace;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+        pre {
+            margin: 0;
+            padding: 10px;
+            background-color: var(--vscode-textCodeBlock-background);
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+            white-space: pre-wrap;
+            word-wrap: break-word;
+        }
+    </style>
+</head>
+<body>
+    <h2>🛡️ Automatus Security Audit Log</h2>
+    <div class="filters">
+        <label>Search<input id="text" type="search" placeholder="Any text in the entry"></label>
+        <label>Operation<select id="operation"><option value="">All operations</option></select></label>
+        <label>Safety phase
+            <select id="safetyPhase">
+                <option value="">All phases</option>
+                <option value="1">Phase 1</option>
+                <option value="2">Phase 2</option>
+                <option value="3">Phase 3</option>
+                <option value="4">Phase 4</option>
+            </select>
+        </label>
+        <label>Outcome
+            <select id="outcome">
+                <option value="">Success and failure</option>
+                <option value="success">Success</option>
+                <option value="failure">Failure</option>
+            </select>
+        </label>
+        <label>Connection / session id<input id="connectionId" list="connectionIds" placeholder="e.g. conn_..."></label>
+        <label>From<input id="from" type="datetime-local"></label>
+        <label>To<input id="to" type="datetime-local"></label>
+    </div>
+    <datalist id="connectionIds"></datalist>
+    <div class="toolbar">
+        <span class="summary" id="summary">Loading...</span>
+        <button onclick="resetFilters()">Reset</button>
+        <button onclick="post({ type: 'refresh' })">Refresh</button>
+        <button onclick="post({ type: 'export', format: 'json' })">Export JSON</button>
+        <button onclick="post({ type: 'export', format: 'csv' })">Export CSV</button>
+    </div>
+    <div id="entries"></div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const fields = ['text', 'operation', 'safetyPhase', 'outcome', 'connectionId', 'from', 'to'];
+        let debounceTimer;
+
+        function post(message) {
+            vscode.postMessage(message);
+        }
+
+        function value(id) {
+            return document.getElementById(id).value;
+        }
+
+        function toIso(localValue) {
+            return localValue ? new Date(localValue).toISOString() : undefined;
+        }
+
+        function sendQuery() {
+            post({
+                type: 'query',
+                query: {
+                    text: value('text') || undefined,
+                    operation: value('operation') || undefined,
+                    safetyPhase: value('safetyPhase') ? Number(value('safetyPhase')) : undefined,
+                    outcome: value('outcome') || undefined,
+                    connectionId: value('connectionId') || undefined,
+                    from: toIso(value('from')),
+                    to: toIso(value('to'))
+                }
+            });
+        }
+
+        function resetFilters() {
+            fields.forEach(id => { document.getElementById(id).value = ''; });
+            sendQuery();
+        }
+
+        function setOptions(select, values) {
+            const selected = select.value;
+            while (select.options.length > 1) {
+                select.remove(select.options.length - 1);
+            }
+            values.forEach(optionValue => {
+                const option = document.createElement('option');
+                option.value = optionValue;
+                option.textContent = optionValue;
+                select.appendChild(option);
+            });
+            select.value = values.includes(selected) ? selected : '';
+        }
+
+        function setSuggestions(datalist, values) {
+            datalist.innerHTML = '';
+            values.forEach(suggestion => {
+                const option = document.createElement('option');
+                option.value = suggestion;
+                datalist.appendChild(option);
+            });
+        }
+
+        function span(className, text) {
+            const element = document.createElement('span');
+            element.className = className;
+            element.textContent = text;
+            return element;
+        }
+
+        function renderEntries(message) {
+            const container = document.getElementById('entries');
+            container.innerHTML = '';
+
+            const shown = message.entries.length;
+            document.getElementById('summary').textContent = message.matched === shown
+                ? \`\${message.matched} of \${message.total} entries\`
+                : \`\${message.matched} of \${message.total} entries (newest \${shown} shown; export includes all)\`;
+
+            if (shown === 0) {
+                container.appendChild(span('timestamp', 'No audit entries match the current filters.'));
+                return;
+            }
+
+            message.entries.forEach(entry => {
+                const details = document.createElement('details');
+                details.className = entry.failed ? 'failed' : '';
+
+                const summary = document.createElement('summary');
+                summary.appendChild(span('timestamp', new Date(entry.timestamp).toLocaleString()));
+                summary.appendChild(span('operation', entry.operation));
+                if (entry.category) {
+                    summary.appendChild(span('badge', entry.category));
+                }
+                summary.appendChild(span('badge', \`Phase \${entry.safetyPhase}\`));
+                summary.appendChild(span('badge', entry.failed ? 'failure' : 'success'));
+                if (entry.connectionIds.length > 0) {
+                    summary.appendChild(span('connections', entry.connectionIds.join(' ')));
+                }
+                details.appendChild(summary);
+
+                // Payload is only serialized when the entry is expanded
+                details.addEventListener('toggle', () => {
+                    if (details.open && !details.querySelector('pre')) {
+                        const pre = document.createElement('pre');
+                        pre.textContent = JSON.stringify({ id: entry.id, userId: entry.userId, data: entry.data }, null, 2);
+                        details.appendChild(pre);
+                    }
+                });
+
+                container.appendChild(details);
+            });
+        }
+
+        fields.forEach(id => {
+            const element = document.getElementById(id);
+            element.addEventListener('change', sendQuery);
+            element.addEventListener('input', () => {
+                clearTimeout(debounceTimer);
+                debounceTimer = setTimeout(sendQuery, 250);
+            });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type === 'results') {
+                setOptions(document.getElementById('operation'), message.operations);
+                setSuggestions(document.getElementById('connectionIds'), message.connectionIds);
+                renderEntries(message);
+            }
+        });
+    </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { UISpawnRequest } from '../bridge/types';
+import { BRIDGE_PANEL_TYPES, BridgePanelType, isPanelInteraction, renderPanelHtml } from './bridgePanelTemplates';
+
+export type UISpawnPayload = UISpawnRequest['payload'];
+
+export interface BridgePanelEvent {
+  connectionId: string; // Connection that spawned the panel most recently
+  panelId: string;
+  panelType: BridgePanelType;
+  action: string;
+  value?: string;
+}
+
+interface SpawnedPanel {
+  panel: vscode.WebviewPanel;
+  panelType: BridgePanelType;
+  owner: string;
+}
+
+const VIEW_TYPE = 'automatusBridgePanel';
+
+const VIEW_COLUMNS: Record<NonNullable<NonNullable<UISpawnPayload['options']>['column']>, vscode.ViewColumn> = {
+  active: vscode.ViewColumn.Active,
+  beside: vscode.ViewColumn.Beside,
+  one: vscode.ViewColumn.One,
+  two: vscode.ViewColumn.Two,
+  three: vscode.ViewColumn.Three
+};
+
+/**
+ * Webview panels spawned by TUI connections. Panels are keyed by id, so spawning an id again
+ * re-renders and reveals the existing panel, and the latest spawner receives its interactions.
+ */
+export class BridgePanelManager implements vscode.Disposable {
+  private panels = new Map<string, SpawnedPanel>();
+  private disposing = false;
+
+  constructor(private onInteraction: (event: BridgePanelEvent) => void) {}
+
+  spawn(connectionId: string, payload: UISpawnPayload): { panelId: string; reused: boolean } {
+    if (!payload || !BRIDGE_PANEL_TYPES.includes(payload.panelType)) {
+      throw new Error(`panelType must be one of ${BRIDGE_PANEL_TYPES.join(', ')}`);
+    }
+    if (payload.panelId !== undefined && (typeof payload.panelId !== 'string' || payload.panelId.length === 0)) {
+      throw new Error('panelId must be a non-empty string');
+    }
+
+    const panelId = payload.panelId ?? uuidv4();
+    const title = typeof payload.title === 'string' && payload.title ? payload.title : 'Automatus';
+    const column = VIEW_COLUMNS[payload.options?.column ?? 'active'] ?? vscode.ViewColumn.Active;
+    const preserveFocus = payload.options?.preserveFocus ?? false;
+    const interactive = payload.options?.enableScripts !== false;
+
+    let spawned = this.panels.get(panelId);
+    const reused = !!spawned;
+    if (spawned) {
+      spawned.owner = connectionId;
+      spawned.panelType = payload.panelType;
+      spawned.panel.title = title;
+      spawned.panel.webview.options = { enableScripts: interactive };
+      spawned.panel.reveal(column, preserveFocus);
+    } else {
+      const panel = vscode.window.createWebviewPanel(
+        VIEW_TYPE,
+        title,
+        { viewColumn: column, preserveFocus },
+        { enableScripts: interactive, retainContextWhenHidden: true }
+      );
+      spawned = { panel, panelType: payload.panelType, owner: connectionId };
+      this.panels.set(panelId, spawned);
+      this.listen(panelId, spawned);
+    }
+
+    spawned.panel.webview.html = renderPanelHtml(payload.panelType, title, payload.data, {
+      nonce: crypto.randomBytes(16).toString('hex'),
+      cspSource: spawned.panel.webview.cspSource,
+      interactive
+    });
+    return { panelId, reused };
+  }
+
+  dispose(): void {
+    this.disposing = true;
+    for (const { panel } of this.panels.values()) {
+      panel.dispose();
+    }
+    this.panels.clear();
+    this.disposing = false;
+  }
+
+  private listen(panelId: string, spawned: SpawnedPanel): void {
+    spawned.panel.webview.onDidReceiveMessage(message => {
+      // Anything other than the template script's own messages is ignored
+      if (!isPanelInteraction(message)) {
+        return;
+      }
+      this.onInteraction({
+        connectionId: spawned.owner,
+        panelId,
+        panelType: spawned.panelType,
+        action: message.actionId,
+        value: message.value
+      });
+    });
+
+    spawned.panel.onDidDispose(() => {
+      this.panels.delete(panelId);
+      if (!this.disposing) {
+        this.onInteraction({ connectionId: spawned.owner, panelId, panelType: spawned.panelType, action: 'closed' });
+      }
+    });
+  }
+}
@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import { BridgeSessionInfo, TUIVSCodeBridge } from '../bridge/TUIVSCodeBridge';
+import { safeRegisterDisposable } from '../utils/ExtensionLifecycle';
+
+export class BridgeSessionsViewProvider implements vscode.TreeDataProvider<SessionItem>, vscode.Disposable {
+  private _onDidChangeTreeData: vscode.EventEmitter<SessionItem | undefined | null | void> = new vscode.EventEmitter<SessionItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<SessionItem | undefined | null | void> = this._onDidChangeTreeData.event;
+  private sessionsListener: vscode.Disposable;
+  private refreshTimer: NodeJS.Timeout;
+
+  constructor(private bridge: TUIVSCodeBridge) {
+    this.sessionsListener = this.bridge.onDidChangeSessions(() => {
+      this.refresh();
+    });
+
+    // Refresh every 10 seconds to keep uptimes, heartbeats and message counts current
+    this.refreshTimer = setInterval(() => {
+      this.refresh();
+    }, 10000);
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  dispose(): void {
+    clearInterval(this.refreshTimer);
+    this.sessionsListener.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+
+  getTreeItem(element: SessionItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: SessionItem): Thenable<SessionItem[]> {
+    if (!element) {
+      return Promise.resolve(this.bridge.getSessions().map(session => this.createSessionItem(session)));
+    }
+
+    // Re-read the session so expanded details follow refreshes
+    const session = this.bridge.getSessions().find(candidate => candidate.connectionId === element.connectionId);
+    return Promise.resolve(session ? this.getDetailItems(session) : []);
+  }
+
+  private createSessionItem(session: BridgeSessionInfo): SessionItem {
+    const name = session.clientName
+      ? `${session.clientName}${session.clientVersion ? ` ${session.clientVersion}` : ''}`
+      : 'Unknown client';
+
+    return new SessionItem(
+      session.connectionId,
+      session.authenticated ? name : `${name} (unauthenticated)`,
+      `${session.clientIP} · up ${formatDuration(Date.now() - session.connectedAt)}`,
+      vscode.TreeItemCollapsibleState.Collapsed,
+      session.authenticated ? 'bridgeSession.authenticated' : 'bridgeSession',
+      session.authenticated ? '$(terminal)' : '$(question)',
+      `Session ${session.sessionId || 'not authenticated'} from ${session.clientIP}`
+    );
+  }
+
+  private getDetailItems(session: BridgeSessionInfo): SessionItem[] {
+    const now = Date.now();
+    const details: Array<[string, string, string]> = [
+      ['Session ID', session.sessionId || 'Not authenticated', '$(key)'],
+      ['Client', [session.clientName, session.clientVersion, session.platform].filter(Boolean).join(' · ') || 'Unknown', '$(device-desktop)'],
+      ['Address', `${session.clientIP} (${session.transport})`, '$(globe)'],
+      ['Connected', `${formatDuration(now - session.connectedAt)} ago`, '$(clock)'],
+      ['Last Heartbeat', `${formatDuration(now - session.lastHeartbeat)} ago`, '$(pulse)'],
+      ['Messages', `${session.messagesReceived} received, ${session.messagesSent} sent`, '$(mail)'],
+      ['Protocol', session.protocolVersion ? `v${session.protocolVersion}` : 'Legacy / not negotiated', '$(symbol-interface)']
+    ];
+    if (session.safetyPhase !== undefined) {
+      details.push(['Safety Phase', `Phase ${session.safetyPhase}`, '$(shield)']);
+    }
+
+    return details.map(([label, description, icon]) => new SessionItem(
+      session.connectionId,
+      label,
+      description,
+      vscode.TreeItemCollapsibleState.None,
+      'bridgeSessionDetail',
+      icon
+    ));
+  }
+}
+
+export class BridgeSessionsViewCommands {
+  constructor(
+    private bridge: TUIVSCodeBridge,
+    private sessionsProvider: BridgeSessionsViewProvider
+  ) {}
+
+  registerCommands(): void {
+    const commands = [
+      vscode.commands.registerCommand('automatus.bridge.sessions.refresh', () => this.sessionsProvider.refresh()),
+      vscode.commands.registerCommand('automatus.bridge.sessions.disconnect', this.disconnect.bind(this)),
+      vscode.commands.registerCommand('automatus.bridge.sessions.revokeToken', this.revokeToken.bind(this)),
+      vscode.commands.registerCommand('automatus.bridge.sessions.blockIP', this.blockIP.bind(this))
+    ];
+
+    commands.forEach(cmd => safeRegisterDisposable(cmd));
+  }
+
+  private disconnect(item?: SessionItem): void {
+    if (!item) {
+      return;
+    }
+
+    if (!this.bridge.disconnectSession(item.connectionId)) {
+      vscode.window.showWarningMessage('Session is no longer connected.');
+    }
+  }
+
+  private async revokeToken(item?: SessionItem): Promise<void> {
+    if (!item) {
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Revoke the token used by "${item.label}"?\n\nEvery session using this token is disconnected and the token can no longer authenticate.`,
+      { modal: true },
+      'Revoke Token'
+    );
+    if (choice !== 'Revoke Token') {
+      return;
+    }
+
+    if (this.bridge.revokeSessionToken(item.connectionId)) {
+      vscode.window.showInformationMessage('Token revoked.');
+    } else {
+      vscode.window.showWarningMessage('Session is no longer connected or has not authenticated.');
+    }
+  }
+
+  private async blockIP(item?: SessionItem): Promise<void> {
+    if (!item) {
+      return;
+    }
+
+    const session = this.bridge.getSessions().find(candidate => candidate.connectionId === item.connectionId);
+    if (!session) {
+      vscode.window.showWarningMessage('Session is no longer connected.');
+      return;
+    }
+
+    const scope = session.transport === 'ipc'
+      ? 'This blocks every client connecting over the local socket.'
+      : 'Every session from this address is disconnected and cannot authenticate until the block expires.';
+    const choice = await vscode.window.showWarningMessage(
+      `Block ${session.clientIP}?\n\n${scope}`,
+      { modal: true },
+      'Block Address'
+    );
+    if (choice !== 'Block Address') {
+      return;
+    }
+
+    const blocked = this.bridge.blockSessionIP(item.connectionId);
+    if (blocked) {
+      vscode.window.showInformationMessage(`Blocked ${blocked}.`);
+    }
+  }
+}
+
+// Compact duration for tree descriptions, e.g. "45s", "12m", "3h 5m"
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  }
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+class SessionItem extends vscode.TreeItem {
+  constructor(
+    public readonly connectionId: string,
+    public readonly label: string,
+    public readonly description: string,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly contextValue: string,
+    iconPath?: string,
+    public readonly tooltip?: string
+  ) {
+    super(label, collapsibleState);
+    this.id = contextValue === 'bridgeSessionDetail' ? `${connectionId}/${label}` : connectionId;
+    this.description = description;
+    this.contextValue = contextValue;
+    this.iconPath = iconPath ? new vscode.ThemeIcon(iconPath.replace('$(', '').replace(')', '')) : undefined;
+    this.tooltip = tooltip;
+  }
+}
@@ -11,6 +11,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private safetyGuard: SafetyGuard;
   private configManager: ConfigurationManager;
   private chatHistory: ChatMessage[] = [];
+  private activeRequest: AbortController | null = null;
 
   constructor(
     private readonly extensionUri: vscode.Uri,
@@ -56,6 +57,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       case 'sendMessage':
         await this.handleUserMessage(message.text);
         break;
+      case 'stopGeneration':
+        this.stopGeneration();
+        break;
       case 'clearChat':
         await this.clearChat();
         break;
@@ -101,6 +105,21 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
       // Show typing indicator
       this.showTypingIndicator();
+      const controller = new AbortController();
+      this.activeRequest = controller;
+      this.setBusy(true);
+
+      // Placeholder that streamed tokens are rendered into until the full response is parsed
+      const assistantMessage: ChatMessage = {
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        isStreaming: true
+      };
+      const options = {
+        onChunk: (text: string) => this.appendStreamChunk(assistantMessage, text),
+        signal: controller.signal
+      };
 
       try {
         // Determine the type of request and build context
@@ -111,22 +130,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         const offlinePrefix = !this.client.isConnected() ? '🔴 **Offline Mode** - ' : '';
 
         if (this.isCodeGenerationRequest(userMessage)) {
-          const preview = await this.client.generateCodePreview(userMessage, context);
+          const preview = await this.client.generateCodePreview(userMessage, context, options);
           response = offlinePrefix + this.formatCodePreviewResponse(preview);
         } else if (this.isAnalysisRequest(userMessage)) {
-          const analysis = await this.client.analyzeCode(context);
+          const analysis = await this.client.analyzeCode(context, options);
           response = offlinePrefix + this.formatAnalysisResponse(analysis);
         } else {
           // For other requests, provide general explanation
-          const explanation = await this.client.explainCode(userMessage, context);
+          const explanation = await this.client.explainCode(userMessage, context, options);
           response = offlinePrefix + this.formatExplanationResponse(explanation);
         }
 
-        this.addMessageToHistory({
-          role: 'assistant',
-          content: response,
-          timestamp: new Date().toISOString()
-        });
+        this.finishStreamingMessage(assistantMessage, response);
 
         this.safetyGuard.logOperation('chat_interaction', {
           userMessage,
@@ -135,18 +150,42 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         });
 
       } catch (error) {
-        this.addMessageToHistory({
-          role: 'assistant',
-          content: `I apologize, but I encountered an error: ${error}. Please try again or contact support if the issue persists.`,
-          timestamp: new Date().toISOString(),
-          isError: true
-        });
-
-        this.safetyGuard.logOperation('chat_interaction', {
-          userMessage,
-          error: error instanceof Error ? error.message : String(error),
-          safetyPhase: config.safetyPhase
-        });
+        if (controller.signal.aborted) {
+          // Keep whatever was streamed before the user stopped the response
+          const partial = assistantMessage.content.trim();
+          this.finishStreamingMessage(
+            assistantMessage,
+            partial ? `${partial}\n\n*Response stopped.*` : '*Response stopped.*'
+          );
+
+          this.safetyGuard.logOperation('chat_interaction', {
+            userMessage,
+            cancelled: true,
+            error: 'Cancelled by user',
+            safetyPhase: config.safetyPhase
+          });
+        } else {
+          // A stream that broke off keeps what it delivered, followed by the error
+          const partial = assistantMessage.content.trim();
+          this.finishStreamingMessage(
+            assistantMessage,
+            partial
+              ? `${partial}\n\n*The response was interrupted: ${error instanceof Error ? error.message : String(error)}*`
+              : `I apologize, but I encountered an error: ${error}. Please try again or contact support if the issue persists.`,
+            true
+          );
+
+          this.safetyGuard.logOperation('chat_interaction', {
+            userMessage,
+            error: error instanceof Error ? error.message : String(error),
+            safetyPhase: config.safetyPhase
+          });
+        }
+      } finally {
+        if (this.activeRequest === controller) {
+          this.activeRequest = null;
+        }
+        this.setBusy(false);
       }
 
       this.hideTypingIndicator();
@@ -283,6 +322,33 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     return response;
   }
 
+  private appendStreamChunk(message: ChatMessage, text: string): void {
+    if (!this.chatHistory.includes(message)) {
+      // First token: replace the typing indicator with the message being streamed
+      this.hideTypingIndicator();
+      this.addMessageToHistory(message);
+      this.updateChatView();
+    }
+
+    message.content += text;
+    this.view?.webview.postMessage({
+      type: 'streamChunk',
+      text
+    });
+  }
+
+  // Swaps the raw streamed text for the formatted response
+  private finishStreamingMessage(message: ChatMessage, content: string, isError = false): void {
+    message.content = content;
+    message.isStreaming = false;
+    message.isError = isError || undefined;
+    message.timestamp = new Date().toISOString();
+
+    if (!this.chatHistory.includes(message)) {
+      this.addMessageToHistory(message);
+    }
+  }
+
   private addMessageToHistory(message: ChatMessage): void {
     this.chatHistory.push(message);
 
@@ -318,6 +384,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     this.updateChatView();
   }
 
+  private stopGeneration(): void {
+    this.activeRequest?.abort();
+  }
+
+  // Toggles the stop button; the typing indicator alone ends at the first streamed token
+  private setBusy(busy: boolean): void {
+    this.view?.webview.postMessage({
+      type: 'setBusy',
+      busy
+    });
+  }
+
   private showTypingIndicator(): void {
     this.view?.webview.postMessage({
       type: 'showTyping'
@@ -475,6 +553,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             cursor: not-allowed;
         }
 
+        .stop-button {
+            display: none;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        .stop-button.visible {
+            display: inline-block;
+        }
+
         .actions {
             display: flex;
             gap: 5px;
@@ -548,6 +636,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             onkeypress="handleKeyPress(event)"
         >
         <button class="send-button" id="sendButton" onclick="sendMessage()">Send</button>
+        <button class="send-button stop-button" id="stopButton" onclick="stopGeneration()">Stop</button>
     </div>
 
     <script>
@@ -568,6 +657,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             }
         }
 
+        function stopGeneration() {
+            vscode.postMessage({
+                type: 'stopGeneration'
+            });
+        }
+
         function clearChat() {
             vscode.postMessage({
                 type: 'clearChat'
@@ -586,6 +681,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             }
         }
 
+        // Simple markdown-like formatting
+        function formatContent(text) {
+            return text
+                .replace(/\\*\\*(.*?)\\*\\*/g, '<strong>$1</strong>')
+                .replace(/\\*(.*?)\\*/g, '<em>$1</em>')
+                .replace(/\`\`\`(\\w+)?\\n([\\s\\S]*?)\\n\`\`\`/g, '<pre><code>$2</code></pre>')
+                .replace(/\`([^\`]+)\`/g, '<code>$1</code>');
+        }
+
         function updateChatDisplay() {
             const container = document.getElementById('chatContainer');
             container.innerHTML = '';
@@ -596,20 +700,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
                 const contentDiv = document.createElement('div');
                 contentDiv.className = 'message-content';
-
-                // Simple markdown-like formatting
-                let content = message.content
-                    .replace(/\\*\\*(.*?)\\*\\*/g, '<strong>$1</strong>')
-                    .replace(/\\*(.*?)\\*/g, '<em>$1</em>')
-                    .replace(/\`\`\`(\\w+)?\\n([\\s\\S]*?)\\n\`\`\`/g, '<pre><code>$2</code></pre>')
-                    .replace(/\`([^\`]+)\`/g, '<code>$1</code>');
-
-                contentDiv.innerHTML = content;
+                contentDiv.innerHTML = formatContent(message.content);
                 messageDiv.appendChild(contentDiv);
 
                 const timestampDiv = document.createElement('div');
                 timestampDiv.className = 'timestamp';
-                timestampDiv.textContent = new Date(message.timestamp).toLocaleTimeString();
+                timestampDiv.textContent = message.isStreaming ? 'Streaming...' : new Date(message.timestamp).toLocaleTimeString();
                 messageDiv.appendChild(timestampDiv);
 
                 container.appendChild(messageDiv);
@@ -618,6 +714,20 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             container.scrollTop = container.scrollHeight;
         }
 
+        // Appends a streamed token to the last message without re-rendering the whole chat
+        function appendStreamChunk(text) {
+            const message = messages[messages.length - 1];
+            const container = document.getElementById('chatContainer');
+            const contentDiv = container.lastElementChild && container.lastElementChild.querySelector('.message-content');
+            if (!message || !message.isStreaming || !contentDiv) {
+                return;
+            }
+
+            message.content += text;
+            contentDiv.innerHTML = formatContent(message.content);
+            container.scrollTop = container.scrollHeight;
+        }
+
         function showTyping() {
             document.getElementById('typingIndicator').classList.add('visible');
             document.getElementById('sendButton').disabled = true;
@@ -625,7 +735,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
         function hideTyping() {
             document.getElementById('typingIndicator').classList.remove('visible');
-            document.getElementById('sendButton').disabled = false;
+        }
+
+        function setBusy(busy) {
+            document.getElementById('sendButton').disabled = busy;
+            document.getElementById('stopButton').classList.toggle('visible', busy);
         }
 
         function updateSafetyStatus(phase, phaseName, connected) {
@@ -644,12 +758,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     messages = message.messages;
                     updateChatDisplay();
                     break;
+                case 'streamChunk':
+                    appendStreamChunk(message.text);
+                    break;
                 case 'showTyping':
                     showTyping();
                     break;
                 case 'hideTyping':
                     hideTyping();
                     break;
+                case 'setBusy':
+                    setBusy(message.busy);
+                    break;
                 case 'updateSafetyStatus':
                     updateSafetyStatus(message.phase, message.phaseName, message.connected);
                     break;
@@ -671,4 +791,5 @@ interface ChatMessage {
   content: string;
   timestamp: string;
   isError?: boolean;
+  isStreaming?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+
+interface Highlight {
+  uri: string;
+  decorations: vscode.DecorationOptions[];
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Temporary highlights the TUI places in editors. Highlights are tracked per document rather than
+ * per editor, so they reappear when the document is shown again before they expire.
+ */
+export class EditorHighlighter implements vscode.Disposable {
+  private highlights = new Map<string, Highlight>();
+  private decorationType = vscode.window.createTextEditorDecorationType({
+    backgroundColor: new vscode.ThemeColor('editor.findMatchHighlightBackground'),
+    borderColor: new vscode.ThemeColor('editor.findMatchBorder'),
+    borderStyle: 'solid',
+    borderWidth: '1px',
+    overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.findMatchForeground'),
+    overviewRulerLane: vscode.OverviewRulerLane.Center
+  });
+  private visibleEditorsListener = vscode.window.onDidChangeVisibleTextEditors(() => this.refresh());
+
+  // Replaces any highlight with the same id; a duration of 0 keeps it until cleared
+  add(highlightId: string, uri: vscode.Uri, ranges: vscode.Range[], hoverMessage: string | undefined, durationMs: number): void {
+    this.remove(highlightId);
+
+    const hover = hoverMessage ? new vscode.MarkdownString(hoverMessage) : undefined;
+    const highlight: Highlight = {
+      uri: uri.toString(),
+      decorations: ranges.map(range => ({ range, hoverMessage: hover }))
+    };
+    if (durationMs > 0) {
+      highlight.timer = setTimeout(() => this.clear(highlightId), durationMs);
+    }
+
+    this.highlights.set(highlightId, highlight);
+    this.refresh();
+  }
+
+  // Clears one highlight, or all of them when no id is given; returns how many were cleared
+  clear(highlightId?: string): number {
+    const ids = highlightId === undefined ? Array.from(this.highlights.keys()) : [highlightId];
+    const cleared = ids.filter(id => this.remove(id)).length;
+    if (cleared > 0) {
+      this.refresh();
+    }
+    return cleared;
+  }
+
+  dispose(): void {
+    for (const highlight of this.highlights.values()) {
+      clearTimeout(highlight.timer);
+    }
+    this.highlights.clear();
+    this.visibleEditorsListener.dispose();
+    this.decorationType.dispose();
+  }
+
+  private remove(highlightId: string): boolean {
+    const highlight = this.highlights.get(highlightId);
+    if (!highlight) {
+      return false;
+    }
+    clearTimeout(highlight.timer);
+    this.highlights.delete(highlightId);
+    return true;
+  }
+
+  private refresh(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      const uri = editor.document.uri.toString();
+      const decorations = Array.from(this.highlights.values())
+        .filter(highlight => highlight.uri === uri)
+        .flatMap(highlight => highlight.decorations);
+      editor.setDecorations(this.decorationType, decorations);
+    }
+  }
+}
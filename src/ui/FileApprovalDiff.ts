@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface FileApprovalRequest {
+  operation: string;
+  path: string;
+  currentContent: string;
+  proposedContent: string;
+  warnings: string[];
+  allowEdits: boolean; // False for deletes, where there is nothing to edit
+}
+
+export interface FileApprovalResult {
+  approved: boolean;
+  content?: string; // Set when the user approved their own edits of the proposed content
+}
+
+/**
+ * Shows a proposed file change as a side-by-side diff before it is approved. The current
+ * content is served read-only from the `automatus-approval` scheme. When edits are allowed the
+ * proposed side is an editable copy in a temporary directory, so "Approve with Edits" can
+ * pick up whatever the user changed there.
+ */
+export class FileApprovalDiff implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  public static readonly scheme = 'automatus-approval';
+
+  private contents = new Map<string, string>();
+  private registration: vscode.Disposable;
+
+  constructor() {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(FileApprovalDiff.scheme, this);
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.path) ?? '';
+  }
+
+  async requestApproval(request: FileApprovalRequest): Promise<FileApprovalResult> {
+    const approvalId = uuidv4();
+    const fileName = path.basename(request.path);
+    const currentUri = this.addDocument(`/${approvalId}/current/${fileName}`, request.currentContent);
+    const draftDir = request.allowEdits ? await fs.promises.mkdtemp(path.join(os.tmpdir(), 'automatus-approval-')) : undefined;
+    let proposedUri: vscode.Uri;
+
+    if (draftDir) {
+      proposedUri = vscode.Uri.file(path.join(draftDir, fileName));
+      await fs.promises.writeFile(proposedUri.fsPath, request.proposedContent, 'utf8');
+    } else {
+      proposedUri = this.addDocument(`/${approvalId}/proposed/${fileName}`, request.proposedContent);
+    }
+
+    try {
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        currentUri,
+        proposedUri,
+        `${fileName}: Current ↔ Proposed (${request.operation})`,
+        { preview: false }
+      );
+
+      const warnings = request.warnings.length > 0 ? ` Safety warnings: ${request.warnings.join('; ')}.` : '';
+      const actions = request.allowEdits ? ['Approve', 'Approve with Edits', 'Deny'] : ['Approve', 'Deny'];
+      const choice = await vscode.window.showWarningMessage(
+        `TUI Bridge wants to ${request.operation} ${request.path}. Review the diff before deciding.${warnings}`,
+        ...actions
+      );
+
+      if (choice === 'Approve with Edits') {
+        const draft = await vscode.workspace.openTextDocument(proposedUri);
+        return { approved: true, content: draft.getText() };
+      }
+      return { approved: choice === 'Approve' };
+    } finally {
+      await this.closeDiff(currentUri, proposedUri);
+      this.contents.delete(currentUri.path);
+      this.contents.delete(proposedUri.path);
+      if (draftDir) {
+        await fs.promises.rm(draftDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  dispose(): void {
+    this.registration.dispose();
+    this.contents.clear();
+  }
+
+  private addDocument(documentPath: string, content: string): vscode.Uri {
+    this.contents.set(documentPath, content);
+    return vscode.Uri.from({ scheme: FileApprovalDiff.scheme, path: documentPath });
+  }
+
+  // Saves an edited draft first so closing its tab does not prompt; the directory is removed afterwards
+  private async closeDiff(currentUri: vscode.Uri, proposedUri: vscode.Uri): Promise<void> {
+    const draft = vscode.workspace.textDocuments.find(document => document.uri.toString() === proposedUri.toString());
+    if (draft?.isDirty) {
+      await draft.save();
+    }
+
+    const tabs = vscode.window.tabGroups.all
+      .flatMap(group => group.tabs)
+      .filter(tab => tab.input instanceof vscode.TabInputTextDiff &&
+        tab.input.original.toString() === currentUri.toString());
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+  }
+}
@@ -4,6 +4,7 @@ import { SafetyGuard } from '../safety/SafetyGuard';
 import { SafeAutomatusClient } from '../automatus-client/SafeAutomatusClient';
 import { SAFETY_PHASES } from '../types';
 import { safeRegisterDisposable } from '../utils/ExtensionLifecycle';
+import { AuditLogPanel } from './AuditLogPanel';
 
 export class SafetyStatusViewProvider implements vscode.TreeDataProvider<StatusItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<StatusItem | undefined | null | void> = new vscode.EventEmitter<StatusItem | undefined | null | void>();
@@ -237,6 +238,7 @@ export class SafetyStatusViewCommands {
       vscode.commands.registerCommand('automatus.safety.editDirectories', this.editAllowedDirectories.bind(this)),
       vscode.commands.registerCommand('automatus.safety.viewAudit', this.viewAuditLog.bind(this)),
       vscode.commands.registerCommand('automatus.safety.exportAudit', this.exportAuditLog.bind(this)),
+      vscode.commands.registerCommand('automatus.audit.verify', this.verifyAuditLog.bind(this)),
       vscode.commands.registerCommand('automatus.safety.emergencyStop', this.emergencyStop.bind(this))
     ];
 
@@ -324,19 +326,7 @@ export class SafetyStatusViewCommands {
   }
 
   private async viewAuditLog(): Promise<void> {
-    const auditLog = this.safetyGuard.getAuditLog();
-
-    const panel = vscode.window.createWebviewPanel(
-      'automatusAuditLog',
-      'Automatus Audit Log',
-      vscode.ViewColumn.One,
-      {
-        enableScripts: false,
-        retainContextWhenHidden: true
-      }
-    );
-
-    panel.webview.html = this.getAuditLogHtml(auditLog);
+    await AuditLogPanel.show(this.safetyGuard);
   }
 
   private async exportAuditLog(): Promise<void> {
@@ -360,6 +350,27 @@ export class SafetyStatusViewCommands {
     }
   }
 
+  private async verifyAuditLog(): Promise<void> {
+    try {
+      const result = await this.safetyGuard.verifyAuditLog();
+      if (result.valid) {
+        const range = result.entriesChecked > 0
+          ? ` (entries ${result.firstSequence}-${result.lastSequence})`
+          : '';
+        vscode.window.showInformationMessage(
+          `Audit log verified: ${result.entriesChecked} entries in ${result.filesChecked.length} file(s) are intact${range}.`
+        );
+      } else {
+        const location = result.error ? `${result.error.file}:${result.error.line}` : 'unknown location';
+        vscode.window.showErrorMessage(
+          `Audit log verification failed at ${location}: ${result.error?.reason ?? 'unknown error'}`
+        );
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to verify audit log: ${error}`);
+    }
+  }
+
   private async emergencyStop(): Promise<void> {
     const choice = await vscode.window.showErrorMessage(
       'Emergency Stop will halt all Automatus operations immediately. Continue?',
@@ -373,89 +384,6 @@ export class SafetyStatusViewCommands {
       this.statusProvider.refresh();
     }
   }
-
-  private getAuditLogHtml(auditLog: any[]): string {
-    const logEntries = auditLog.map(entry => `
-      <div class="log-entry">
-        <div class="log-header">
-          <span class="timestamp">${new Date(entry.timestamp).toLocaleString()}</span>
-          <span class="operation">${entry.operation}</span>
-          <span class="phase">Phase ${entry.safetyPhase}</span>
-        </div>
-        <div class="log-data"><pre>${JSON.stringify(entry.data, null, 2)}</pre></div>
-      </div>
-    `).join('');
-
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-    <style>
-        body {
-            font-family: var(--vscode-font-family);
-            background-color: var(--vscode-editor-background);
-            color: var(--vscode-foreground);
-            padding: 20px;
-        }
-        .log-entry {
-            margin-bottom: 15px;
-            border: 1px solid var(--vscode-panel-border);
-            border-radius: 4px;
-            overflow: hidden;
-        }
-        .log-header {
-            background-color: var(--vscode-panel-background);
-            padding: 8px 12px;
-            display: flex;
-            gap: 15px;
-            align-items: center;
-            border-bottom: 1px solid var(--vscode-panel-border);
-        }
-        .timestamp {
-            font-family: monospace;
-            font-size: 12px;
-            color: var(--vscode-descriptionForeground);
-        }
-        .operation {
-            font-weight: bold;
-            color: var(--vscode-textLink-foreground);
-        }
-        .phase {
-            background-color: var(--vscode-badge-background);
-            color: var(--vscode-badge-foreground);
-            padding: 2px 6px;
-            border-radius: 3px;
-            font-size: 11px;
-        }
-        .log-data {
-            padding: 12px;
-            background-color: var(--vscode-textCodeBlock-background);
-        }
-        .log-data pre {
-            margin: 0;
-            font-family: var(--vscode-editor-font-family);
-            font-size: 12px;
-            white-space: pre-wrap;
-            word-wrap: break-word;
-        }
-        .summary {
-            background-color: var(--vscode-panel-background);
-            padding: 15px;
-            border-radius: 4px;
-            margin-bottom: 20px;
-        }
-    </style>
-</head>
-<body>
-    <div class="summary">
-        <h2>🛡️ Automatus Security Audit Log</h2>
-        <p>Total entries: ${auditLog.length}</p>
-        <p>Generated: ${new Date().toLocaleString()}</p>
-    </div>
-    ${logEntries || '<p>No audit entries found.</p>'}
-</body>
-</html>`;
-  }
 }
 
 class StatusItem extends vscode.TreeItem {
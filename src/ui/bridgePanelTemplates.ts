@@ -0,0 +1,290 @@
+/**
+ * HTML templates for panels spawned by the TUI through UI_SPAWN
+ * The TUI only sends structured data; every value is escaped into extension-owned markup, and
+ * the only script a panel runs is the one below, which posts button clicks and replies back.
+ */
+
+import { UISpawnRequest } from '../bridge/types';
+
+export type BridgePanelType = UISpawnRequest['payload']['panelType'];
+
+export const BRIDGE_PANEL_TYPES: ReadonlyArray<BridgePanelType> = ['preview', 'diff', 'analysis', 'chat', 'approval'];
+
+export interface PanelAction {
+  id: string;
+  label: string;
+}
+
+export interface PreviewPanelData {
+  content: string;
+  language?: string;
+  path?: string;
+  actions?: PanelAction[];
+}
+
+// Either a unified diff or the two versions to compare
+export interface DiffPanelData {
+  diff?: string;
+  original?: string;
+  modified?: string;
+  path?: string;
+  actions?: PanelAction[];
+}
+
+export interface AnalysisPanelData {
+  summary?: string;
+  findings?: { severity?: 'error' | 'warning' | 'info'; message: string; file?: string; line?: number }[];
+  sections?: { title: string; body: string }[];
+  actions?: PanelAction[];
+}
+
+export interface ChatPanelData {
+  messages: { role: 'user' | 'assistant' | 'system'; content: string }[];
+  allowReply?: boolean;
+  actions?: PanelAction[];
+}
+
+export interface ApprovalPanelData {
+  message: string;
+  detail?: string;
+  actions?: PanelAction[]; // Defaults to Approve and Deny
+}
+
+export interface PanelRenderOptions {
+  nonce: string;
+  cspSource: string;
+  interactive: boolean; // False renders the panel without its script, so buttons do nothing
+}
+
+export interface DiffLine {
+  kind: 'context' | 'add' | 'remove' | 'header';
+  text: string;
+}
+
+// Interaction a panel posts back to the extension
+export interface PanelInteraction {
+  type: 'action';
+  actionId: string;
+  value?: string;
+}
+
+const DEFAULT_APPROVAL_ACTIONS: PanelAction[] = [
+  { id: 'approve', label: 'Approve' },
+  { id: 'deny', label: 'Deny' }
+];
+
+// Above this many line comparisons the diff falls back to "all removed, all added"
+const MAX_DIFF_CELLS = 1_000_000;
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function isPanelInteraction(message: any): message is PanelInteraction {
+  return !!message && message.type === 'action' && typeof message.actionId === 'string' &&
+    (message.value === undefined || typeof message.value === 'string');
+}
+
+export function renderPanelHtml(panelType: BridgePanelType, title: string, data: unknown, options: PanelRenderOptions): string {
+  const body = renderPanelBody(panelType, data);
+  const script = options.interactive ? `<script nonce="${options.nonce}">${PANEL_SCRIPT}</script>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${options.cspSource} 'nonce-${options.nonce}'; script-src 'nonce-${options.nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style nonce="${options.nonce}">${PANEL_STYLE}</style>
+</head>
+<body class="panel-${panelType}">
+  <h1>${escapeHtml(title)}</h1>
+  ${body}
+  ${script}
+</body>
+</html>`;
+}
+
+/**
+ * Line diff of two texts from their longest common subsequence. Inputs too large for the
+ * quadratic table are shown as a full replacement instead.
+ */
+export function computeLineDiff(original: string, modified: string): DiffLine[] {
+  const before = original.split(/\r?\n/);
+  const after = modified.split(/\r?\n/);
+
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [
+      ...before.map(text => ({ kind: 'remove' as const, text })),
+      ...after.map(text => ({ kind: 'add' as const, text }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ kind: 'context', text: before[i++] });
+      j++;
+    } else if (j < after.length && (i >= before.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      lines.push({ kind: 'add', text: after[j++] });
+    } else {
+      lines.push({ kind: 'remove', text: before[i++] });
+    }
+  }
+  return lines;
+}
+
+export function parseDiffLines(diff: string): DiffLine[] {
+  return diff.split(/\r?\n/).map(line => {
+    if (line.startsWith('@@') || line.startsWith('+++') || line.startsWith('---')) {
+      return { kind: 'header', text: line };
+    }
+    if (line.startsWith('+')) {
+      return { kind: 'add', text: line.slice(1) };
+    }
+    if (line.startsWith('-')) {
+      return { kind: 'remove', text: line.slice(1) };
+    }
+    return { kind: 'context', text: line.startsWith(' ') ? line.slice(1) : line };
+  });
+}
+
+function renderPanelBody(panelType: BridgePanelType, data: unknown): string {
+  // Plain strings are accepted for every panel type as its main text
+  const fields: any = typeof data === 'string' ? { content: data, message: data, summary: data, diff: data } : (data ?? {});
+
+  switch (panelType) {
+    case 'preview':
+      return `${fields.path ? `<p class="path">${escapeHtml(fields.path)}</p>` : ''}
+  <pre class="code" data-language="${escapeHtml(fields.language ?? '')}">${escapeHtml(fields.content)}</pre>
+  ${renderActions(fields.actions)}`;
+
+    case 'diff': {
+      const lines = typeof fields.diff === 'string'
+        ? parseDiffLines(fields.diff)
+        : computeLineDiff(String(fields.original ?? ''), String(fields.modified ?? ''));
+      const rows = lines.map(line =>
+        `<div class="diff-${line.kind}"><span class="marker">${DIFF_MARKERS[line.kind]}</span>${escapeHtml(line.text)}</div>`
+      ).join('\n');
+      return `${fields.path ? `<p class="path">${escapeHtml(fields.path)}</p>` : ''}
+  <div class="diff">${rows}</div>
+  ${renderActions(fields.actions)}`;
+    }
+
+    case 'analysis': {
+      const findings = asArray(fields.findings).map(finding => {
+        const severity = ['error', 'warning', 'info'].includes(finding?.severity) ? finding.severity : 'info';
+        const location = finding?.file ? ` <span class="location">${escapeHtml(finding.file)}${finding.line !== undefined ? `:${escapeHtml(finding.line)}` : ''}</span>` : '';
+        return `<li class="finding-${severity}"><strong>${severity}</strong> ${escapeHtml(finding?.message)}${location}</li>`;
+      }).join('\n');
+      const sections = asArray(fields.sections).map(section =>
+        `<section><h2>${escapeHtml(section?.title)}</h2><p>${escapeHtml(section?.body)}</p></section>`
+      ).join('\n');
+      return `${fields.summary ? `<p class="summary">${escapeHtml(fields.summary)}</p>` : ''}
+  ${findings ? `<ul class="findings">${findings}</ul>` : ''}
+  ${sections}
+  ${renderActions(fields.actions)}`;
+    }
+
+    case 'chat': {
+      const messages = asArray(fields.messages).map(message => {
+        const role = ['user', 'assistant', 'system'].includes(message?.role) ? message.role : 'assistant';
+        return `<div class="message message-${role}"><span class="role">${role}</span><div>${escapeHtml(message?.content)}</div></div>`;
+      }).join('\n');
+      const reply = fields.allowReply
+        ? '<form class="reply"><textarea name="reply" rows="3" placeholder="Reply to the TUI"></textarea><button type="submit">Send</button></form>'
+        : '';
+      return `<div class="messages">${messages}</div>
+  ${reply}
+  ${renderActions(fields.actions)}`;
+    }
+
+    case 'approval': {
+      const actions = asArray(fields.actions).length > 0 ? fields.actions : DEFAULT_APPROVAL_ACTIONS;
+      return `<p class="message">${escapeHtml(fields.message)}</p>
+  ${fields.detail ? `<pre class="detail">${escapeHtml(fields.detail)}</pre>` : ''}
+  ${renderActions(actions, true)}`;
+    }
+  }
+}
+
+// Buttons post their action id; `once` disables them after the first click, as for approvals
+function renderActions(actions: unknown, once = false): string {
+  const buttons = asArray(actions)
+    .filter(action => typeof action?.id === 'string')
+    .map(action => `<button data-action="${escapeHtml(action.id)}">${escapeHtml(action.label ?? action.id)}</button>`)
+    .join('');
+  return buttons ? `<div class="actions"${once ? ' data-once="true"' : ''}>${buttons}</div>` : '';
+}
+
+function asArray(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+const DIFF_MARKERS: Record<DiffLine['kind'], string> = {
+  context: ' ',
+  add: '+',
+  remove: '-',
+  header: ''
+};
+
+const PANEL_STYLE = `
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+  h1 { font-size: 1.3em; }
+  pre, .diff { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+  pre { background: var(--vscode-textCodeBlock-background); padding: 8px; overflow: auto; white-space: pre-wrap; }
+  .path, .location, .role { color: var(--vscode-descriptionForeground); }
+  .diff div { white-space: pre; }
+  .diff .marker { display: inline-block; width: 1.5em; }
+  .diff-add { background: var(--vscode-diffEditor-insertedLineBackground, rgba(155, 185, 85, 0.2)); }
+  .diff-remove { background: var(--vscode-diffEditor-removedLineBackground, rgba(255, 0, 0, 0.2)); }
+  .diff-header { color: var(--vscode-descriptionForeground); }
+  .finding-error strong { color: var(--vscode-errorForeground); }
+  .finding-warning strong { color: var(--vscode-editorWarning-foreground); }
+  .message { margin: 8px 0; }
+  .message-user { text-align: right; }
+  .reply textarea { width: 100%; }
+  .actions { margin: 16px 0; display: flex; gap: 8px; }
+  button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; cursor: pointer; }
+  button:disabled { opacity: 0.5; cursor: default; }
+`;
+
+const PANEL_SCRIPT = `
+  const vscode = acquireVsCodeApi();
+  document.querySelectorAll('button[data-action]').forEach(button => {
+    button.addEventListener('click', () => {
+      vscode.postMessage({ type: 'action', actionId: button.dataset.action });
+      const group = button.closest('.actions');
+      if (group && group.dataset.once) {
+        group.querySelectorAll('button').forEach(other => { other.disabled = true; });
+      }
+    });
+  });
+  const form = document.querySelector('form.reply');
+  if (form) {
+    form.addEventListener('submit', event => {
+      event.preventDefault();
+      const field = form.querySelector('textarea');
+      if (field.value.trim()) {
+        vscode.postMessage({ type: 'action', actionId: 'reply', value: field.value });
+        field.value = '';
+      }
+    });
+  }
+`;
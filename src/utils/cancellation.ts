@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+
+export interface LinkedAbortSignal {
+  signal: AbortSignal;
+  dispose(): void;
+}
+
+/**
+ * Returns an AbortSignal that aborts when the VS Code cancellation token fires,
+ * so editor-level cancellation reaches fetch-based requests.
+ * Dispose it once the operation settles to release the token listener.
+ */
+export function linkCancellationToken(token: vscode.CancellationToken): LinkedAbortSignal {
+  const controller = new AbortController();
+  if (token.isCancellationRequested) {
+    controller.abort();
+    return { signal: controller.signal, dispose: () => {} };
+  }
+
+  const listener = token.onCancellationRequested(() => controller.abort());
+  return {
+    signal: controller.signal,
+    dispose: () => listener.dispose()
+  };
+}
@@ -0,0 +1,58 @@
+// Minimal glob support for bridge filters: `**`, `*`, `?` and `{a,b}` alternatives.
+// Paths are compared with forward slashes so Windows paths match the same patterns.
+
+const regexCache = new Map<string, RegExp>();
+const MAX_CACHED_PATTERNS = 500;
+
+export const normalizeGlobPath = (filePath: string): string => {
+  return filePath.replace(/\\/g, '/');
+};
+
+export const globToRegExp = (pattern: string): RegExp => {
+  const cached = regexCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const glob = normalizeGlobPath(pattern);
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        const followedBySlash = glob[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  if (regexCache.size >= MAX_CACHED_PATTERNS) {
+    regexCache.clear();
+  }
+  regexCache.set(pattern, regex);
+  return regex;
+};
+
+export const matchesGlob = (filePath: string, pattern: string): boolean => {
+  return globToRegExp(pattern).test(normalizeGlobPath(filePath));
+};
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectInfo } from '../bridge/TUIVSCodeBridge';
+import { SafetyGuard } from '../safety/SafetyGuard';
+import { DEFAULT_TASK_TIMEOUT_MS, TaskOutputStream, runTaskProcess } from '../bridge/taskRunner';
+import { TestRunPlan, TestRunRequest, TestRunnerKind, detectTestRunner, planTestRun, validateTestRunRequest } from '../bridge/testRunners';
+import { TestCaseResult, TestRunSummary, parseTestReport, summarizeTests } from '../bridge/testResults';
+
+export interface TestRunReport {
+  runner: TestRunnerKind;
+  commandLine: string;
+  cwd: string;
+  exitCode: number | null;
+  signal: string | null;
+  durationMs: number;
+  timedOut: boolean;
+  summary: TestRunSummary;
+  tests: TestCaseResult[];
+  reportError?: string; // Set when the runner's report could not be read or parsed
+  stdout: string; // Last 64 KB
+  stderr: string; // Last 64 KB
+  truncated: boolean;
+}
+
+export interface TestRunOptions {
+  initiator: 'tui' | 'user';
+  onOutput?: (stream: TaskOutputStream, chunk: string) => void;
+  signal?: AbortSignal;
+  approve?: (plan: TestRunPlan) => Promise<boolean>; // Asked once the command line is known
+}
+
+// Reporters on stdout need all of it; test logs can be long
+const STDOUT_REPORT_BYTES = 16 * 1024 * 1024;
+const RETURNED_OUTPUT_CHARS = 64 * 1024;
+
+/**
+ * Runs the project's tests with a machine-readable reporter and turns the report into per-test
+ * results. Failures with a known location are published as diagnostics, replacing those of the
+ * previous run.
+ */
+export class TestRunService implements vscode.Disposable {
+  private diagnostics = vscode.languages.createDiagnosticCollection('automatus-tests');
+
+  constructor(
+    private safetyGuard: SafetyGuard,
+    private getProject: () => Promise<ProjectInfo | null>
+  ) {}
+
+  async run(request: TestRunRequest, options: TestRunOptions): Promise<TestRunReport> {
+    validateTestRunRequest(request);
+
+    const project = await this.getProject();
+    if (!project) {
+      throw new Error('No project detected in the workspace');
+    }
+    const runner = request.runner ?? detectTestRunner(project, await this.readPackageJson(project));
+    if (!runner) {
+      throw new Error(`No supported test runner detected for a ${project.type} project`);
+    }
+
+    const reportDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'automatus-tests-'));
+    try {
+      const plan = planTestRun(runner, project.rootPath, reportDir, request);
+      const commandLine = [plan.spec.command, ...plan.spec.args].join(' ');
+
+      if (options.approve && !await options.approve(plan)) {
+        throw new Error('Test run cancelled by user');
+      }
+
+      this.safetyGuard.logOperation('test_run_start', {
+        initiator: options.initiator,
+        runner,
+        commandLine,
+        cwd: plan.spec.cwd
+      });
+
+      const startTime = Date.now();
+      const result = await runTaskProcess(plan.spec, {
+        onOutput: options.onOutput,
+        signal: options.signal,
+        timeoutMs: request.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS,
+        maxOutputBytes: plan.report.kind === 'stdout' ? STDOUT_REPORT_BYTES : undefined
+      });
+
+      let tests: TestCaseResult[] = [];
+      let reportError: string | undefined;
+      try {
+        tests = await this.readResults(plan, result.stdout, startTime);
+        if (tests.length === 0 && result.exitCode !== 0) {
+          reportError = `No test results found in the ${runner} report`;
+        }
+      } catch (error) {
+        reportError = `Could not read the ${runner} report: ${error instanceof Error ? error.message : String(error)}`;
+      }
+
+      await this.publishDiagnostics(runner, project.rootPath, tests);
+      const summary = summarizeTests(tests);
+
+      this.safetyGuard.logOperation('test_run', {
+        initiator: options.initiator,
+        runner,
+        exitCode: result.exitCode,
+        durationMs: result.durationMs,
+        timedOut: result.timedOut,
+        ...summary
+      });
+
+      return {
+        runner,
+        commandLine,
+        cwd: plan.spec.cwd,
+        exitCode: result.exitCode,
+        signal: result.signal,
+        durationMs: result.durationMs,
+        timedOut: result.timedOut,
+        summary,
+        tests,
+        reportError,
+        stdout: result.stdout.slice(-RETURNED_OUTPUT_CHARS),
+        stderr: result.stderr.slice(-RETURNED_OUTPUT_CHARS),
+        truncated: result.truncated || result.stdout.length > RETURNED_OUTPUT_CHARS || result.stderr.length > RETURNED_OUTPUT_CHARS
+      };
+    } finally {
+      await fs.promises.rm(reportDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  clearDiagnostics(): void {
+    this.diagnostics.clear();
+  }
+
+  dispose(): void {
+    this.diagnostics.dispose();
+  }
+
+  private async readPackageJson(project: ProjectInfo): Promise<any> {
+    if (project.type !== 'npm') {
+      return undefined;
+    }
+    try {
+      return JSON.parse(await fs.promises.readFile(path.join(project.rootPath, 'package.json'), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readResults(plan: TestRunPlan, stdout: string, startTime: number): Promise<TestCaseResult[]> {
+    switch (plan.report.kind) {
+      case 'stdout':
+        return parseTestReport(plan.format, stdout, plan.parseOptions);
+      case 'file':
+        return parseTestReport(plan.format, await fs.promises.readFile(plan.report.path, 'utf8'), plan.parseOptions);
+      case 'directory': {
+        // Maven and Gradle keep reports between builds; only this run's files count
+        const directory = plan.report.path;
+        const names = (await fs.promises.readdir(directory)).filter(name => name.endsWith('.xml'));
+        const tests: TestCaseResult[] = [];
+        for (const name of names) {
+          const file = path.join(directory, name);
+          if ((await fs.promises.stat(file)).mtimeMs >= startTime - 1000) {
+            tests.push(...parseTestReport(plan.format, await fs.promises.readFile(file, 'utf8'), plan.parseOptions));
+          }
+        }
+        return tests;
+      }
+    }
+  }
+
+  private async publishDiagnostics(runner: TestRunnerKind, rootPath: string, tests: TestCaseResult[]): Promise<void> {
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+
+    for (const test of tests) {
+      if (test.status !== 'failed' || !test.file || test.line === undefined) {
+        continue;
+      }
+      const file = path.isAbsolute(test.file) ? test.file : path.join(rootPath, test.file);
+      if (!byFile.has(file) && !await fs.promises.stat(file).then(stat => stat.isFile(), () => false)) {
+        continue;
+      }
+
+      const line = Math.max(test.line - 1, 0);
+      const name = test.suite ? `${test.suite} ${test.name}` : test.name;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+        test.failureMessage ? `${name}: ${test.failureMessage}` : `${name} failed`,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = runner;
+      byFile.set(file, [...(byFile.get(file) ?? []), diagnostic]);
+    }
+
+    this.diagnostics.clear();
+    for (const [file, diagnostics] of byFile) {
+      this.diagnostics.set(vscode.Uri.file(file), diagnostics);
+    }
+  }
+}
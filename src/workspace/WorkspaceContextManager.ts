@@ -9,45 +9,17 @@ import {
   GitStatus,
   DependencyInfo,
   FileQueryArgs,
-  ProjectQueryArgs
+  ProjectQueryArgs,
+  WorkspaceUpdate,
+  WorkspaceUpdateType,
+  GitChangeData
 } from '../bridge/TUIVSCodeBridge';
+import { DiagnosticInfo } from '../bridge/types';
+import { diffDiagnostics, toDiagnosticInfo } from '../bridge/diagnostics';
 import { SafetyGuard } from '../safety/SafetyGuard';
 import { ConfigurationManager } from '../config/ConfigurationManager';
 import { safeRegisterDisposable } from '../utils/ExtensionLifecycle';
 
-// Workspace-specific types
-export interface WorkspaceUpdate {
-  type: 'file_change' | 'active_editor_change' | 'workspace_change' | 'git_change';
-  timestamp: number;
-  data: FileChangeData | EditorChangeData | WorkspaceChangeData | GitChangeData;
-}
-
-export interface FileChangeData {
-  action: 'create' | 'modify' | 'delete' | 'edit';
-  path: string;
-  fileName: string;
-  changes?: number;
-  isDirty?: boolean;
-}
-
-export interface EditorChangeData {
-  fileName: string | null;
-  languageId: string | null;
-  selection: {
-    start: { line: number; character: number };
-    end: { line: number; character: number };
-  } | null;
-}
-
-export interface WorkspaceChangeData {
-  added: string[];
-  removed: string[];
-}
-
-export interface GitChangeData extends GitStatus {
-  // Git-specific change data
-}
-
 // Configuration interface for file watching
 export interface FileWatchConfig {
   watchedExtensions: string[];
@@ -66,6 +38,7 @@ export class WorkspaceContextManager implements IWorkspaceContextManager {
   private updateQueue: WorkspaceUpdate[] = [];
   private sendUpdatesTimer: NodeJS.Timeout | null = null;
   private fileWatchConfig: FileWatchConfig;
+  private diagnosticsSnapshot = new Map<string, DiagnosticInfo[]>(); // Last diagnostics pushed per file
 
   constructor(safetyGuard: SafetyGuard, configManager: ConfigurationManager) {
     this.safetyGuard = safetyGuard;
@@ -190,7 +163,7 @@ export class WorkspaceContextManager implements IWorkspaceContextManager {
         this.queueUpdate({
           type: 'file_change',
           timestamp: Date.now(),
-          data: { action: 'create', path: uri.fsPath, fileName: vscode.workspace.asRelativePath(uri) }
+          data: { action: 'create', path: uri.fsPath, fileName: vscode.workspace.asRelativePath(uri), languageId: this.getOpenDocumentLanguage(uri) }
         });
       }
     });
@@ -200,7 +173,7 @@ export class WorkspaceContextManager implements IWorkspaceContextManager {
         this.queueUpdate({
           type: 'file_change',
           timestamp: Date.now(),
-          data: { action: 'modify', path: uri.fsPath, fileName: vscode.workspace.asRelativePath(uri) }
+          data: { action: 'modify', path: uri.fsPath, fileName: vscode.workspace.asRelativePath(uri), languageId: this.getOpenDocumentLanguage(uri) }
         });
       }
     });
@@ -210,12 +183,17 @@ export class WorkspaceContextManager implements IWorkspaceContextManager {
         this.queueUpdate({
           type: 'file_change',
           timestamp: Date.now(),
-          data: { action: 'delete', path: uri.fsPath, fileName: vscode.workspace.asRelativePath(uri) }
+          data: { action: 'delete', path: uri.fsPath, fileName: vscode.workspace.asRelativePath(uri), languageId: this.getOpenDocumentLanguage(uri) }
         });
       }
     });
   }
 
+  // Language of a watched file, known only while it is open in an editor
+  private getOpenDocumentLanguage(uri: vscode.Uri): string | undefined {
+    return vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === uri.fsPath)?.languageId;
+  }
+
   private setupWorkspaceWatchers(): void {
     // Watch for active editor changes
     const editorChangeDisposable = vscode.window.onDidChangeActiveTextEditor((editor) => {
@@ -260,6 +238,7 @@ export class WorkspaceContextManager implements IWorkspaceContextManager {
             action: 'edit',
             path: event.document.uri.fsPath,
             fileName: vscode.workspace.asRelativePath(event.document.uri),
+            languageId: event.document.languageId,
             changes: event.contentChanges.length,
             isDirty: event.document.isDirty
           }
@@ -267,6 +246,43 @@ export class WorkspaceContextManager implements IWorkspaceContextManager {
       }
     });
     safeRegisterDisposable(textDocumentChangeDisposable);
+
+    // Push diagnostics deltas so the TUI can follow compiler and linter results
+    const diagnosticsChangeDisposable = vscode.languages.onDidChangeDiagnostics((event) => {
+      for (const uri of event.uris) {
+        if (uri.scheme === 'file') {
+          this.queueDiagnosticsChange(uri);
+        }
+      }
+    });
+    safeRegisterDisposable(diagnosticsChangeDisposable);
+  }
+
+  private queueDiagnosticsChange(uri: vscode.Uri): void {
+    const current = vscode.languages.getDiagnostics(uri).map(diagnostic => toDiagnosticInfo(uri.fsPath, diagnostic));
+    const { added, removed } = diffDiagnostics(this.diagnosticsSnapshot.get(uri.fsPath) ?? [], current);
+    if (added.length === 0 && removed.length === 0) {
+      return;
+    }
+
+    if (current.length > 0) {
+      this.diagnosticsSnapshot.set(uri.fsPath, current);
+    } else {
+      this.diagnosticsSnapshot.delete(uri.fsPath);
+    }
+
+    this.queueUpdate({
+      type: 'diagnostics_change',
+      timestamp: Date.now(),
+      data: {
+        path: uri.fsPath,
+        fileName: vscode.workspace.asRelativePath(uri),
+        languageId: this.getOpenDocumentLanguage(uri),
+        added,
+        removed,
+        total: current.length
+      }
+    });
   }
 
   private async initializeGitExtension(): Promise<void> {
@@ -328,7 +344,7 @@ export class WorkspaceContextManager implements IWorkspaceContextManager {
 
       // Send each group as a single message
       for (const [type, updateGroup] of Object.entries(groupedUpdates)) {
-        await this.sendWorkspaceUpdate(type, updateGroup);
+        await this.sendWorkspaceUpdate(type as WorkspaceUpdateType, updateGroup);
       }
 
       this.safetyGuard.logOperation('workspace_updates_sent', {
@@ -345,41 +361,24 @@ export class WorkspaceContextManager implements IWorkspaceContextManager {
     }
   }
 
-  private groupUpdatesByType(updates: WorkspaceUpdate[]): Record<string, WorkspaceUpdate[]> {
-    const grouped: Record<string, WorkspaceUpdate[]> = {};
+  private groupUpdatesByType(updates: WorkspaceUpdate[]): Partial<Record<WorkspaceUpdateType, WorkspaceUpdate[]>> {
+    const grouped: Partial<Record<WorkspaceUpdateType, WorkspaceUpdate[]>> = {};
 
     for (const update of updates) {
       if (!grouped[update.type]) {
         grouped[update.type] = [];
       }
-      grouped[update.type].push(update);
+      grouped[update.type]!.push(update);
     }
 
     return grouped;
   }
 
-  private async sendWorkspaceUpdate(type: string, updates: WorkspaceUpdate[]): Promise<void> {
+  private async sendWorkspaceUpdate(type: WorkspaceUpdateType, updates: WorkspaceUpdate[]): Promise<void> {
     if (!this.bridge) {return;}
 
-    // Send update to all connected TUI clients
-    const connections = (this.bridge as any).connections || new Map();
-
-    for (const [connectionId, connection] of connections) {
-      if (connection.authenticated) {
-        try {
-          (this.bridge as any).sendMessage(connectionId, {
-            type: 'workspace_update',
-            data: {
-              updateType: type,
-              updates: updates,
-              timestamp: Date.now()
-            }
-          });
-        } catch (error) {
-          console.error(`Failed to send update to connection ${connectionId}:`, error);
-        }
-      }
-    }
+    // The bridge only delivers updates matching each connection's subscriptions
+    this.bridge.publishWorkspaceUpdates(type, updates);
   }
 
   async getCurrentWorkspaceContext(): Promise<WorkspaceContext> {
@@ -660,24 +659,10 @@ export class WorkspaceContextManager implements IWorkspaceContextManager {
     try {
       const context = await this.getCurrentWorkspaceContext();
 
-      // Send to all authenticated connections
-      const connections = (this.bridge as any).connections || new Map();
-
-      for (const [connectionId, connection] of connections) {
-        if (connection.authenticated) {
-          try {
-            (this.bridge as any).sendMessage(connectionId, {
-              type: 'initial_workspace_context',
-              data: context,
-              timestamp: Date.now()
-            });
-          } catch (error) {
-            console.error(`Failed to send initial context to connection ${connectionId}:`, error);
-          }
-        }
-      }
+      const delivered = this.bridge.publishWorkspaceContext(context);
 
       this.safetyGuard.logOperation('initial_workspace_context_sent', {
+        connections: delivered,
         hasWorkspace: !!context.workspaceInfo.rootPath,
         recentFilesCount: context.recentFiles.length,
         projectType: context.activeProject?.type || 'unknown'